@@ -3,7 +3,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
 import Landing from "./pages/Landing";
@@ -11,10 +11,30 @@ import Auth from "./pages/Auth";
 import Onboarding from "./pages/Onboarding";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
+import Schedule from "./pages/Schedule";
+import Trash from "./pages/Trash";
+import Activity from "./pages/Activity";
+import Import from "./pages/Import";
+import Cellar from "./pages/Cellar";
+import Intake from "./pages/Intake";
+import BatchDetail from "./pages/BatchDetail";
+import AcceptInvite from "./pages/AcceptInvite";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// Remember where a signed-out visitor was heading so deep links survive the sign-in
+const RedirectToAuth = () => {
+  const location = useLocation();
+  return <Navigate to="/auth" state={{ from: location.pathname }} />;
+};
+
+const RedirectAfterAuth = () => {
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
+  return <Navigate to={from ?? "/dashboard"} />;
+};
+
 const App = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -23,7 +43,11 @@ const App = () => {
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
+      (event, session) => {
+        // Drop cached data from the previous account, e.g. when switching accounts to accept an invite
+        if (event === 'SIGNED_OUT') {
+          queryClient.clear();
+        }
         setUser(session?.user ?? null);
         if (session?.user) {
           setTimeout(() => {
@@ -40,6 +64,10 @@ const App = () => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
       if (session?.user) {
+        // Teammates see this as "last active" in the member directory
+        supabase.rpc('touch_last_active').then(({ error }) => {
+          if (error) console.error('Error recording activity:', error);
+        });
         checkOrganization(session.user.id);
       } else {
         setLoading(false);
@@ -55,9 +83,9 @@ const App = () => {
         .from('organization_members')
         .select('organization_id')
         .eq('user_id', userId)
-        .maybeSingle();
+        .limit(1);
 
-      setHasOrganization(!!data && !error);
+      setHasOrganization(!error && (data?.length ?? 0) > 0);
     } catch (err) {
       setHasOrganization(false);
     } finally {
@@ -85,7 +113,8 @@ const App = () => {
           <Routes>
             {/* Public routes */}
             <Route path="/" element={user ? <Navigate to="/dashboard" /> : <Landing />} />
-            <Route path="/auth" element={user ? <Navigate to="/dashboard" /> : <Auth />} />
+            <Route path="/auth" element={user ? <RedirectAfterAuth /> : <Auth />} />
+            <Route path="/invite/:token" element={<AcceptInvite />} />
             
             {/* Protected routes */}
             <Route 
@@ -112,6 +141,62 @@ const App = () => {
                   : <Navigate to="/auth" />
               } 
             />
+            <Route 
+              path="/batches/:id" 
+              element={
+                user 
+                  ? (hasOrganization ? <BatchDetail /> : <Navigate to="/onboarding" />) 
+                  : <RedirectToAuth />
+              } 
+            />
+            <Route 
+              path="/activity" 
+              element={
+                user 
+                  ? (hasOrganization ? <Activity /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
+            <Route 
+              path="/trash" 
+              element={
+                user 
+                  ? (hasOrganization ? <Trash /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
+            <Route 
+              path="/import" 
+              element={
+                user 
+                  ? (hasOrganization ? <Import /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
+            <Route 
+              path="/cellar" 
+              element={
+                user 
+                  ? (hasOrganization ? <Cellar /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
+            <Route 
+              path="/intake" 
+              element={
+                user 
+                  ? (hasOrganization ? <Intake /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
+            <Route 
+              path="/schedule" 
+              element={
+                user 
+                  ? (hasOrganization ? <Schedule /> : <Navigate to="/onboarding" />) 
+                  : <Navigate to="/auth" />
+              } 
+            />
             
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
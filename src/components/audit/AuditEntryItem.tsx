@@ -0,0 +1,74 @@
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { describeAuditEntry, getAuditFieldChanges, type AuditAction, type AuditEntry } from '@/lib/audit';
+
+const actionIcons: Record<AuditAction, typeof Plus> = {
+  insert: Plus,
+  update: Pencil,
+  delete: Trash2,
+};
+
+interface AuditEntryItemProps {
+  entry: AuditEntry;
+  actorName: string;
+  batchName?: string | null;
+  onOpenBatch?: () => void;
+}
+
+export function AuditEntryItem({ entry, actorName, batchName, onOpenBatch }: AuditEntryItemProps) {
+  const Icon = actionIcons[entry.action as AuditAction] ?? Pencil;
+  const changes = getAuditFieldChanges(entry);
+  const createdAt = new Date(entry.created_at);
+
+  return (
+    <div className="flex gap-3 p-3 bg-muted rounded-lg">
+      <div
+        className={cn(
+          'flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-background',
+          entry.action === 'delete' && 'text-destructive'
+        )}
+      >
+        <Icon className="h-4 w-4" />
+      </div>
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex flex-col sm:flex-row sm:items-baseline justify-between gap-1">
+          <p className="text-sm">
+            <span className="font-medium">{actorName}</span>
+            {' · '}
+            {describeAuditEntry(entry)}
+            {batchName && (
+              <>
+                {' '}
+                {onOpenBatch ? (
+                  <button type="button" className="font-medium underline-offset-2 hover:underline" onClick={onOpenBatch}>
+                    {batchName}
+                  </button>
+                ) : (
+                  <span className="font-medium">{batchName}</span>
+                )}
+              </>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground whitespace-nowrap" title={format(createdAt, 'PPpp')}>
+            {formatDistanceToNow(createdAt, { addSuffix: true })}
+          </p>
+        </div>
+
+        {changes.length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-0.5">
+            {changes.map((change) => (
+              <li key={change.field} className="break-words">
+                <span className="capitalize">{change.label}</span>:{' '}
+                {change.before !== null && <span className="line-through">{change.before}</span>}
+                {change.before !== null && change.after !== null && ' → '}
+                {change.after !== null && <span className="text-foreground">{change.after}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
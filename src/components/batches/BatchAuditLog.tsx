@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useQuery } from '@tanstack/react-query';
+import { AuditEntryItem } from '@/components/audit/AuditEntryItem';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import type { AuditEntry } from '@/lib/audit';
+
+interface BatchAuditLogProps {
+  batchId: string;
+  organizationId: string;
+  userId?: string;
+}
+
+export function BatchAuditLog({ batchId, organizationId, userId }: BatchAuditLogProps) {
+  const { getMemberName } = useOrganizationMembers(organizationId);
+
+  const {
+    data: entries = [],
+    isLoading,
+  } = useQuery<AuditEntry[]>({
+    queryKey: ['batch-audit-log', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-14 w-full" />
+        <Skeleton className="h-14 w-full" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <AuditEntryItem
+          key={entry.id}
+          entry={entry}
+          actorName={entry.actor_id === userId ? 'You' : getMemberName(entry.actor_id) ?? 'System'}
+        />
+      ))}
+    </div>
+  );
+}
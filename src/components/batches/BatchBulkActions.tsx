@@ -0,0 +1,555 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO } from 'date-fns';
+import {
+  ArrowRight,
+  CalendarPlus,
+  CheckCircle2,
+  Download,
+  GitMerge,
+  Layers,
+  Loader2,
+  MinusCircle,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { PACKAGING_FORMATS, packagingRunSchema, type PackagingFormat } from '@/lib/packaging';
+import type { StagePipeline } from '@/lib/stages';
+import { BlendDialog } from '@/components/batches/BlendDialog';
+
+type BatchRow = Tables<'batches'>;
+
+type BulkRowStatus = 'pending' | 'success' | 'skipped' | 'failed';
+
+type BulkRowResult = {
+  batchId: string;
+  batchName: string;
+  status: BulkRowStatus;
+  message?: string;
+};
+
+type BulkRun = {
+  title: string;
+  rows: BulkRowResult[];
+};
+
+// What happened to one batch; throwing marks the row as failed instead
+type BulkOutcome = {
+  status: 'success' | 'skipped';
+  message: string;
+};
+
+type BulkAction = {
+  title: string;
+  run: (batch: BatchRow) => Promise<BulkOutcome>;
+};
+
+type PackagingFormState = {
+  target_date: string;
+  format: PackagingFormat;
+  quantity: number | '';
+  notes: string;
+};
+
+const emptyPackagingForm = (): PackagingFormState => ({
+  target_date: format(new Date(), 'yyyy-MM-dd'),
+  format: 'bottle',
+  quantity: '',
+  notes: '',
+});
+
+const statusIcons: Record<BulkRowStatus, JSX.Element> = {
+  pending: <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />,
+  success: <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />,
+  skipped: <MinusCircle className="h-4 w-4 text-muted-foreground" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+interface BatchBulkActionsProps {
+  batches: BatchRow[];
+  organizationId: string;
+  userId: string;
+  pipeline: StagePipeline;
+  trashRetentionDays: number;
+  canEdit: boolean;
+  canDelete: boolean;
+  canSchedulePackaging: boolean;
+  /** Needs both create_batch and edit_batch, since sources lose volume */
+  canBlend: boolean;
+  onExport: () => void;
+  onClearSelection: () => void;
+  /** Called with the batches that were moved to the trash so they can be deselected */
+  onDeleted: (batchIds: string[]) => void;
+}
+
+/**
+ * Toolbar for the batches selected on the dashboard. Actions run one batch at a time
+ * and report per batch, so one failing guard rule or permission doesn't stop the rest.
+ */
+export function BatchBulkActions({
+  batches,
+  organizationId,
+  userId,
+  pipeline,
+  trashRetentionDays,
+  canEdit,
+  canDelete,
+  canSchedulePackaging,
+  canBlend,
+  onExport,
+  onClearSelection,
+  onDeleted,
+}: BatchBulkActionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [bulkRun, setBulkRun] = useState<BulkRun | null>(null);
+  const [showStageDialog, setShowStageDialog] = useState(false);
+  const [targetStage, setTargetStage] = useState('');
+  const [stageNote, setStageNote] = useState('');
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showPackagingDialog, setShowPackagingDialog] = useState(false);
+  const [showBlendDialog, setShowBlendDialog] = useState(false);
+  const [packagingForm, setPackagingForm] = useState<PackagingFormState>(emptyPackagingForm);
+
+  function updateRow(batchId: string, result: Partial<BulkRowResult>) {
+    setBulkRun((current) =>
+      current
+        ? { ...current, rows: current.rows.map((row) => (row.batchId === batchId ? { ...row, ...result } : row)) }
+        : current
+    );
+  }
+
+  const bulkMutation = useMutation<BulkRowResult[], Error, BulkAction>({
+    mutationFn: async ({ title, run }) => {
+      const targets = [...batches];
+      setBulkRun({
+        title,
+        rows: targets.map((batch) => ({ batchId: batch.id, batchName: batch.name, status: 'pending' })),
+      });
+
+      const results: BulkRowResult[] = [];
+      for (const batch of targets) {
+        let result: BulkRowResult;
+        try {
+          const outcome = await run(batch);
+          result = { batchId: batch.id, batchName: batch.name, ...outcome };
+        } catch (error) {
+          // Supabase errors are plain objects with a message, not Error instances
+          const message = (error as { message?: string })?.message || 'Something went wrong';
+          result = { batchId: batch.id, batchName: batch.name, status: 'failed', message };
+        }
+        results.push(result);
+        updateRow(batch.id, result);
+      }
+
+      return results;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch'] });
+      queryClient.invalidateQueries({ queryKey: ['batch-stage-history'] });
+      queryClient.invalidateQueries({ queryKey: ['deleted-batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error running bulk action',
+        description: error.message,
+      });
+    },
+  });
+
+  async function changeStage(batch: BatchRow, stageKey: string, note?: string): Promise<BulkOutcome> {
+    const stage = pipeline.getStage(stageKey);
+    if (batch.current_stage === stageKey) {
+      return { status: 'skipped', message: `Already in ${stage?.name ?? stageKey}` };
+    }
+
+    // The RPC enforces guard rules; a blocked move comes back as the error message
+    const { error } = await supabase.rpc('change_batch_stage', {
+      batch_id: batch.id,
+      to_stage: stageKey,
+      note: note || undefined,
+    });
+
+    if (error) throw error;
+    return { status: 'success', message: `Moved to ${stage?.name ?? stageKey}` };
+  }
+
+  function handleAdvanceStage() {
+    bulkMutation.mutate({
+      title: 'Advance stage',
+      run: async (batch) => {
+        const [next] = pipeline.getTransitions(batch.current_stage);
+        if (!next) {
+          const current = pipeline.getStage(batch.current_stage);
+          if (pipeline.isTerminal(batch.current_stage)) {
+            return { status: 'skipped', message: `Already in ${current?.name ?? batch.current_stage}` };
+          }
+          throw new Error(`No next stage is configured after ${current?.name ?? batch.current_stage}`);
+        }
+        return changeStage(batch, next.nextStage.key);
+      },
+    });
+  }
+
+  function handleSetStage() {
+    const stage = pipeline.getStage(targetStage);
+    if (!stage) return;
+
+    setShowStageDialog(false);
+    bulkMutation.mutate({
+      title: `Move to ${stage.name}`,
+      run: (batch) => changeStage(batch, stage.key, stageNote.trim()),
+    });
+    setStageNote('');
+  }
+
+  function handleDelete() {
+    setShowDeleteDialog(false);
+    bulkMutation.mutate({
+      title: 'Move to trash',
+      run: async (batch) => {
+        // RLS filters out rows the user may not touch instead of raising, so an empty result means "not allowed"
+        const { data, error } = await supabase
+          .from('batches')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', batch.id)
+          .select('id');
+
+        if (error) throw error;
+        if (!data?.length) throw new Error("You don't have permission to delete this batch.");
+        return { status: 'success', message: 'Moved to trash' };
+      },
+    }, {
+      onSuccess: (results) =>
+        onDeleted(results.filter((result) => result.status === 'success').map((result) => result.batchId)),
+    });
+  }
+
+  function handleSchedulePackaging(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = packagingRunSchema.omit({ batch_id: true }).safeParse({
+      ...packagingForm,
+      quantity: packagingForm.quantity === '' ? null : packagingForm.quantity,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    const run = validation.data;
+    setShowPackagingDialog(false);
+    bulkMutation.mutate({
+      title: 'Schedule packaging',
+      run: async (batch) => {
+        if (pipeline.isTerminal(batch.current_stage)) {
+          return { status: 'skipped', message: 'Batch is already complete' };
+        }
+
+        const { error } = await supabase
+          .from('packaging_schedules')
+          .insert([{
+            batch_id: batch.id,
+            target_date: run.target_date,
+            format: run.format,
+            quantity: run.quantity,
+            notes: run.notes || null,
+            created_by: userId,
+          }]);
+
+        if (error) throw error;
+        return { status: 'success', message: `Scheduled for ${format(parseISO(run.target_date), 'PPP')}` };
+      },
+    });
+    setPackagingForm(emptyPackagingForm());
+  }
+
+  const isRunning = bulkMutation.isPending;
+  const counts = (bulkRun?.rows ?? []).reduce<Record<BulkRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { pending: 0, success: 0, skipped: 0, failed: 0 }
+  );
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b bg-muted/50">
+        <span className="text-sm font-medium mr-2">
+          {batches.length} {batches.length === 1 ? 'batch' : 'batches'} selected
+        </span>
+        {canEdit && (
+          <>
+            <Button variant="outline" size="sm" disabled={isRunning} onClick={handleAdvanceStage}>
+              <ArrowRight className="h-4 w-4 mr-2" />
+              Advance Stage
+            </Button>
+            <Button variant="outline" size="sm" disabled={isRunning} onClick={() => setShowStageDialog(true)}>
+              <Layers className="h-4 w-4 mr-2" />
+              Set Stage
+            </Button>
+          </>
+        )}
+        {canSchedulePackaging && (
+          <Button variant="outline" size="sm" disabled={isRunning} onClick={() => setShowPackagingDialog(true)}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Schedule Packaging
+          </Button>
+        )}
+        {canBlend && batches.length >= 2 && (
+          <Button variant="outline" size="sm" disabled={isRunning} onClick={() => setShowBlendDialog(true)}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Blend
+          </Button>
+        )}
+        <Button variant="outline" size="sm" disabled={isRunning} onClick={onExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+        {canDelete && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive"
+            disabled={isRunning}
+            onClick={() => setShowDeleteDialog(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="ml-auto" disabled={isRunning} onClick={onClearSelection}>
+          <X className="h-4 w-4 mr-2" />
+          Clear Selection
+        </Button>
+      </div>
+
+      {canBlend && (
+        <BlendDialog
+          open={showBlendDialog}
+          onOpenChange={setShowBlendDialog}
+          batches={batches}
+          organizationId={organizationId}
+          pipeline={pipeline}
+        />
+      )}
+
+      {/* Set Stage Dialog */}
+      <Dialog open={showStageDialog} onOpenChange={setShowStageDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Stage</DialogTitle>
+            <DialogDescription>
+              Move {batches.length} {batches.length === 1 ? 'batch' : 'batches'} to the same stage.
+              Stage rules still apply to each batch.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-stage">Stage</Label>
+              <Select value={targetStage} onValueChange={setTargetStage}>
+                <SelectTrigger id="bulk-stage">
+                  <SelectValue placeholder="Select a stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipeline.stages.map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-stage-note">Note (optional)</Label>
+              <Input
+                id="bulk-stage-note"
+                value={stageNote}
+                onChange={(e) => setStageNote(e.target.value)}
+                placeholder="Added to each batch's stage history"
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setShowStageDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSetStage} disabled={!targetStage}>
+              Move Batches
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Schedule Packaging Dialog */}
+      <Dialog open={showPackagingDialog} onOpenChange={setShowPackagingDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule Packaging</DialogTitle>
+            <DialogDescription>
+              Schedules one packaging run per selected batch with the same date and format.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSchedulePackaging} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-run-date">Target Date</Label>
+                <Input
+                  id="bulk-run-date"
+                  type="date"
+                  value={packagingForm.target_date}
+                  onChange={(e) => setPackagingForm({ ...packagingForm, target_date: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bulk-run-format">Format</Label>
+                <Select
+                  value={packagingForm.format}
+                  onValueChange={(value) => setPackagingForm({ ...packagingForm, format: value as PackagingFormat })}
+                >
+                  <SelectTrigger id="bulk-run-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PACKAGING_FORMATS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-run-quantity">Quantity per batch (units)</Label>
+              <Input
+                id="bulk-run-quantity"
+                type="number"
+                step="1"
+                value={packagingForm.quantity}
+                onChange={(e) => setPackagingForm({ ...packagingForm, quantity: e.target.value ? parseInt(e.target.value, 10) : '' })}
+                placeholder="Leave empty to fill in later"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-run-notes">Notes</Label>
+              <Textarea
+                id="bulk-run-notes"
+                value={packagingForm.notes}
+                onChange={(e) => setPackagingForm({ ...packagingForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowPackagingDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Schedule {batches.length} {batches.length === 1 ? 'Run' : 'Runs'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Move {batches.length} {batches.length === 1 ? 'batch' : 'batches'} to the trash?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {batches.slice(0, 5).map((batch) => batch.name).join(', ')}
+              {batches.length > 5 && ` and ${batches.length - 5} more`} will be hidden from the dashboard.
+              They can be restored from the trash for {trashRetentionDays} days before they are deleted permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Results */}
+      <Dialog open={Boolean(bulkRun)} onOpenChange={(open) => !open && !isRunning && setBulkRun(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{bulkRun?.title}</DialogTitle>
+            <DialogDescription>
+              {isRunning
+                ? `Working on ${bulkRun?.rows.length} batches...`
+                : [
+                    `${counts.success} succeeded`,
+                    counts.skipped > 0 && `${counts.skipped} skipped`,
+                    counts.failed > 0 && `${counts.failed} failed`,
+                  ].filter(Boolean).join(', ') + '.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {bulkRun?.rows.map((row) => (
+              <div key={row.batchId} className="flex items-start gap-3 p-3 bg-muted rounded-lg">
+                <div className="mt-0.5">{statusIcons[row.status]}</div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{row.batchName}</p>
+                  {row.message && (
+                    <p className={row.status === 'failed' ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                      {row.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => setBulkRun(null)} disabled={isRunning}>
+              {isRunning ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Working...
+                </>
+              ) : (
+                'Done'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
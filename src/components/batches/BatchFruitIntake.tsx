@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Apple } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useQuery } from '@tanstack/react-query';
+import { useVarieties } from '@/hooks/use-varieties';
+import { format, parseISO } from 'date-fns';
+import { formatWeight, getLotYield, summarizeYield, type FruitIntake } from '@/lib/intake';
+
+interface BatchFruitIntakeProps {
+  batchId: string;
+  organizationId: string;
+}
+
+export function BatchFruitIntake({ batchId, organizationId }: BatchFruitIntakeProps) {
+  const { getVariety } = useVarieties(organizationId);
+
+  // Keyed under the organization's lots so saving a lot on the intake page refreshes this too
+  const {
+    data: lots = [],
+    isLoading,
+  } = useQuery<FruitIntake[]>({
+    queryKey: ['fruit-intakes', organizationId, batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fruit_intakes')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('received_on', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const total = summarizeYield(lots, () => ({ key: 'all', label: 'All' }))[0];
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Fruit</h3>
+        {total && (
+          <span className="text-sm text-muted-foreground">
+            {formatWeight(total.weightKg)} · {total.juiceLiters.toFixed(1)} L
+            {total.yieldPerTonne !== null && ` · ${total.yieldPerTonne.toFixed(0)} L/t`}
+          </span>
+        )}
+      </div>
+      {lots.length === 0 ? (
+        <div className="p-6 text-center">
+          <Apple className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No fruit intake lots are linked to this batch. Link them on the <Link to="/intake" className="underline">Fruit Intake</Link> page.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {lots.map((lot) => {
+            const lotYield = getLotYield(lot);
+            return (
+              <div key={lot.id} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+                <div>
+                  <span className="font-medium">{getVariety(lot.variety_id)?.name ?? 'Unknown variety'}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      lot.orchard ? `${lot.supplier}, ${lot.orchard}` : lot.supplier,
+                      `received ${format(parseISO(lot.received_on), 'MMM d, yyyy')}`,
+                      lot.brix !== null ? `${lot.brix} °Bx` : null,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <span className="text-muted-foreground">
+                  {formatWeight(Number(lot.weight_kg))}
+                  {lot.juice_volume !== null && ` → ${Number(lot.juice_volume).toFixed(1)} L`}
+                  {lotYield !== null && (
+                    <span className="font-medium text-foreground">{` · ${lotYield.toFixed(0)} L/t`}</span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { GitMerge } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { useVessels } from '@/hooks/use-vessels';
+import { useBatchNames } from '@/hooks/use-batch-names';
+import {
+  buildAncestry,
+  getBlendsUsing,
+  getVarietyComposition,
+  type BlendComponent,
+  type LineageNode,
+} from '@/lib/blends';
+
+type BatchRow = Tables<'batches'>;
+
+interface BatchLineageProps {
+  batch: BatchRow;
+  organizationId: string;
+}
+
+export function BatchLineage({ batch, organizationId }: BatchLineageProps) {
+  const { getVessel } = useVessels(organizationId);
+
+  // Lineage can be several blends deep, so load the organization's components once and walk them here
+  const {
+    data: components = [],
+    isLoading: componentsLoading,
+  } = useQuery<BlendComponent[]>({
+    queryKey: ['blend-components', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_blend_components')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { batchNames } = useBatchNames(organizationId);
+
+  const ancestry = useMemo(() => buildAncestry(batch.id, components), [batch.id, components]);
+  const usedIn = useMemo(() => getBlendsUsing(batch.id, components), [batch.id, components]);
+  const composition = getVarietyComposition(batch);
+
+  const renderNode = (node: LineageNode) => {
+    const { component } = node;
+    // Purged sources keep their copied name but have nothing to link to
+    const exists = component.source_batch_id && batchNames.has(component.source_batch_id);
+    return (
+      <li key={component.id} className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div>
+            {exists ? (
+              <Link to={`/batches/${component.source_batch_id}`} className="font-medium hover:underline">
+                {batchNames.get(component.source_batch_id)}
+              </Link>
+            ) : (
+              <span className="font-medium">{component.source_name}</span>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {[
+                component.source_variety,
+                component.from_vessel_id ? `from ${getVessel(component.from_vessel_id)?.name ?? 'a deleted vessel'}` : null,
+              ].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <span className="text-muted-foreground">
+            <span className="font-medium text-foreground">{Number(component.percentage).toFixed(1)}%</span>
+            {' · '}{Number(component.volume).toFixed(1)} L
+          </span>
+        </div>
+        {node.sources.length > 0 && (
+          <ul className="space-y-3 border-l pl-4 ml-1">
+            {node.sources.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  if (componentsLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="font-semibold">Varieties</h3>
+        <div className="space-y-2">
+          {composition.map((share) => (
+            <div key={share.variety} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span>{share.variety}</span>
+                <span className="text-muted-foreground">{share.percentage.toFixed(1)}%</span>
+              </div>
+              <Progress value={share.percentage} className="h-2" />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Made From</h3>
+        {ancestry.length === 0 ? (
+          <div className="p-6 text-center">
+            <GitMerge className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground">
+              This batch was not blended from other batches.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {ancestry.map(renderNode)}
+          </ul>
+        )}
+      </div>
+
+      {usedIn.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-semibold">Used In</h3>
+          <div className="divide-y rounded-lg border">
+            {usedIn.map((component) => (
+              <div key={component.id} className="flex items-center justify-between gap-2 p-3 text-sm">
+                <Link to={`/batches/${component.batch_id}`} className="font-medium hover:underline">
+                  {batchNames.get(component.batch_id) ?? 'Deleted batch'}
+                </Link>
+                <span className="text-muted-foreground">
+                  {Number(component.volume).toFixed(1)} L · {Number(component.percentage).toFixed(1)}% of the blend
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Progress } from '@/components/ui/progress';
+import { formatGravity, formatPercent, type FermentationMetrics } from '@/lib/fermentation';
+
+interface BatchMetricsProps {
+  metrics: FermentationMetrics;
+}
+
+export function BatchMetrics({ metrics }: BatchMetricsProps) {
+  if (metrics.readingCount === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Log a specific gravity reading in the Fermentation tab to calculate ABV and progress.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Original Gravity</p>
+          <p className="font-medium">{formatGravity(metrics.originalGravity)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Current Gravity</p>
+          <p className="font-medium">{formatGravity(metrics.currentGravity)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Estimated ABV</p>
+          <p className="font-medium">{formatPercent(metrics.abv)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Attenuation</p>
+          <p className="font-medium">{formatPercent(metrics.attenuation, 0)}</p>
+        </div>
+      </div>
+
+      {metrics.progress !== null && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Progress to {formatGravity(metrics.targetGravity)}</span>
+            <span className="font-medium">{formatPercent(metrics.progress, 0)}</span>
+          </div>
+          <Progress value={metrics.progress} className="h-2" />
+        </div>
+      )}
+    </div>
+  );
+}
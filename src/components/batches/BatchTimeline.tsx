@@ -0,0 +1,212 @@
+import { useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowRightLeft, Beaker, Clock, Package, Wine } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { getStageColor, type StagePipeline } from '@/lib/stages';
+import {
+  buildTimeline,
+  formatDays,
+  getBatchAgeDays,
+  getDaysByStage,
+  getStagePeriods,
+  type StageHistoryEntry,
+  type TimelineEventKind,
+} from '@/lib/timeline';
+
+type BatchRow = Tables<'batches'>;
+type FermentationLog = Tables<'fermentation_logs'>;
+type TastingNote = Tables<'tasting_notes'>;
+type PackagingRun = Tables<'packaging_schedules'>;
+
+const eventIcons: Record<TimelineEventKind, typeof Wine> = {
+  stage: ArrowRightLeft,
+  reading: Beaker,
+  tasting: Wine,
+  packaging: Package,
+};
+
+interface BatchTimelineProps {
+  batch: BatchRow;
+  pipeline: StagePipeline;
+  userId?: string;
+}
+
+export function BatchTimeline({ batch, pipeline, userId }: BatchTimelineProps) {
+  const { getMemberName } = useOrganizationMembers(batch.organization_id);
+
+  // Query keys match the batch tabs so their cached data is shared
+  const {
+    data: history = [],
+    isLoading: historyLoading,
+  } = useQuery<StageHistoryEntry[]>({
+    queryKey: ['batch-stage-history', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_stage_history')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: logs = [],
+    isLoading: logsLoading,
+  } = useQuery<FermentationLog[]>({
+    queryKey: ['fermentation-logs', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: tastings = [],
+    isLoading: tastingsLoading,
+  } = useQuery<TastingNote[]>({
+    queryKey: ['tasting-notes', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: runs = [],
+    isLoading: runsLoading,
+  } = useQuery<PackagingRun[]>({
+    queryKey: ['packaging-schedules', 'batch', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('target_date', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const getStageName = (key: string) => pipeline.getStage(key)?.name ?? key;
+
+  const periods = useMemo(() => getStagePeriods(history), [history]);
+  const daysByStage = useMemo(() => getDaysByStage(periods), [periods]);
+  const events = useMemo(
+    () => buildTimeline({
+      history,
+      logs,
+      tastings,
+      runs,
+      getStageName: (key) => pipeline.getStage(key)?.name ?? key,
+    }),
+    [history, logs, tastings, runs, pipeline]
+  );
+
+  if (historyLoading || logsLoading || tastingsLoading || runsLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  const currentPeriod = periods[periods.length - 1];
+
+  return (
+    <div className="space-y-6">
+      {/* Age and days-in-stage summary */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground">Batch Age</p>
+          <p className="text-2xl font-bold">{formatDays(Math.max(0, getBatchAgeDays(batch.start_date)))}</p>
+          <p className="text-xs text-muted-foreground">since {format(new Date(batch.start_date), 'PPP')}</p>
+        </div>
+        <div className="p-4 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground">In Current Stage</p>
+          <p className="text-2xl font-bold">{currentPeriod ? formatDays(currentPeriod.days) : '—'}</p>
+          <p className="text-xs text-muted-foreground">
+            {currentPeriod ? `${getStageName(currentPeriod.stage)} since ${format(currentPeriod.enteredAt, 'PPP')}` : 'No stage history yet'}
+          </p>
+        </div>
+      </div>
+
+      {daysByStage.size > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Days in each stage</p>
+          <div className="flex flex-wrap gap-2">
+            {[...daysByStage.entries()].map(([stage, days]) => (
+              <div key={stage} className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm">
+                <Badge variant={getStageColor(pipeline.getStage(stage))}>{getStageName(stage)}</Badge>
+                <span className="text-muted-foreground">{formatDays(days)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Vertical timeline */}
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">Nothing has happened to this batch yet.</p>
+      ) : (
+        <ol className="relative border-l ml-3 space-y-6">
+          {events.map((event) => {
+            const Icon = eventIcons[event.kind];
+            return (
+              <li key={event.id} className="ml-6">
+                <span
+                  className={cn(
+                    'absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border bg-background',
+                    event.kind === 'stage' && 'bg-primary text-primary-foreground border-primary',
+                    event.upcoming && 'border-dashed'
+                  )}
+                >
+                  <Icon className="h-3 w-3" />
+                </span>
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className={cn('text-sm font-medium', event.upcoming && 'text-muted-foreground')}>
+                    {event.title}
+                  </p>
+                  {event.upcoming && <Badge variant="outline">Upcoming</Badge>}
+                </div>
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {event.kind === 'stage' ? format(event.at, 'PPP p') : format(event.at, 'PPP')}
+                  {event.userId && ` · by ${event.userId === userId ? 'you' : getMemberName(event.userId)}`}
+                </p>
+                {event.description && (
+                  <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">{event.description}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
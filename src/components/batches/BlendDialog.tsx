@@ -0,0 +1,390 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useVessels } from '@/hooks/use-vessels';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import type { StagePipeline } from '@/lib/stages';
+import { blendSchema, formatVarietyComposition, getVarietyComposition, mixVarietyCompositions } from '@/lib/blends';
+import { getSuitableVessels, getVesselTypeLabel, getVolumeOutsideVessels } from '@/lib/vessels';
+
+type BatchRow = Tables<'batches'>;
+
+// Select values can't be empty strings, so volume outside any vessel gets its own key
+const OUTSIDE = 'outside';
+
+type ComponentState = {
+  batchId: string;
+  /** Empty until picked, which means the place holding most of the batch */
+  placeId: string;
+  volume: number | '';
+};
+
+interface BlendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Source batches, one component each */
+  batches: BatchRow[];
+  organizationId: string;
+  pipeline: StagePipeline;
+}
+
+const toVesselId = (value: string) => (value === OUTSIDE ? null : value);
+
+export function BlendDialog({
+  open,
+  onOpenChange,
+  batches,
+  organizationId,
+  pipeline,
+}: BlendDialogProps) {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { vessels, contents, getVessel, getBatchContents } = useVessels(organizationId);
+
+  const [name, setName] = useState('');
+  const [blendDate, setBlendDate] = useState('');
+  const [stage, setStage] = useState('');
+  const [targetVesselId, setTargetVesselId] = useState('');
+  const [components, setComponents] = useState<ComponentState[]>([]);
+  const [note, setNote] = useState('');
+
+  // Where each source is now: its vessels, plus any volume not in a vessel
+  const placesByBatch = useMemo(() => new Map(batches.map((batch) => {
+    const batchContents = getBatchContents(batch.id);
+    const volumeOutside = getVolumeOutsideVessels(batch, batchContents);
+    const held = batchContents
+      .map((content) => ({
+        value: content.vessel_id ?? OUTSIDE,
+        label: getVessel(content.vessel_id)?.name ?? 'Unknown vessel',
+        volume: Number(content.volume),
+      }))
+      .sort((a, b) => b.volume - a.volume);
+    return [batch.id, volumeOutside > 0 ? [...held, { value: OUTSIDE, label: 'Not in a vessel', volume: volumeOutside }] : held];
+  })), [batches, getBatchContents, getVessel]);
+
+  useEffect(() => {
+    if (!open) return;
+    const [first] = batches;
+    setName('');
+    setBlendDate(format(new Date(), 'yyyy-MM-dd'));
+    // Blends usually carry on where their sources are
+    setStage(first && !pipeline.isTerminal(first.current_stage) ? first.current_stage : pipeline.stages[0]?.key ?? '');
+    setTargetVesselId('');
+    setComponents(batches.map((batch) => ({ batchId: batch.id, placeId: '', volume: '' })));
+    setNote('');
+  }, [open, batches, pipeline]);
+
+  function updateComponent(batchId: string, update: Partial<ComponentState>) {
+    setComponents((current) => current.map((component) => (component.batchId === batchId ? { ...component, ...update } : component)));
+  }
+
+  const getPlaceId = (component: ComponentState) =>
+    component.placeId || (placesByBatch.get(component.batchId)?.[0]?.value ?? OUTSIDE);
+
+  const getAvailable = (component: ComponentState) =>
+    placesByBatch.get(component.batchId)?.find((place) => place.value === getPlaceId(component))?.volume ?? 0;
+
+  const total = components.reduce((sum, component) => sum + (component.volume === '' ? 0 : component.volume), 0);
+
+  const composition = useMemo(() => mixVarietyCompositions(
+    components
+      .filter((component) => component.volume !== '' && component.volume > 0)
+      .map((component) => {
+        const batch = batches.find((item) => item.id === component.batchId);
+        return {
+          composition: batch ? getVarietyComposition(batch) : [],
+          volume: Number(component.volume),
+        };
+      })
+  ), [components, batches]);
+
+  // Vessels the sources are drained from count as empty, so the blend can go back into one
+  const drainedVesselIds = components
+    .filter((component) => component.volume !== '' && component.volume >= getAvailable(component))
+    .map(getPlaceId)
+    .filter((placeId) => placeId !== OUTSIDE);
+  const suitableVessels = getSuitableVessels(
+    vessels,
+    contents.filter((content) => !drainedVesselIds.includes(content.vessel_id)),
+    total > 0 ? total : null
+  );
+  // Falls back to the suggestion when the picked vessel no longer fits the volume
+  const blendVesselId =
+    targetVesselId === 'none' || suitableVessels.some((vessel) => vessel.id === targetVesselId)
+      ? targetVesselId
+      : suitableVessels[0]?.id ?? 'none';
+
+  const blendMutation = useMutation<string, Error, {
+    name: string;
+    blend_date: string;
+    stage: string;
+    target_vessel_id: string | null;
+    components: { batch_id: string; vessel_id: string | null; volume: number }[];
+    note: string;
+  }>({
+    mutationFn: async (payload) => {
+      // The RPC draws every source and creates the blend in one transaction
+      const { data, error } = await supabase.rpc('blend_batches', {
+        org_id: organizationId,
+        blend_name: payload.name,
+        blend_date: payload.blend_date,
+        stage: payload.stage,
+        components: payload.components,
+        target_vessel_id: payload.target_vessel_id ?? undefined,
+        note: payload.note || undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (blendId, payload) => {
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch'] });
+      queryClient.invalidateQueries({ queryKey: ['batch-names', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch-transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['batch-volume-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['blend-components', organizationId] });
+      onOpenChange(false);
+      toast({
+        title: 'Blend created',
+        description: `${payload.name} was made from ${payload.components.length} batches.`,
+      });
+      navigate(`/batches/${blendId}`);
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error creating blend',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = blendSchema.safeParse({
+      name,
+      blend_date: blendDate,
+      stage,
+      target_vessel_id: blendVesselId === 'none' ? null : blendVesselId,
+      components: components.map((component) => ({
+        batch_id: component.batchId,
+        vessel_id: toVesselId(getPlaceId(component)),
+        volume: component.volume === '' ? undefined : component.volume,
+      })),
+      note,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    const overdrawn = components.find((component) => Number(component.volume) > getAvailable(component));
+    if (overdrawn) {
+      const batch = batches.find((item) => item.id === overdrawn.batchId);
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: `Only ${getAvailable(overdrawn).toFixed(1)} L of ${batch?.name ?? 'this batch'} is available there.`,
+      });
+      return;
+    }
+
+    blendMutation.mutate({
+      name: validation.data.name,
+      blend_date: validation.data.blend_date,
+      stage: validation.data.stage,
+      target_vessel_id: validation.data.target_vessel_id,
+      components: validation.data.components.map((component) => ({
+        batch_id: component.batch_id,
+        vessel_id: component.vessel_id,
+        volume: component.volume,
+      })),
+      note: validation.data.note,
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Blend Batches</DialogTitle>
+          <DialogDescription>
+            Draw volume from each batch into a new one. The sources keep whatever is left.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Components</Label>
+            <div className="divide-y rounded-lg border">
+              {components.map((component) => {
+                const batch = batches.find((item) => item.id === component.batchId);
+                const places = placesByBatch.get(component.batchId) ?? [];
+                const available = getAvailable(component);
+                const share = total > 0 && component.volume !== '' ? (component.volume / total) * 100 : null;
+                return (
+                  <div key={component.batchId} className="p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <div>
+                        <p className="font-medium">{batch?.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {batch ? formatVarietyComposition(getVarietyComposition(batch)) : null}
+                        </p>
+                      </div>
+                      {share !== null && <span className="font-medium">{share.toFixed(1)}%</span>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={getPlaceId(component)}
+                        onValueChange={(value) => updateComponent(component.batchId, { placeId: value })}
+                        disabled={places.length === 0}
+                      >
+                        <SelectTrigger className="flex-1" aria-label={`Where to draw ${batch?.name ?? 'the batch'} from`}>
+                          <SelectValue placeholder="No volume left" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {places.map((place) => (
+                            <SelectItem key={place.value} value={place.value}>
+                              {place.label} ({place.volume.toFixed(1)} L)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        className="w-28"
+                        aria-label={`Liters of ${batch?.name ?? 'the batch'}`}
+                        placeholder="Liters"
+                        value={component.volume}
+                        onChange={(e) => updateComponent(component.batchId, { volume: e.target.value ? parseFloat(e.target.value) : '' })}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={available <= 0}
+                        onClick={() => updateComponent(component.batchId, { volume: available })}
+                      >
+                        All
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {composition.length > 0 ? formatVarietyComposition(composition) : 'Enter volumes to see the blend'}
+              </span>
+              <span className="font-medium">{total.toFixed(1)} L</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="blend-name">Blend Name</Label>
+              <Input
+                id="blend-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., House Blend 2025"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blend-date">Date</Label>
+              <Input
+                id="blend-date"
+                type="date"
+                value={blendDate}
+                onChange={(e) => setBlendDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blend-stage">Stage</Label>
+              <Select value={stage} onValueChange={setStage}>
+                <SelectTrigger id="blend-stage">
+                  <SelectValue placeholder="Select a stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipeline.stages.map((item) => (
+                    <SelectItem key={item.key} value={item.key}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {vessels.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="blend-vessel">Vessel</Label>
+              <Select value={blendVesselId} onValueChange={setTargetVesselId}>
+                <SelectTrigger id="blend-vessel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No vessel</SelectItem>
+                  {suitableVessels.map((vessel, index) => (
+                    <SelectItem key={vessel.id} value={vessel.id}>
+                      {vessel.name} · {getVesselTypeLabel(vessel.vessel_type)} · {Number(vessel.capacity).toFixed(1)} L
+                      {index === 0 && ' (best fit)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {suitableVessels.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No empty vessel can hold this volume.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="blend-note">Note (optional)</Label>
+            <Textarea
+              id="blend-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Added to each source's transfer history"
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={blendMutation.isPending}>
+              {blendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Blend
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
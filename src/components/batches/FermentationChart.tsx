@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+
+type BatchRow = Tables<'batches'>;
+type FermentationLog = Tables<'fermentation_logs'>;
+
+type Metric = 'specific_gravity' | 'temperature' | 'ph';
+
+const metrics: Record<Metric, { label: string; unit: string; digits: number }> = {
+  specific_gravity: { label: 'Gravity', unit: '', digits: 3 },
+  temperature: { label: 'Temperature', unit: ' °C', digits: 1 },
+  ph: { label: 'pH', unit: '', digits: 2 },
+};
+
+const MAX_SERIES = 5;
+
+const normalizeVariety = (variety: string) => variety.trim().toLowerCase();
+
+interface FermentationChartProps {
+  batch: BatchRow;
+  batches?: BatchRow[];
+}
+
+export function FermentationChart({ batch, batches = [] }: FermentationChartProps) {
+  const [metric, setMetric] = useState<Metric>('specific_gravity');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const sameVarietyBatches = useMemo(
+    () => batches.filter((other) =>
+      other.id !== batch.id && normalizeVariety(other.variety) === normalizeVariety(batch.variety)
+    ),
+    [batches, batch.id, batch.variety]
+  );
+
+  const seriesBatches = useMemo(
+    () => [batch, ...sameVarietyBatches.filter((other) => compareIds.includes(other.id))],
+    [batch, sameVarietyBatches, compareIds]
+  );
+  const seriesIds = seriesBatches.map((series) => series.id);
+
+  const {
+    data: logs = [],
+    isLoading,
+  } = useQuery<FermentationLog[]>({
+    // Shares the cache entry used by the logs table when only this batch is plotted
+    queryKey: seriesIds.length === 1 ? ['fermentation-logs', batch.id] : ['fermentation-logs', batch.id, 'compare', seriesIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .select('*')
+        .in('batch_id', seriesIds)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Overlaid batches started on different dates, so align them by days since start
+  const alignByDay = seriesBatches.length > 1;
+
+  const chartConfig = useMemo<ChartConfig>(
+    () => Object.fromEntries(
+      seriesBatches.map((series, index) => [
+        `series${index}`,
+        { label: series.name, color: `hsl(var(--chart-${(index % MAX_SERIES) + 1}))` },
+      ])
+    ),
+    [seriesBatches]
+  );
+
+  const chartData = useMemo(() => {
+    const points = new Map<number, Record<string, number>>();
+
+    seriesBatches.forEach((series, index) => {
+      logs
+        .filter((log) => log.batch_id === series.id && log[metric] !== null)
+        .forEach((log) => {
+          const recordedAt = new Date(log.recorded_at);
+          const x = alignByDay
+            ? differenceInCalendarDays(recordedAt, new Date(series.start_date))
+            : recordedAt.getTime();
+          const point = points.get(x) ?? { x };
+          // Logs are ordered newest first, so keep the latest reading for the day
+          if (point[`series${index}`] === undefined) {
+            point[`series${index}`] = Number(log[metric]);
+          }
+          points.set(x, point);
+        });
+    });
+
+    return [...points.values()].sort((a, b) => a.x - b.x);
+  }, [logs, seriesBatches, metric, alignByDay]);
+
+  const { unit, digits } = metrics[metric];
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h4 className="font-semibold">Fermentation Curve</h4>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as Metric)}
+        >
+          {(Object.keys(metrics) as Metric[]).map((key) => (
+            <ToggleGroupItem key={key} value={key}>
+              {metrics[key].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : chartData.length === 0 ? (
+        <div className="p-6 text-center">
+          <LineChartIcon className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No {metrics[metric].label.toLowerCase()} readings to plot yet.
+          </p>
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <LineChart data={chartData} margin={{ left: 4, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => (alignByDay ? `Day ${value}` : format(new Date(value), 'MMM d'))}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value: number) => value.toFixed(digits)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const x = payload?.[0]?.payload?.x as number | undefined;
+                    if (x === undefined) return null;
+                    return alignByDay ? `Day ${x}` : format(new Date(x), 'PPP');
+                  }}
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">{chartConfig[name as string]?.label}</span>
+                      <span className="font-mono font-medium">{Number(value).toFixed(digits)}{unit}</span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            {seriesBatches.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+            {seriesBatches.map((series, index) => (
+              <Line
+                key={series.id}
+                dataKey={`series${index}`}
+                type="monotone"
+                stroke={`var(--color-series${index})`}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {sameVarietyBatches.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Compare with other {batch.variety} batches</p>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {sameVarietyBatches.map((other) => {
+              const checked = compareIds.includes(other.id);
+              return (
+                <div key={other.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`compare-${other.id}`}
+                    checked={checked}
+                    disabled={!checked && seriesBatches.length >= MAX_SERIES}
+                    onCheckedChange={(value) =>
+                      setCompareIds((ids) => (value ? [...ids, other.id] : ids.filter((id) => id !== other.id)))
+                    }
+                  />
+                  <Label htmlFor={`compare-${other.id}`} className="font-normal cursor-pointer truncate">
+                    {other.name}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
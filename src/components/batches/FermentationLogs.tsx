@@ -0,0 +1,388 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, Edit, Trash2, Loader2, Thermometer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { fermentationLogSchema } from '@/lib/fermentation';
+
+type FermentationLog = Tables<'fermentation_logs'>;
+
+type LogFormState = {
+  recorded_at: string;
+  temperature: number | '';
+  specific_gravity: number | '';
+  ph: number | '';
+  notes: string;
+};
+
+const emptyForm = (): LogFormState => ({
+  recorded_at: new Date().toISOString().split('T')[0],
+  temperature: '',
+  specific_gravity: '',
+  ph: '',
+  notes: '',
+});
+
+const toNumberOrEmpty = (value: string): number | '' => (value ? parseFloat(value) : '');
+
+interface FermentationLogsProps {
+  batchId: string;
+  organizationId: string;
+  userId?: string;
+  readOnly?: boolean;
+}
+
+export function FermentationLogs({ batchId, organizationId, userId, readOnly = false }: FermentationLogsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { getMemberName } = useOrganizationMembers(organizationId);
+
+  const [formData, setFormData] = useState<LogFormState>(emptyForm);
+  const [editingLogId, setEditingLogId] = useState<string | null>(null);
+
+  const {
+    data: logs = [],
+    isLoading,
+  } = useQuery<FermentationLog[]>({
+    queryKey: ['fermentation-logs', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  function resetForm() {
+    setFormData(emptyForm());
+    setEditingLogId(null);
+  }
+
+  const createLogMutation = useMutation<FermentationLog, Error, TablesInsert<'fermentation_logs'>>({
+    mutationFn: async (payload) => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .insert([payload])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as FermentationLog;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fermentation-logs', batchId] });
+      queryClient.invalidateQueries({ queryKey: ['fermentation-gravity'] });
+      resetForm();
+      toast({
+        title: 'Reading added!',
+        description: 'The fermentation reading has been logged.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error adding reading',
+        description: error.message,
+      });
+    },
+  });
+
+  const updateLogMutation = useMutation<FermentationLog, Error, { logId: string; updates: TablesUpdate<'fermentation_logs'> }>({
+    mutationFn: async ({ logId, updates }) => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .update(updates)
+        .eq('id', logId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as FermentationLog;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fermentation-logs', batchId] });
+      queryClient.invalidateQueries({ queryKey: ['fermentation-gravity'] });
+      resetForm();
+      toast({
+        title: 'Reading updated!',
+        description: 'Changes have been saved.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating reading',
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteLogMutation = useMutation<string, Error, string>({
+    mutationFn: async (logId) => {
+      const { error } = await supabase
+        .from('fermentation_logs')
+        .delete()
+        .eq('id', logId);
+
+      if (error) throw error;
+      return logId;
+    },
+    onSuccess: (logId) => {
+      queryClient.setQueryData<FermentationLog[]>(['fermentation-logs', batchId], (old) =>
+        old ? old.filter((log) => log.id !== logId) : []
+      );
+      queryClient.invalidateQueries({ queryKey: ['fermentation-logs', batchId] });
+      queryClient.invalidateQueries({ queryKey: ['fermentation-gravity'] });
+      if (editingLogId === logId) resetForm();
+      toast({
+        title: 'Reading deleted',
+        description: 'The fermentation reading has been removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting reading',
+        description: error.message,
+      });
+    },
+  });
+
+  const isSaving = createLogMutation.isPending || updateLogMutation.isPending;
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = fermentationLogSchema.safeParse({
+      recorded_at: formData.recorded_at,
+      temperature: formData.temperature === '' ? null : formData.temperature,
+      specific_gravity: formData.specific_gravity === '' ? null : formData.specific_gravity,
+      ph: formData.ph === '' ? null : formData.ph,
+      notes: formData.notes,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    const values = {
+      recorded_at: validation.data.recorded_at,
+      temperature: validation.data.temperature,
+      specific_gravity: validation.data.specific_gravity,
+      ph: validation.data.ph,
+      notes: validation.data.notes || null,
+    };
+
+    if (editingLogId) {
+      updateLogMutation.mutate({ logId: editingLogId, updates: values });
+    } else {
+      createLogMutation.mutate({ ...values, batch_id: batchId, created_by: userId ?? null });
+    }
+  }
+
+  function startEditing(log: FermentationLog) {
+    setEditingLogId(log.id);
+    setFormData({
+      recorded_at: log.recorded_at,
+      temperature: log.temperature ?? '',
+      specific_gravity: log.specific_gravity ?? '',
+      ph: log.ph ?? '',
+      notes: log.notes ?? '',
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold">{editingLogId ? 'Edit Reading' : 'Add Reading'}</h4>
+            {editingLogId && (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="log-recorded-at">Date</Label>
+              <Input
+                id="log-recorded-at"
+                type="date"
+                value={formData.recorded_at}
+                onChange={(e) => setFormData({ ...formData, recorded_at: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="log-gravity">Specific Gravity</Label>
+              <Input
+                id="log-gravity"
+                type="number"
+                step="0.001"
+                value={formData.specific_gravity}
+                onChange={(e) => setFormData({ ...formData, specific_gravity: toNumberOrEmpty(e.target.value) })}
+                placeholder="e.g., 1.050"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="log-temperature">Temperature (°C)</Label>
+              <Input
+                id="log-temperature"
+                type="number"
+                step="0.1"
+                value={formData.temperature}
+                onChange={(e) => setFormData({ ...formData, temperature: toNumberOrEmpty(e.target.value) })}
+                placeholder="e.g., 16"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="log-ph">pH</Label>
+              <Input
+                id="log-ph"
+                type="number"
+                step="0.01"
+                value={formData.ph}
+                onChange={(e) => setFormData({ ...formData, ph: toNumberOrEmpty(e.target.value) })}
+                placeholder="e.g., 3.5"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="log-notes">Notes</Label>
+            <Textarea
+              id="log-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g., Added yeast nutrient"
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" disabled={isSaving} className="w-full">
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Saving...
+              </>
+            ) : editingLogId ? (
+              <>
+                <Edit className="h-4 w-4 mr-2" />
+                Save Reading
+              </>
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Reading
+              </>
+            )}
+          </Button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : logs.length === 0 ? (
+        <div className="p-6 text-center">
+          <Thermometer className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No readings yet. Log gravity, temperature and pH to follow fermentation.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="border-b bg-muted/50">
+              <tr>
+                <th className="text-left p-3 font-medium">Date</th>
+                <th className="text-left p-3 font-medium">SG</th>
+                <th className="text-left p-3 font-medium">Temp</th>
+                <th className="text-left p-3 font-medium">pH</th>
+                <th className="text-left p-3 font-medium">Notes</th>
+                <th className="text-left p-3 font-medium">By</th>
+                <th className="p-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <tr key={log.id} className="border-b last:border-0 hover:bg-muted/30 transition-colors">
+                  <td className="p-3 whitespace-nowrap">{format(new Date(log.recorded_at), 'MMM d, yyyy')}</td>
+                  <td className="p-3">{log.specific_gravity !== null ? Number(log.specific_gravity).toFixed(3) : '—'}</td>
+                  <td className="p-3">{log.temperature !== null ? `${Number(log.temperature).toFixed(1)} °C` : '—'}</td>
+                  <td className="p-3">{log.ph !== null ? Number(log.ph).toFixed(2) : '—'}</td>
+                  <td className="p-3 text-muted-foreground max-w-[160px] truncate">{log.notes || '—'}</td>
+                  <td className="p-3 text-muted-foreground whitespace-nowrap">
+                    {log.created_by === userId ? 'You' : getMemberName(log.created_by) ?? '—'}
+                  </td>
+                  <td className="p-3">
+                    {!readOnly && (
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(log)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this reading?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The reading from {format(new Date(log.recorded_at), 'PPP')} will be permanently removed.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                onClick={() => deleteLogMutation.mutate(log.id)}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { CalendarDays, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format, parseISO } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import { getPackagingFormat } from '@/lib/packaging';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+
+type PackagingRun = Tables<'packaging_schedules'>;
+
+interface PackagingRunsProps {
+  batchId: string;
+  organizationId: string;
+}
+
+export function PackagingRuns({ batchId, organizationId }: PackagingRunsProps) {
+  const navigate = useNavigate();
+  const { getMemberName } = useOrganizationMembers(organizationId);
+
+  const {
+    data: runs = [],
+    isLoading,
+  } = useQuery<PackagingRun[]>({
+    queryKey: ['packaging-schedules', 'batch', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('target_date', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {runs.length === 0 ? (
+        <div className="p-6 text-center">
+          <Package className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No packaging runs scheduled for this batch.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {runs.map((run) => {
+            const runFormat = getPackagingFormat(run.format);
+            return (
+              <div key={run.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className={cn('rounded px-2 py-0.5 text-xs font-medium', runFormat.className)}>
+                    {runFormat.label}
+                  </span>
+                  <div>
+                    <p className="font-medium">{format(parseISO(run.target_date), 'PPP')}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        run.quantity !== null ? `${run.quantity} units` : null,
+                        run.created_by ? `Scheduled by ${getMemberName(run.created_by)}` : null,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                </div>
+                {run.completed_at ? (
+                  <Badge variant="secondary">Completed</Badge>
+                ) : (
+                  <Badge variant="outline">Scheduled</Badge>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" className="w-full" onClick={() => navigate('/schedule')}>
+        <CalendarDays className="h-4 w-4 mr-2" />
+        Open Packaging Schedule
+      </Button>
+    </div>
+  );
+}
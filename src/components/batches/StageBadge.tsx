@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { getStageColor, type StagePipeline } from '@/lib/stages';
+
+interface StageBadgeProps {
+  stageKey: string;
+  pipeline: StagePipeline;
+}
+
+export function StageBadge({ stageKey, pipeline }: StageBadgeProps) {
+  const stage = pipeline.getStage(stageKey);
+
+  return (
+    <Badge variant={getStageColor(stage)}>
+      {stage?.name ?? stageKey}
+    </Badge>
+  );
+}
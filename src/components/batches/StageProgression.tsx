@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AlertTriangle, CheckCircle2, Clock, Info, Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import type { ProductionStage } from '@/lib/stages';
+import { formatDays, getDaysInCurrentStage, type StageHistoryEntry } from '@/lib/timeline';
+
+type BatchRow = Tables<'batches'>;
+
+type BlockedMove = {
+  stage: ProductionStage;
+  violations: string[];
+};
+
+interface StageProgressionProps {
+  batch: BatchRow;
+  organizationId: string;
+  readOnly?: boolean;
+}
+
+export function StageProgression({ batch, organizationId, readOnly = false }: StageProgressionProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [note, setNote] = useState('');
+  const [blockedMove, setBlockedMove] = useState<BlockedMove | null>(null);
+  const [pendingMove, setPendingMove] = useState<ProductionStage | null>(null);
+
+  const { pipeline, isLoading } = useProductionStages(organizationId);
+
+  const {
+    data: history = [],
+  } = useQuery<StageHistoryEntry[]>({
+    queryKey: ['batch-stage-history', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_stage_history')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const checkGuardsMutation = useMutation<BlockedMove, Error, ProductionStage>({
+    mutationFn: async (stage) => {
+      const { data, error } = await supabase.rpc('get_stage_guard_violations', {
+        batch_id: batch.id,
+        to_stage: stage.key,
+      });
+
+      if (error) throw error;
+      return { stage, violations: (data ?? []).map((violation) => violation.message) };
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error checking stage rules',
+        description: error.message,
+      });
+    },
+  });
+
+  const updateStageMutation = useMutation<{ batchId: string; newStage: string }, Error & { code?: string }, {
+    batchId: string;
+    newStage: string;
+    note?: string;
+  }>({
+    mutationFn: async ({ batchId, newStage, note }) => {
+      // The RPC enforces guard rules and records the move and note in batch_stage_history
+      const { error } = await supabase.rpc('change_batch_stage', {
+        batch_id: batchId,
+        to_stage: newStage,
+        note: note || undefined,
+      });
+
+      if (error) throw error;
+      return { batchId, newStage };
+    },
+    onSuccess: ({ batchId, newStage }) => {
+      setNote('');
+      setBlockedMove(null);
+      queryClient.invalidateQueries({ queryKey: ['batch-stage-history', batchId] });
+      // Reaching a terminal stage takes the batch out of its vessels
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+      queryClient.setQueryData<BatchRow[]>(['batches', organizationId], (old) =>
+        old
+          ? old.map((item) =>
+              item.id === batchId
+                ? { ...item, current_stage: newStage }
+                : item
+            )
+          : []
+      );
+      queryClient.setQueryData<BatchRow | null>(['batch', batchId], (old) =>
+        old ? { ...old, current_stage: newStage } : old
+      );
+      toast({
+        title: 'Stage updated!',
+        description: `Batch moved to ${pipeline.getStage(newStage)?.name ?? newStage}.`,
+      });
+    },
+    onError: (error, variables) => {
+      // A rule can start failing between the check and the move; show it with the others
+      const stage = pipeline.getStage(variables.newStage);
+      if (error.code === '23514' && stage) {
+        setBlockedMove({ stage, violations: [error.message] });
+        return;
+      }
+
+      toast({
+        variant: 'destructive',
+        title: 'Error updating stage',
+        description: error.message,
+      });
+    },
+    onSettled: () => setPendingMove(null),
+  });
+
+  function moveTo(stage: ProductionStage) {
+    updateStageMutation.mutate({
+      batchId: batch.id,
+      newStage: stage.key,
+      note: note.trim(),
+    });
+  }
+
+  // Rollbacks and off-pipeline jumps ask for confirmation; configured forward moves go straight through
+  function requestMove(stage: ProductionStage, needsConfirmation: boolean) {
+    setBlockedMove(null);
+    checkGuardsMutation.mutate(stage, {
+      onSuccess: (result) => {
+        if (result.violations.length > 0) {
+          setBlockedMove(result);
+        } else if (needsConfirmation || pipeline.isRollback(batch.current_stage, stage.key)) {
+          setPendingMove(stage);
+        } else {
+          moveTo(stage);
+        }
+      },
+    });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const currentStage = pipeline.getStage(batch.current_stage);
+  const transitions = pipeline.getTransitions(batch.current_stage);
+  const daysInStage = getDaysInCurrentStage(history);
+  const otherStages = pipeline.stages.filter((stage) => stage.key !== batch.current_stage);
+  const isBusy = checkGuardsMutation.isPending || updateStageMutation.isPending;
+
+  // Undo only applies while the batch is still where the last move put it
+  const lastEntry = history[history.length - 1];
+  const undoStage = lastEntry?.from_stage && lastEntry.to_stage === batch.current_stage
+    ? pipeline.getStage(lastEntry.from_stage)
+    : undefined;
+
+  const isMovingTo = (stageKey: string) =>
+    (checkGuardsMutation.isPending && checkGuardsMutation.variables?.key === stageKey) ||
+    (updateStageMutation.isPending && updateStageMutation.variables?.newStage === stageKey);
+
+  return (
+    <div className="space-y-3">
+      {daysInStage !== null && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          In {currentStage?.name ?? batch.current_stage} for {formatDays(daysInStage)}
+        </p>
+      )}
+
+      {transitions.length === 0 && (
+        currentStage?.is_terminal ? (
+          <div className="flex items-center gap-2 p-4 bg-green-50 dark:bg-green-950 rounded-lg border border-green-200 dark:border-green-800">
+            <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
+            <p className="text-sm font-medium text-green-900 dark:text-green-100">
+              Batch is complete! This batch has reached {currentStage.name}.
+            </p>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 p-4 bg-muted rounded-lg">
+            <Info className="h-5 w-5 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No next stage is configured for {currentStage?.name ?? batch.current_stage}. An admin can add one in Settings.
+            </p>
+          </div>
+        )
+      )}
+
+      {!readOnly && (
+        <>
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for this stage change (optional)"
+            maxLength={500}
+          />
+
+          {transitions.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              {transitions.map((transition) => (
+                <Button
+                  key={transition.id}
+                  onClick={() => requestMove(transition.nextStage, false)}
+                  disabled={isBusy}
+                  variant={transitions.length > 1 ? 'outline' : 'default'}
+                  className="flex-1"
+                >
+                  {isMovingTo(transition.nextStage.key) ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Updating...
+                    </>
+                  ) : (
+                    `${transition.label} →`
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            {undoStage && (
+              <Button
+                variant="ghost"
+                className="sm:flex-1"
+                disabled={isBusy}
+                onClick={() => requestMove(undoStage, true)}
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo: back to {undoStage.name}
+              </Button>
+            )}
+            {otherStages.length > 0 && (
+              <Select
+                value=""
+                disabled={isBusy}
+                onValueChange={(key) => {
+                  const stage = pipeline.getStage(key);
+                  if (stage) requestMove(stage, true);
+                }}
+              >
+                <SelectTrigger className="sm:flex-1">
+                  <SelectValue placeholder="Move to another stage…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherStages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Guard rule violations */}
+      {blockedMove && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Can't move to {blockedMove.stage.name} yet</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {blockedMove.violations.map((violation) => (
+                <li key={violation}>{violation}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Confirm rollbacks and off-pipeline moves */}
+      <AlertDialog open={Boolean(pendingMove)} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingMove && pipeline.isRollback(batch.current_stage, pendingMove.key)
+                ? `Move ${batch.name} back to ${pendingMove.name}?`
+                : `Move ${batch.name} to ${pendingMove?.name}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The batch leaves {currentStage?.name ?? batch.current_stage} and the move is recorded in its history.
+              {note.trim() && <> Note: “{note.trim()}”</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={updateStageMutation.isPending}
+              onClick={() => pendingMove && moveTo(pendingMove)}
+            >
+              {updateStageMutation.isPending ? 'Moving...' : `Move to ${pendingMove?.name}`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, Loader2, Wine, X, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { SENSORY_ATTRIBUTES, formatScore, groupTastingSessions, type SensoryAttribute } from '@/lib/tasting';
+import { TastingRadarChart } from '@/components/batches/TastingRadarChart';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+
+type BatchRow = Tables<'batches'>;
+type TastingNote = Tables<'tasting_notes'>;
+
+type TastingFormState = Record<SensoryAttribute, number | null> & {
+  recorded_at: string;
+  aroma: string;
+  flavor: string;
+  finish: string;
+  notes: string;
+};
+
+const scoreSchema = z.number().int().min(1, "Scores must be between 1 and 5").max(5, "Scores must be between 1 and 5").nullable();
+const descriptorSchema = z.string().trim().max(200, "Descriptors must be less than 200 characters");
+
+// Zod validation schema
+const tastingNoteSchema = z.object({
+  recorded_at: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  sweetness: scoreSchema,
+  acidity: scoreSchema,
+  body: scoreSchema,
+  aroma: descriptorSchema,
+  flavor: descriptorSchema,
+  finish: descriptorSchema,
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+});
+
+const emptyForm = (): TastingFormState => ({
+  recorded_at: new Date().toISOString().split('T')[0],
+  sweetness: null,
+  acidity: null,
+  body: null,
+  aroma: '',
+  flavor: '',
+  finish: '',
+  notes: '',
+});
+
+// Postgres unique_violation, raised when a member scores the same session twice
+const UNIQUE_VIOLATION = '23505';
+
+interface TastingNotesProps {
+  batch: BatchRow;
+  batches?: BatchRow[];
+  userId?: string;
+  readOnly?: boolean;
+}
+
+export function TastingNotes({ batch, batches, userId, readOnly = false }: TastingNotesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { getMemberName } = useOrganizationMembers(batch.organization_id);
+
+  const [formData, setFormData] = useState<TastingFormState>(emptyForm);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+
+  const {
+    data: notes = [],
+    isLoading,
+  } = useQuery<TastingNote[]>({
+    queryKey: ['tasting-notes', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const sessions = useMemo(() => groupTastingSessions(notes), [notes]);
+
+  function resetForm() {
+    setFormData(emptyForm());
+    setEditingNoteId(null);
+  }
+
+  const createNoteMutation = useMutation<TastingNote, Error & { code?: string }, TablesInsert<'tasting_notes'>>({
+    mutationFn: async (payload) => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .insert([payload])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TastingNote;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasting-notes', batch.id] });
+      resetForm();
+      toast({
+        title: 'Tasting recorded!',
+        description: 'Your scores have been added to the session.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error recording tasting',
+        description: error.code === UNIQUE_VIOLATION
+          ? 'You have already scored this session. Edit your existing note instead.'
+          : error.message,
+      });
+    },
+  });
+
+  const updateNoteMutation = useMutation<TastingNote, Error & { code?: string }, { noteId: string; updates: TablesUpdate<'tasting_notes'> }>({
+    mutationFn: async ({ noteId, updates }) => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .update(updates)
+        .eq('id', noteId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TastingNote;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasting-notes', batch.id] });
+      resetForm();
+      toast({
+        title: 'Tasting updated!',
+        description: 'Changes have been saved.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating tasting',
+        description: error.code === UNIQUE_VIOLATION
+          ? 'You have already scored a session on that date.'
+          : error.message,
+      });
+    },
+  });
+
+  const deleteNoteMutation = useMutation<string, Error, string>({
+    mutationFn: async (noteId) => {
+      const { error } = await supabase
+        .from('tasting_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw error;
+      return noteId;
+    },
+    onSuccess: (noteId) => {
+      queryClient.setQueryData<TastingNote[]>(['tasting-notes', batch.id], (old) =>
+        old ? old.filter((note) => note.id !== noteId) : []
+      );
+      if (editingNoteId === noteId) resetForm();
+      toast({
+        title: 'Tasting deleted',
+        description: 'Your tasting note has been removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting tasting',
+        description: error.message,
+      });
+    },
+  });
+
+  const isSaving = createNoteMutation.isPending || updateNoteMutation.isPending;
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = tastingNoteSchema.safeParse(formData);
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    const values = {
+      recorded_at: validation.data.recorded_at,
+      sweetness: validation.data.sweetness,
+      acidity: validation.data.acidity,
+      body: validation.data.body,
+      aroma: validation.data.aroma || null,
+      flavor: validation.data.flavor || null,
+      finish: validation.data.finish || null,
+      notes: validation.data.notes || null,
+    };
+
+    if (editingNoteId) {
+      updateNoteMutation.mutate({ noteId: editingNoteId, updates: values });
+    } else {
+      createNoteMutation.mutate({ ...values, batch_id: batch.id, created_by: userId ?? null });
+    }
+  }
+
+  function startEditing(note: TastingNote) {
+    setEditingNoteId(note.id);
+    setFormData({
+      recorded_at: note.recorded_at,
+      sweetness: note.sweetness,
+      acidity: note.acidity,
+      body: note.body,
+      aroma: note.aroma ?? '',
+      flavor: note.flavor ?? '',
+      finish: note.finish ?? '',
+      notes: note.notes ?? '',
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <TastingRadarChart batch={batch} notes={notes} batches={batches} />
+
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold">{editingNoteId ? 'Edit Your Tasting' : 'Record Tasting'}</h4>
+            {editingNoteId && (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tasting-recorded-at">Session Date</Label>
+            <Input
+              id="tasting-recorded-at"
+              type="date"
+              value={formData.recorded_at}
+              onChange={(e) => setFormData({ ...formData, recorded_at: e.target.value })}
+              required
+            />
+          </div>
+
+          {SENSORY_ATTRIBUTES.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <Label>{label}</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={formData[key]?.toString() ?? ''}
+                onValueChange={(value) => setFormData({ ...formData, [key]: value ? Number(value) : null })}
+              >
+                {[1, 2, 3, 4, 5].map((score) => (
+                  <ToggleGroupItem key={score} value={score.toString()} className="w-9">
+                    {score}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          ))}
+
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tasting-aroma">Aroma</Label>
+              <Input
+                id="tasting-aroma"
+                value={formData.aroma}
+                onChange={(e) => setFormData({ ...formData, aroma: e.target.value })}
+                placeholder="e.g., Baked apple"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tasting-flavor">Flavor</Label>
+              <Input
+                id="tasting-flavor"
+                value={formData.flavor}
+                onChange={(e) => setFormData({ ...formData, flavor: e.target.value })}
+                placeholder="e.g., Tart, citrus"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tasting-finish">Finish</Label>
+              <Input
+                id="tasting-finish"
+                value={formData.finish}
+                onChange={(e) => setFormData({ ...formData, finish: e.target.value })}
+                placeholder="e.g., Dry, tannic"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tasting-notes">Notes</Label>
+            <Textarea
+              id="tasting-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" disabled={isSaving} className="w-full">
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Saving...
+              </>
+            ) : editingNoteId ? (
+              <>
+                <Edit className="h-4 w-4 mr-2" />
+                Save Tasting
+              </>
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                Record Tasting
+              </>
+            )}
+          </Button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="p-6 text-center">
+          <Wine className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No tastings yet. Each team member can score a session independently.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map((session) => (
+            <div key={session.recordedAt} className="rounded-lg border">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 bg-muted/50 border-b">
+                <div>
+                  <p className="font-medium">{format(new Date(session.recordedAt), 'PPP')}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Users className="h-3 w-3" />
+                    {session.notes.length} {session.notes.length === 1 ? 'taster' : 'tasters'}
+                  </p>
+                </div>
+                <div className="flex gap-4 text-sm">
+                  {SENSORY_ATTRIBUTES.map(({ key, label }) => (
+                    <div key={key} className="text-center">
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      <p className="font-semibold">{formatScore(session.profile[key])}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="divide-y">
+                {session.notes.map((note) => {
+                  const isOwnNote = Boolean(userId) && note.created_by === userId;
+                  const descriptors = [
+                    note.aroma && `Aroma: ${note.aroma}`,
+                    note.flavor && `Flavor: ${note.flavor}`,
+                    note.finish && `Finish: ${note.finish}`,
+                  ].filter(Boolean);
+
+                  return (
+                    <div key={note.id} className="flex items-start justify-between gap-3 p-4 text-sm">
+                      <div className="space-y-1">
+                        <p className="font-medium">{isOwnNote ? 'You' : getMemberName(note.created_by) ?? 'Team member'}</p>
+                        <p className="text-muted-foreground">
+                          {SENSORY_ATTRIBUTES.map(({ key, label }) => `${label} ${note[key] ?? '—'}`).join(' · ')}
+                        </p>
+                        {descriptors.length > 0 && <p>{descriptors.join(' · ')}</p>}
+                        {note.notes && <p className="text-muted-foreground">{note.notes}</p>}
+                      </div>
+                      {isOwnNote && !readOnly && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(note)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete your tasting note?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Your scores for this session will be permanently removed.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  onClick={() => deleteNoteMutation.mutate(note.id)}
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Radar as RadarIcon } from 'lucide-react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { SENSORY_ATTRIBUTES, groupTastingSessions, type SensoryProfile } from '@/lib/tasting';
+
+type BatchRow = Tables<'batches'>;
+type TastingNote = Tables<'tasting_notes'>;
+
+type CompareMode = 'sessions' | 'batches';
+
+const MAX_SERIES = 5;
+
+interface TastingRadarChartProps {
+  batch: BatchRow;
+  notes: TastingNote[];
+  batches?: BatchRow[];
+}
+
+export function TastingRadarChart({ batch, notes, batches = [] }: TastingRadarChartProps) {
+  const [mode, setMode] = useState<CompareMode>('sessions');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const otherBatches = useMemo(() => batches.filter((other) => other.id !== batch.id), [batches, batch.id]);
+
+  const {
+    data: compareNotes = [],
+    isLoading: compareLoading,
+  } = useQuery<TastingNote[]>({
+    queryKey: ['tasting-notes', batch.id, 'compare', compareIds],
+    enabled: mode === 'batches' && compareIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .select('*')
+        .in('batch_id', compareIds);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Each series is a labelled sensory profile: a session of this batch over time,
+  // or the most recent session of each compared batch
+  const series = useMemo<{ label: string; profile: SensoryProfile }[]>(() => {
+    if (mode === 'sessions') {
+      return groupTastingSessions(notes)
+        .slice(0, MAX_SERIES)
+        .reverse()
+        .map((session) => ({ label: format(new Date(session.recordedAt), 'MMM d, yyyy'), profile: session.profile }));
+    }
+
+    const latestSession = (batchId: string, batchNotes: TastingNote[]) =>
+      groupTastingSessions(batchNotes.filter((note) => note.batch_id === batchId))[0];
+
+    return [batch, ...otherBatches.filter((other) => compareIds.includes(other.id))]
+      .map((seriesBatch) => ({
+        label: seriesBatch.name,
+        session: latestSession(seriesBatch.id, seriesBatch.id === batch.id ? notes : compareNotes),
+      }))
+      .filter(({ session }) => Boolean(session))
+      .map(({ label, session }) => ({ label, profile: session.profile }));
+  }, [mode, notes, compareNotes, batch, otherBatches, compareIds]);
+
+  const chartConfig = useMemo<ChartConfig>(
+    () => Object.fromEntries(
+      series.map(({ label }, index) => [
+        `series${index}`,
+        { label, color: `hsl(var(--chart-${(index % MAX_SERIES) + 1}))` },
+      ])
+    ),
+    [series]
+  );
+
+  const chartData = useMemo(
+    () => SENSORY_ATTRIBUTES.map(({ key, label }) => ({
+      attribute: label,
+      ...Object.fromEntries(series.map(({ profile }, index) => [`series${index}`, profile[key] ?? 0])),
+    })),
+    [series]
+  );
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h4 className="font-semibold">Sensory Profile</h4>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CompareMode)}
+        >
+          <ToggleGroupItem value="sessions">Over time</ToggleGroupItem>
+          <ToggleGroupItem value="batches" disabled={otherBatches.length === 0}>Batches</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {mode === 'batches' && compareLoading ? (
+        <Skeleton className="h-56 w-full" />
+      ) : series.length === 0 ? (
+        <div className="p-6 text-center">
+          <RadarIcon className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No scored tastings to chart yet.
+          </p>
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-72">
+          <RadarChart data={chartData}>
+            <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+            <PolarGrid />
+            <PolarAngleAxis dataKey="attribute" />
+            <PolarRadiusAxis domain={[0, 5]} tickCount={6} axisLine={false} tick={false} />
+            {series.map((_, index) => (
+              <Radar
+                key={index}
+                dataKey={`series${index}`}
+                stroke={`var(--color-series${index})`}
+                fill={`var(--color-series${index})`}
+                fillOpacity={index === series.length - 1 ? 0.4 : 0.1}
+                strokeWidth={2}
+              />
+            ))}
+            {series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          </RadarChart>
+        </ChartContainer>
+      )}
+
+      {mode === 'batches' && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Compare latest tasting with</p>
+          <div className="grid sm:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+            {otherBatches.map((other) => {
+              const checked = compareIds.includes(other.id);
+              return (
+                <div key={other.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`tasting-compare-${other.id}`}
+                    checked={checked}
+                    disabled={!checked && compareIds.length + 1 >= MAX_SERIES}
+                    onCheckedChange={(value) =>
+                      setCompareIds((ids) => (value ? [...ids, other.id] : ids.filter((id) => id !== other.id)))
+                    }
+                  />
+                  <Label htmlFor={`tasting-compare-${other.id}`} className="font-normal cursor-pointer truncate">
+                    {other.name}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
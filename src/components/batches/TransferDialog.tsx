@@ -0,0 +1,385 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useVessels } from '@/hooks/use-vessels';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { TRANSFER_TYPES, transferSchema, type TransferType } from '@/lib/transfers';
+import { getVolumeOutsideVessels } from '@/lib/vessels';
+
+type BatchRow = Tables<'batches'>;
+
+// Select values can't be empty strings, so volume outside any vessel gets its own key
+const OUTSIDE = 'outside';
+
+type DestinationState = {
+  vesselId: string;
+  volume: number | '';
+};
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batch: BatchRow;
+  organizationId: string;
+  defaultType?: TransferType;
+  /** Vessel to start from; defaults to the one holding most of the batch */
+  defaultSourceVesselId?: string | null;
+}
+
+const toVesselId = (value: string) => (value === OUTSIDE ? null : value);
+
+export function TransferDialog({
+  open,
+  onOpenChange,
+  batch,
+  organizationId,
+  defaultType = 'rack',
+  defaultSourceVesselId,
+}: TransferDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { vessels, contents, getVessel, getBatchContents } = useVessels(organizationId);
+
+  const [transferType, setTransferType] = useState<TransferType>(defaultType);
+  const [sourceId, setSourceId] = useState<string>(OUTSIDE);
+  const [destinations, setDestinations] = useState<DestinationState[]>([{ vesselId: '', volume: '' }]);
+  const [loss, setLoss] = useState<number | ''>('');
+  const [transferredAt, setTransferredAt] = useState('');
+  const [note, setNote] = useState('');
+
+  const batchContents = getBatchContents(batch.id);
+  const volumeOutside = getVolumeOutsideVessels(batch, batchContents);
+
+  // Where the batch is now: its vessels, plus any volume not in a vessel
+  const places = useMemo(() => {
+    const held = batchContents
+      .map((content) => ({
+        value: content.vessel_id ?? OUTSIDE,
+        label: getVessel(content.vessel_id)?.name ?? 'Unknown vessel',
+        volume: Number(content.volume),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    return volumeOutside > 0 ? [...held, { value: OUTSIDE, label: 'Not in a vessel', volume: volumeOutside }] : held;
+  }, [batchContents, getVessel, volumeOutside]);
+
+  // Vessels the batch may move into: empty ones and ones it is already in
+  const destinationOptions = useMemo(() => {
+    const occupiedByOthers = new Set(
+      contents.filter((content) => content.batch_id !== batch.id).map((content) => content.vessel_id)
+    );
+    return vessels.filter((vessel) => !occupiedByOthers.has(vessel.id));
+  }, [vessels, contents, batch.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTransferType(defaultType);
+    setSourceId(defaultSourceVesselId ?? batch.vessel_id ?? OUTSIDE);
+    setDestinations(defaultType === 'split'
+      ? [{ vesselId: '', volume: '' }, { vesselId: '', volume: '' }]
+      : [{ vesselId: '', volume: '' }]);
+    setLoss('');
+    setTransferredAt(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+    setNote('');
+  }, [open, defaultType, defaultSourceVesselId, batch.vessel_id]);
+
+  const available = places.find((place) => place.value === sourceId)?.volume ?? 0;
+  const moved = destinations.reduce((sum, destination) => sum + (destination.volume === '' ? 0 : destination.volume), 0);
+  const drawsFromSource = transferType === 'rack' || transferType === 'split' || transferType === 'loss';
+
+  function changeType(type: TransferType) {
+    setTransferType(type);
+    setLoss('');
+    setDestinations(type === 'split'
+      ? [{ vesselId: '', volume: '' }, { vesselId: '', volume: '' }]
+      : [{ vesselId: '', volume: '' }]);
+  }
+
+  function updateDestination(index: number, update: Partial<DestinationState>) {
+    setDestinations((current) => current.map((destination, i) => (i === index ? { ...destination, ...update } : destination)));
+  }
+
+  const transferMutation = useMutation<void, Error, {
+    transfer_type: TransferType;
+    from_vessel_id: string | null;
+    destinations: { vessel_id: string | null; volume: number }[];
+    loss: number;
+    note: string;
+    transferred_at: string;
+  }>({
+    mutationFn: async (payload) => {
+      // The RPC checks capacity and occupancy and writes the transfer with its ledger entries
+      const { error } = await supabase.rpc('transfer_batch_volume', {
+        batch_id: batch.id,
+        transfer_type: payload.transfer_type,
+        from_vessel_id: payload.from_vessel_id ?? undefined,
+        destinations: payload.destinations,
+        loss: payload.loss,
+        note: payload.note || undefined,
+        transferred_at: payload.transferred_at,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, payload) => {
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch', batch.id] });
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch-transfers', batch.id] });
+      queryClient.invalidateQueries({ queryKey: ['batch-volume-entries', batch.id] });
+      onOpenChange(false);
+      toast({
+        title: 'Transfer recorded',
+        description: payload.loss > 0
+          ? `${payload.loss.toFixed(1)} L of ${batch.name} was logged as lost.`
+          : `The volume ledger for ${batch.name} has been updated.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error recording transfer',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (destinations.some((destination) => !destination.vesselId) && transferType !== 'loss') {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: 'Choose a vessel for every destination.',
+      });
+      return;
+    }
+
+    // Validate input using Zod
+    const validation = transferSchema.safeParse({
+      transfer_type: transferType,
+      destinations: transferType === 'loss'
+        ? []
+        : destinations.map((destination) => ({
+            vessel_id: toVesselId(destination.vesselId),
+            volume: destination.volume === '' ? undefined : destination.volume,
+          })),
+      loss: transferType === 'top_up' || transferType === 'adjustment' ? 0 : loss === '' ? 0 : loss,
+      transferred_at: transferredAt,
+      note,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    if (drawsFromSource && moved + validation.data.loss > available) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: `Only ${available.toFixed(1)} L is available in the source.`,
+      });
+      return;
+    }
+
+    transferMutation.mutate({
+      transfer_type: validation.data.transfer_type,
+      // An adjustment measures its destination, so the server takes the vessel from there
+      from_vessel_id: drawsFromSource ? toVesselId(sourceId) : null,
+      destinations: validation.data.destinations.map((destination) => ({
+        vessel_id: destination.vessel_id,
+        volume: destination.volume,
+      })),
+      loss: validation.data.loss,
+      note: validation.data.note,
+      transferred_at: new Date(validation.data.transferred_at).toISOString(),
+    });
+  }
+
+  const type = TRANSFER_TYPES.find((item) => item.value === transferType);
+  const destinationChoices = (index: number) => {
+    const taken = new Set(destinations.filter((_, i) => i !== index).map((destination) => destination.vesselId));
+    const candidates = transferType === 'adjustment'
+      ? places.filter((place) => place.value !== OUTSIDE).map((place) => ({ value: place.value, label: place.label }))
+      : destinationOptions
+          .filter((vessel) => !drawsFromSource || vessel.id !== sourceId)
+          .map((vessel) => ({ value: vessel.id, label: `${vessel.name} (${Number(vessel.capacity).toFixed(1)} L)` }));
+    const outside = (transferType === 'rack' && sourceId !== OUTSIDE) || transferType === 'top_up' || transferType === 'adjustment'
+      ? [{ value: OUTSIDE, label: 'Not in a vessel' }]
+      : [];
+    return [...candidates, ...outside].filter((option) => !taken.has(option.value));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Transfer</DialogTitle>
+          <DialogDescription>
+            {batch.name} · {Number(batch.volume).toFixed(1)} L
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-type">Operation</Label>
+            <Select value={transferType} onValueChange={(value) => changeType(value as TransferType)}>
+              <SelectTrigger id="transfer-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSFER_TYPES.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {type && <p className="text-xs text-muted-foreground">{type.description}</p>}
+          </div>
+
+          {drawsFromSource && (
+            <div className="space-y-2">
+              <Label htmlFor="transfer-source">From</Label>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger id="transfer-source">
+                  <SelectValue placeholder="Choose a vessel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {places.map((place) => (
+                    <SelectItem key={place.value} value={place.value}>
+                      {place.label} ({place.volume.toFixed(1)} L)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {transferType !== 'loss' && (
+            <div className="space-y-2">
+              <Label>
+                {transferType === 'adjustment' ? 'Measured Vessel' : transferType === 'split' ? 'Destinations' : 'To'}
+              </Label>
+              {destinations.map((destination, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={destination.vesselId} onValueChange={(value) => updateDestination(index, { vesselId: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a vessel" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {destinationChoices(index).map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    className="w-32"
+                    aria-label={transferType === 'adjustment' ? 'Measured volume in liters' : 'Volume in liters'}
+                    placeholder={transferType === 'adjustment' ? 'Measured L' : 'Liters'}
+                    value={destination.volume}
+                    onChange={(e) => updateDestination(index, { volume: e.target.value ? parseFloat(e.target.value) : '' })}
+                  />
+                  {transferType === 'split' && destinations.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDestinations((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {transferType === 'split' && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDestinations((current) => [...current, { vesselId: '', volume: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Destination
+                </Button>
+              )}
+            </div>
+          )}
+
+          {drawsFromSource && (
+            <div className="space-y-2">
+              <Label htmlFor="transfer-loss">{transferType === 'loss' ? 'Volume Lost (L)' : 'Loss (L)'}</Label>
+              <Input
+                id="transfer-loss"
+                type="number"
+                step="0.1"
+                min="0"
+                value={loss}
+                onChange={(e) => setLoss(e.target.value ? parseFloat(e.target.value) : '')}
+                placeholder={transferType === 'loss' ? 'e.g., 2.5' : 'Lees and spillage left behind'}
+                required={transferType === 'loss'}
+              />
+              <p className="text-xs text-muted-foreground">
+                {available.toFixed(1)} L in the source · {Math.max(0, available - moved - (loss === '' ? 0 : loss)).toFixed(1)} L left after this
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-date">Date</Label>
+            <Input
+              id="transfer-date"
+              type="datetime-local"
+              value={transferredAt}
+              onChange={(e) => setTransferredAt(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-note">Note</Label>
+            <Textarea
+              id="transfer-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={transferMutation.isPending}>
+              {transferMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Record Transfer'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowRight, ArrowRightLeft, Droplets } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format, parseISO } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { useVessels } from '@/hooks/use-vessels';
+import { useBatchNames } from '@/hooks/use-batch-names';
+import { getFillLevel, getVolumeOutsideVessels } from '@/lib/vessels';
+import {
+  getTransferTypeLabel,
+  summarizeVolumeLedger,
+  type BatchTransfer,
+  type BatchVolumeEntry,
+} from '@/lib/transfers';
+import { TransferDialog } from '@/components/batches/TransferDialog';
+
+type BatchRow = Tables<'batches'>;
+
+interface VolumeLedgerProps {
+  batch: BatchRow;
+  organizationId: string;
+  readOnly?: boolean;
+}
+
+export function VolumeLedger({ batch, organizationId, readOnly = false }: VolumeLedgerProps) {
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const { getVessel, getBatchContents } = useVessels(organizationId);
+  const { batchNames } = useBatchNames(organizationId);
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+
+  const {
+    data: transfers = [],
+    isLoading: transfersLoading,
+  } = useQuery<BatchTransfer[]>({
+    queryKey: ['batch-transfers', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_transfers')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('transferred_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: entries = [],
+    isLoading: entriesLoading,
+  } = useQuery<BatchVolumeEntry[]>({
+    queryKey: ['batch-volume-entries', batch.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_volume_entries')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const summary = useMemo(() => summarizeVolumeLedger(entries), [entries]);
+  const contents = getBatchContents(batch.id);
+  const volumeOutside = getVolumeOutsideVessels(batch, contents);
+
+  // Where each transfer's volume ended up
+  const destinationsByTransfer = useMemo(() => {
+    const map = new Map<string, BatchVolumeEntry[]>();
+    entries
+      .filter((entry) => entry.transfer_id && (entry.entry_type === 'transfer_in' || entry.entry_type === 'top_up'))
+      .forEach((entry) => map.set(entry.transfer_id, [...(map.get(entry.transfer_id) ?? []), entry]));
+    return map;
+  }, [entries]);
+
+  const vesselName = (vesselId: string | null) =>
+    vesselId ? getVessel(vesselId)?.name ?? 'Deleted vessel' : 'No vessel';
+
+  if (transfersLoading || entriesLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Started With</p>
+          <p className="font-medium">{summary.initial.toFixed(1)} L</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Topped Up</p>
+          <p className="font-medium">{summary.toppedUp.toFixed(1)} L</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Lost</p>
+          <p className="font-medium">
+            {summary.lost.toFixed(1)} L
+            {summary.lossPercent !== null && (
+              <span className="text-muted-foreground font-normal"> ({summary.lossPercent.toFixed(1)}%)</span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Adjustments</p>
+          <p className="font-medium">
+            {summary.adjusted > 0 ? '+' : ''}{summary.adjusted.toFixed(1)} L
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold">Vessels</h3>
+          {!readOnly && (
+            <Button variant="outline" size="sm" onClick={() => setIsTransferDialogOpen(true)}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Record Transfer
+            </Button>
+          )}
+        </div>
+
+        {contents.length === 0 && volumeOutside <= 0 ? (
+          <p className="text-sm text-muted-foreground">This batch has no volume left.</p>
+        ) : (
+          <div className="space-y-2">
+            {contents.map((content) => {
+              const vessel = getVessel(content.vessel_id);
+              const fillLevel = vessel ? getFillLevel(Number(content.volume), Number(vessel.capacity)) : 0;
+              return (
+                <div key={content.vessel_id} className="p-3 bg-muted rounded-lg space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <Link to="/cellar" className="font-medium hover:underline">{vesselName(content.vessel_id)}</Link>
+                    <span className="text-muted-foreground">
+                      {Number(content.volume).toFixed(1)} L
+                      {vessel && ` / ${Number(vessel.capacity).toFixed(1)} L`}
+                    </span>
+                  </div>
+                  <Progress value={fillLevel} className="h-2" />
+                </div>
+              );
+            })}
+            {volumeOutside > 0 && (
+              <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+                <span className="font-medium">Not in a vessel</span>
+                <span className="text-muted-foreground">{volumeOutside.toFixed(1)} L</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Transfers</h3>
+        {transfers.length === 0 ? (
+          <div className="p-6 text-center">
+            <Droplets className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No racking, top-ups, losses or blends recorded yet.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {transfers.map((transfer) => {
+              const destinations = destinationsByTransfer.get(transfer.id) ?? [];
+              return (
+                <div key={transfer.id} className="p-3 text-sm space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{getTransferTypeLabel(transfer.transfer_type)}</Badge>
+                      {transfer.transfer_type === 'rack' || transfer.transfer_type === 'split' ? (
+                        <span className="flex flex-wrap items-center gap-1">
+                          {vesselName(transfer.from_vessel_id)}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          {destinations
+                            .map((entry) => `${vesselName(entry.vessel_id)} (${Number(entry.volume_change).toFixed(1)} L)`)
+                            .join(', ')}
+                        </span>
+                      ) : transfer.transfer_type === 'top_up' ? (
+                        <span>
+                          +{Number(transfer.volume).toFixed(1)} L into {destinations.map((entry) => vesselName(entry.vessel_id)).join(', ')}
+                        </span>
+                      ) : transfer.transfer_type === 'adjustment' ? (
+                        <span>
+                          {Number(transfer.volume) > 0 ? '+' : ''}{Number(transfer.volume).toFixed(1)} L in {vesselName(transfer.from_vessel_id)}
+                        </span>
+                      ) : transfer.transfer_type === 'blend' ? (
+                        <span className="flex flex-wrap items-center gap-1">
+                          {Number(transfer.volume).toFixed(1)} L from {vesselName(transfer.from_vessel_id)}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          {transfer.target_batch_id && batchNames.has(transfer.target_batch_id) ? (
+                            <Link to={`/batches/${transfer.target_batch_id}`} className="hover:underline">
+                              {batchNames.get(transfer.target_batch_id)}
+                            </Link>
+                          ) : 'Deleted blend'}
+                        </span>
+                      ) : (
+                        <span>{vesselName(transfer.from_vessel_id)}</span>
+                      )}
+                    </div>
+                    {Number(transfer.loss) > 0 && (
+                      <span className="text-destructive font-medium">−{Number(transfer.loss).toFixed(1)} L lost</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      format(parseISO(transfer.transferred_at), 'PP p'),
+                      transfer.created_by ? `by ${getMemberName(transfer.created_by)}` : null,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                  {transfer.note && <p className="text-xs text-muted-foreground">{transfer.note}</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {!readOnly && (
+        <TransferDialog
+          open={isTransferDialogOpen}
+          onOpenChange={setIsTransferDialogOpen}
+          batch={batch}
+          organizationId={organizationId}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_EXPORT_UNITS,
+  TEMPERATURE_UNITS,
+  VOLUME_UNITS,
+  exportDatasets,
+  type ExportDataset,
+  type ExportFormat,
+  type ExportUnits,
+  type TemperatureUnit,
+  type VolumeUnit,
+} from '@/lib/export';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  fileName: string;
+  datasets: ExportDataset<unknown>[];
+}
+
+export function ExportDialog({ open, onOpenChange, title, description, fileName, datasets }: ExportDialogProps) {
+  const { toast } = useToast();
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [units, setUnits] = useState<ExportUnits>(DEFAULT_EXPORT_UNITS);
+  const [exporting, setExporting] = useState(false);
+  // Hidden columns per dataset; everything is exported by default
+  const [excludedColumns, setExcludedColumns] = useState<Record<string, string[]>>({});
+  const [excludedDatasets, setExcludedDatasets] = useState<string[]>([]);
+
+  const selectedDatasets = datasets
+    .filter((dataset) => !excludedDatasets.includes(dataset.id))
+    .map((dataset) => ({
+      ...dataset,
+      columns: dataset.columns.filter((column) => !(excludedColumns[dataset.id] ?? []).includes(column.id)),
+    }));
+
+  const usesUnit = (unit: keyof ExportUnits) =>
+    selectedDatasets.some((dataset) => dataset.columns.some((column) => column.unit === unit));
+
+  const canExport =
+    selectedDatasets.length > 0 && selectedDatasets.every((dataset) => dataset.columns.length > 0);
+
+  function toggleColumn(datasetId: string, columnId: string, checked: boolean) {
+    setExcludedColumns((current) => {
+      const excluded = current[datasetId] ?? [];
+      return {
+        ...current,
+        [datasetId]: checked ? excluded.filter((id) => id !== columnId) : [...excluded, columnId],
+      };
+    });
+  }
+
+  function toggleDataset(datasetId: string, checked: boolean) {
+    setExcludedDatasets((current) =>
+      checked ? current.filter((id) => id !== datasetId) : [...current, datasetId]
+    );
+  }
+
+  async function handleExport() {
+    setExporting(true);
+
+    try {
+      await exportDatasets(selectedDatasets, exportFormat, units, fileName);
+      onOpenChange(false);
+      toast({
+        title: 'Export ready',
+        description: `Downloaded ${selectedDatasets.map((dataset) => dataset.label.toLowerCase()).join(' and ')} as ${exportFormat.toUpperCase()}.`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export data';
+      toast({
+        variant: 'destructive',
+        title: 'Error exporting data',
+        description: message,
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={exportFormat}
+              onValueChange={(value) => setExportFormat(value as ExportFormat)}
+              className="flex gap-6"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="csv" id="export-csv" />
+                <Label htmlFor="export-csv" className="font-normal cursor-pointer">CSV</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="xlsx" id="export-xlsx" />
+                <Label htmlFor="export-xlsx" className="font-normal cursor-pointer">Excel (XLSX)</Label>
+              </div>
+            </RadioGroup>
+            {exportFormat === 'csv' && selectedDatasets.length > 1 && (
+              <p className="text-xs text-muted-foreground">Each dataset is downloaded as its own CSV file.</p>
+            )}
+          </div>
+
+          {(usesUnit('volume') || usesUnit('temperature')) && (
+            <div className="grid grid-cols-2 gap-4">
+              {usesUnit('volume') && (
+                <div className="space-y-2">
+                  <Label>Volume</Label>
+                  <Select
+                    value={units.volume}
+                    onValueChange={(value) => setUnits({ ...units, volume: value as VolumeUnit })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VOLUME_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {usesUnit('temperature') && (
+                <div className="space-y-2">
+                  <Label>Temperature</Label>
+                  <Select
+                    value={units.temperature}
+                    onValueChange={(value) => setUnits({ ...units, temperature: value as TemperatureUnit })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPERATURE_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {datasets.map((dataset) => {
+            const included = !excludedDatasets.includes(dataset.id);
+            const excluded = excludedColumns[dataset.id] ?? [];
+
+            return (
+              <div key={dataset.id} className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-2">
+                  {datasets.length > 1 ? (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`export-dataset-${dataset.id}`}
+                        checked={included}
+                        onCheckedChange={(checked) => toggleDataset(dataset.id, checked === true)}
+                      />
+                      <Label htmlFor={`export-dataset-${dataset.id}`} className="cursor-pointer">
+                        {dataset.label}
+                      </Label>
+                    </div>
+                  ) : (
+                    <Label>{dataset.label}</Label>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {dataset.rows.length} {dataset.rows.length === 1 ? 'row' : 'rows'}
+                  </span>
+                </div>
+
+                {included && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {dataset.columns.map((column) => (
+                      <div key={column.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`export-${dataset.id}-${column.id}`}
+                          checked={!excluded.includes(column.id)}
+                          onCheckedChange={(checked) => toggleColumn(dataset.id, column.id, checked === true)}
+                        />
+                        <Label htmlFor={`export-${dataset.id}-${column.id}`} className="text-sm font-normal cursor-pointer">
+                          {column.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport || exporting}>
+            {exporting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { VarietyCombobox } from '@/components/varieties/VarietyCombobox';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { getLotYield, intakeSchema, type FruitIntake } from '@/lib/intake';
+
+type BatchRow = Tables<'batches'>;
+
+type IntakeFormState = {
+  supplier: string;
+  orchard: string;
+  variety_id: string;
+  received_on: string;
+  harvest_date: string;
+  weight_kg: number | '';
+  brix: number | '';
+  pressed_on: string;
+  juice_volume: number | '';
+  // 'none' leaves the lot unlinked, since Select values can't be empty strings
+  batch_id: string;
+  notes: string;
+};
+
+const toFormState = (lot?: FruitIntake | null): IntakeFormState => ({
+  supplier: lot?.supplier ?? '',
+  orchard: lot?.orchard ?? '',
+  variety_id: lot?.variety_id ?? '',
+  received_on: lot?.received_on ?? format(new Date(), 'yyyy-MM-dd'),
+  harvest_date: lot?.harvest_date ?? '',
+  weight_kg: lot ? Number(lot.weight_kg) : '',
+  brix: lot?.brix ?? '',
+  pressed_on: lot?.pressed_on ?? '',
+  juice_volume: lot?.juice_volume ?? '',
+  batch_id: lot?.batch_id ?? 'none',
+  notes: lot?.notes ?? '',
+});
+
+interface IntakeFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  userId: string;
+  /** Lot to edit; a new one is recorded when omitted */
+  lot?: FruitIntake | null;
+  /** Batches the lot's juice can go into */
+  batches: BatchRow[];
+  /** Suppliers already in use, offered as suggestions */
+  suppliers: string[];
+  canCreateVarieties: boolean;
+}
+
+export function IntakeFormDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  userId,
+  lot,
+  batches,
+  suppliers,
+  canCreateVarieties,
+}: IntakeFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<IntakeFormState>(() => toFormState(lot));
+
+  useEffect(() => {
+    if (open) setForm(toFormState(lot));
+  }, [open, lot]);
+
+  const previewYield = form.weight_kg !== '' && form.juice_volume !== ''
+    ? getLotYield({ weight_kg: form.weight_kg, juice_volume: form.juice_volume })
+    : null;
+
+  const saveIntakeMutation = useMutation<FruitIntake, Error, Omit<TablesInsert<'fruit_intakes'>, 'organization_id'>>({
+    mutationFn: async (payload) => {
+      const query = lot
+        ? supabase.from('fruit_intakes').update(payload).eq('id', lot.id)
+        : supabase.from('fruit_intakes').insert([{ ...payload, organization_id: organizationId, created_by: userId }]);
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as FruitIntake;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['fruit-intakes', organizationId] });
+      onOpenChange(false);
+      toast({
+        title: lot ? 'Lot updated!' : 'Fruit received!',
+        description: lot ? 'Changes have been saved.' : `${Number(data.weight_kg).toFixed(0)} kg from ${data.supplier} was recorded.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: lot ? 'Error updating lot' : 'Error recording fruit',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = intakeSchema.safeParse({
+      ...form,
+      variety_id: form.variety_id || undefined,
+      harvest_date: form.harvest_date || null,
+      weight_kg: form.weight_kg === '' ? undefined : form.weight_kg,
+      brix: form.brix === '' ? null : form.brix,
+      pressed_on: form.pressed_on || null,
+      juice_volume: form.juice_volume === '' ? null : form.juice_volume,
+      batch_id: form.batch_id === 'none' ? null : form.batch_id,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    saveIntakeMutation.mutate({
+      supplier: validation.data.supplier,
+      orchard: validation.data.orchard || null,
+      variety_id: validation.data.variety_id,
+      received_on: validation.data.received_on,
+      harvest_date: validation.data.harvest_date,
+      weight_kg: validation.data.weight_kg,
+      brix: validation.data.brix,
+      pressed_on: validation.data.pressed_on,
+      juice_volume: validation.data.juice_volume,
+      batch_id: validation.data.batch_id,
+      notes: validation.data.notes || null,
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{lot ? 'Edit Lot' : 'Receive Fruit'}</DialogTitle>
+          <DialogDescription>
+            Record the fruit when it arrives and add the juice once it has been pressed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="intake-supplier">Supplier</Label>
+              <Input
+                id="intake-supplier"
+                value={form.supplier}
+                onChange={(e) => setForm({ ...form, supplier: e.target.value })}
+                placeholder="e.g., Hill Farm"
+                list="intake-suppliers"
+                maxLength={100}
+                required
+              />
+              <datalist id="intake-suppliers">
+                {suppliers.map((supplier) => (
+                  <option key={supplier} value={supplier} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="intake-orchard">Orchard</Label>
+              <Input
+                id="intake-orchard"
+                value={form.orchard}
+                onChange={(e) => setForm({ ...form, orchard: e.target.value })}
+                placeholder="Optional"
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-variety">Apple Variety</Label>
+            <VarietyCombobox
+              id="intake-variety"
+              organizationId={organizationId}
+              userId={userId}
+              value={form.variety_id}
+              onChange={(variety) => setForm({ ...form, variety_id: variety.id })}
+              canCreate={canCreateVarieties}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="intake-weight">Weight (kg)</Label>
+              <Input
+                id="intake-weight"
+                type="number"
+                step="1"
+                min="0"
+                value={form.weight_kg}
+                onChange={(e) => setForm({ ...form, weight_kg: e.target.value ? parseFloat(e.target.value) : '' })}
+                placeholder="e.g., 1200"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="intake-received">Received</Label>
+              <Input
+                id="intake-received"
+                type="date"
+                value={form.received_on}
+                onChange={(e) => setForm({ ...form, received_on: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="intake-harvest">Harvested</Label>
+              <Input
+                id="intake-harvest"
+                type="date"
+                value={form.harvest_date}
+                onChange={(e) => setForm({ ...form, harvest_date: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-brix">Brix (°Bx)</Label>
+            <Input
+              id="intake-brix"
+              type="number"
+              step="0.1"
+              min="0"
+              max="40"
+              value={form.brix}
+              onChange={(e) => setForm({ ...form, brix: e.target.value ? parseFloat(e.target.value) : '' })}
+              placeholder="e.g., 12.5"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="intake-pressed">Pressed</Label>
+              <Input
+                id="intake-pressed"
+                type="date"
+                value={form.pressed_on}
+                onChange={(e) => setForm({ ...form, pressed_on: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="intake-juice">Juice (L)</Label>
+              <Input
+                id="intake-juice"
+                type="number"
+                step="0.1"
+                min="0"
+                value={form.juice_volume}
+                onChange={(e) => setForm({ ...form, juice_volume: e.target.value ? parseFloat(e.target.value) : '' })}
+                placeholder="After pressing"
+              />
+            </div>
+          </div>
+          {previewYield !== null && (
+            <p className="text-xs text-muted-foreground">Yield: {previewYield.toFixed(0)} L per tonne</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-batch">Batch</Label>
+            <Select value={form.batch_id} onValueChange={(value) => setForm({ ...form, batch_id: value })}>
+              <SelectTrigger id="intake-batch">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not linked to a batch</SelectItem>
+                {batches.map((batch) => (
+                  <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">The batch this lot's juice went into.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-notes">Notes</Label>
+            <Textarea
+              id="intake-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveIntakeMutation.isPending}>
+              {saveIntakeMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : lot ? (
+                'Save Changes'
+              ) : (
+                'Record Lot'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,21 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { getDisplayName, getInitials, type Profile } from '@/lib/profiles';
+
+interface MemberAvatarProps {
+  profile: Pick<Profile, 'full_name' | 'email' | 'avatar_url'> | null | undefined;
+  className?: string;
+}
+
+export function MemberAvatar({ profile, className }: MemberAvatarProps) {
+  const name = getDisplayName(profile);
+
+  return (
+    <Avatar className={cn('h-9 w-9', className)}>
+      {profile?.avatar_url && <AvatarImage src={profile.avatar_url} alt={name} />}
+      <AvatarFallback className="bg-primary/10 text-primary text-xs font-medium">
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Check, ChevronsUpDown, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem,
+  DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { OrganizationMembership } from '@/hooks/use-organization';
+import { createOrganization, type Organization, type TeamSize } from '@/lib/organizations';
+import { ROLE_LABELS } from '@/lib/roles';
+import { z } from 'zod';
+
+// Zod validation schema
+const organizationSchema = z.object({
+  name: z.string().trim().min(1, 'Organization name is required').max(100, 'Organization name must be less than 100 characters'),
+  teamSize: z.enum(['small', 'medium', 'large', 'enterprise']),
+});
+
+const TEAM_SIZE_OPTIONS: { value: TeamSize; label: string }[] = [
+  { value: 'small', label: 'Just me' },
+  { value: 'medium', label: '2-10 people' },
+  { value: 'large', label: '10+ people' },
+];
+
+interface OrganizationSwitcherProps {
+  userId: string;
+  memberships: OrganizationMembership[];
+  activeOrganizationId: string | null;
+  onSwitch: (organizationId: string) => void;
+}
+
+export function OrganizationSwitcher({ userId, memberships, activeOrganizationId, onSwitch }: OrganizationSwitcherProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [orgForm, setOrgForm] = useState<{ name: string; teamSize: TeamSize }>({ name: '', teamSize: 'small' });
+
+  const activeMembership = memberships.find((membership) => membership.organization_id === activeOrganizationId);
+
+  const createOrganizationMutation = useMutation<Organization, Error, { name: string; teamSize: TeamSize }>({
+    mutationFn: (details) => createOrganization(userId, details),
+    onSuccess: async (org) => {
+      await queryClient.invalidateQueries({ queryKey: ['organization-memberships', userId] });
+      onSwitch(org.id);
+      setShowCreateForm(false);
+      setOrgForm({ name: '', teamSize: 'small' });
+      toast({
+        title: 'Organization created',
+        description: `You're now working in ${org.name}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error creating organization',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    const validation = organizationSchema.safeParse(orgForm);
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    createOrganizationMutation.mutate({ name: validation.data.name, teamSize: validation.data.teamSize });
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-auto px-2 py-1 text-left">
+            <div>
+              <p className="text-sm font-normal text-muted-foreground">Organization</p>
+              <p className="font-semibold">{activeMembership?.organizations.name ?? 'Select organization'}</p>
+            </div>
+            <ChevronsUpDown className="h-4 w-4 ml-2 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Your organizations</DropdownMenuLabel>
+          {memberships.map((membership) => (
+            <DropdownMenuItem
+              key={membership.organization_id}
+              onSelect={() => onSwitch(membership.organization_id)}
+            >
+              <Check
+                className={
+                  membership.organization_id === activeOrganizationId
+                    ? 'h-4 w-4 mr-2'
+                    : 'h-4 w-4 mr-2 invisible'
+                }
+              />
+              <span className="flex-1 truncate">{membership.organizations.name}</span>
+              <span className="text-xs text-muted-foreground ml-2">{ROLE_LABELS[membership.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setShowCreateForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Create Organization Dialog */}
+      <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Organization</DialogTitle>
+            <DialogDescription>
+              Start a separate workspace for another cidery. You'll be its owner.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="newOrgName">Organization Name</Label>
+              <Input
+                id="newOrgName"
+                placeholder="Acme Cidery"
+                value={orgForm.name}
+                onChange={(e) => setOrgForm({ ...orgForm, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Team Size</Label>
+              <Select
+                value={orgForm.teamSize}
+                onValueChange={(value) => setOrgForm({ ...orgForm, teamSize: value as TeamSize })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEAM_SIZE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createOrganizationMutation.isPending}>
+                {createOrganizationMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Creating...
+                  </>
+                ) : (
+                  'Create Organization'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,704 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowDown, ArrowRight, ArrowUp, Edit, GitBranch, Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import {
+  GUARD_RULE_TYPES,
+  STAGE_COLORS,
+  describeGuardRule,
+  getStageColor,
+  toStageKey,
+  type GuardRuleType,
+  type ProductionStage,
+  type StageColor,
+} from '@/lib/stages';
+
+type StageFormState = {
+  id: string | null;
+  name: string;
+  color: StageColor;
+  is_terminal: boolean;
+};
+
+type TransitionFormState = {
+  from_stage_id: string;
+  to_stage_id: string;
+  label: string;
+};
+
+type GuardRuleFormState = {
+  stage_id: string;
+  rule_type: GuardRuleType;
+  threshold: number | '';
+};
+
+// Zod validation schemas
+const stageSchema = z.object({
+  name: z.string().trim().min(1, "Stage name is required").max(50, "Stage name must be less than 50 characters"),
+  color: z.enum(['default', 'secondary', 'outline', 'destructive']),
+  is_terminal: z.boolean(),
+});
+
+const transitionSchema = z.object({
+  from_stage_id: z.string().uuid("Choose the stage to move from"),
+  to_stage_id: z.string().uuid("Choose the stage to move to"),
+  label: z.string().trim().min(1, "Button label is required").max(50, "Button label must be less than 50 characters"),
+}).refine((data) => data.from_stage_id !== data.to_stage_id, {
+  message: "A stage cannot transition to itself",
+  path: ["to_stage_id"],
+});
+
+const guardRuleSchema = z.object({
+  stage_id: z.string().uuid("Choose the stage this rule protects"),
+  rule_type: z.enum(['stable_gravity', 'tasting_note', 'min_days_in_stage']),
+  threshold: z.number({ required_error: "Threshold is required" }).int("Threshold must be a whole number").min(1, "Threshold must be at least 1").max(365, "Threshold must be at most 365").nullable(),
+});
+
+const emptyStageForm: StageFormState = { id: null, name: '', color: 'default', is_terminal: false };
+const emptyTransitionForm: TransitionFormState = { from_stage_id: '', to_stage_id: '', label: '' };
+const emptyGuardRuleForm: GuardRuleFormState = { stage_id: '', rule_type: 'stable_gravity', threshold: 3 };
+
+interface ProductionStagesSettingsProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+export function ProductionStagesSettings({ organizationId, canEdit }: ProductionStagesSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { pipeline, isLoading } = useProductionStages(organizationId);
+
+  const [stageForm, setStageForm] = useState<StageFormState | null>(null);
+  const [transitionForm, setTransitionForm] = useState<TransitionFormState>(emptyTransitionForm);
+  const [guardRuleForm, setGuardRuleForm] = useState<GuardRuleFormState>(emptyGuardRuleForm);
+  const [stageToDelete, setStageToDelete] = useState<ProductionStage | null>(null);
+
+  const invalidateStages = () =>
+    queryClient.invalidateQueries({ queryKey: ['production-stages', organizationId] });
+
+  const showError = (title: string) => (error: Error & { code?: string }) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error.message,
+    });
+  };
+
+  const saveStageMutation = useMutation<void, Error & { code?: string }, StageFormState>({
+    mutationFn: async ({ id, name, color, is_terminal }) => {
+      if (id) {
+        const { error } = await supabase
+          .from('production_stages')
+          .update({ name, color, is_terminal })
+          .eq('id', id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const key = toStageKey(name);
+      if (!key) throw new Error('Stage name must contain at least one letter or number.');
+
+      const lastPosition = pipeline.stages[pipeline.stages.length - 1]?.position ?? -1;
+      const { error } = await supabase
+        .from('production_stages')
+        .insert({ organization_id: organizationId, key, name, color, is_terminal, position: lastPosition + 1 });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('A stage with this name already exists.');
+        throw error;
+      }
+    },
+    onSuccess: (_data, variables) => {
+      invalidateStages();
+      setStageForm(null);
+      toast({
+        title: variables.id ? 'Stage updated!' : 'Stage added!',
+        description: `${variables.name} is ${variables.id ? 'updated' : 'now part of your pipeline'}.`,
+      });
+    },
+    onError: showError('Error saving stage'),
+  });
+
+  // Positions are swapped rather than renumbered so only two rows change
+  const moveStageMutation = useMutation<void, Error, { stage: ProductionStage; neighbor: ProductionStage }>({
+    mutationFn: async ({ stage, neighbor }) => {
+      const [first, second] = await Promise.all([
+        supabase.from('production_stages').update({ position: neighbor.position }).eq('id', stage.id),
+        supabase.from('production_stages').update({ position: stage.position }).eq('id', neighbor.id),
+      ]);
+
+      if (first.error) throw first.error;
+      if (second.error) throw second.error;
+    },
+    onSuccess: invalidateStages,
+    onError: showError('Error reordering stages'),
+  });
+
+  const deleteStageMutation = useMutation<ProductionStage, Error & { code?: string }, ProductionStage>({
+    mutationFn: async (stage) => {
+      const { error } = await supabase
+        .from('production_stages')
+        .delete()
+        .eq('id', stage.id);
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('Batches are still in this stage. Move them to another stage first.');
+        }
+        throw error;
+      }
+      return stage;
+    },
+    onSuccess: (stage) => {
+      invalidateStages();
+      toast({
+        title: 'Stage deleted',
+        description: `${stage.name} and its transitions have been removed.`,
+      });
+    },
+    onError: showError('Error deleting stage'),
+    onSettled: () => setStageToDelete(null),
+  });
+
+  const addTransitionMutation = useMutation<void, Error & { code?: string }, TransitionFormState>({
+    mutationFn: async (transition) => {
+      const { error } = await supabase
+        .from('production_stage_transitions')
+        .insert({ ...transition, organization_id: organizationId });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('That transition already exists.');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateStages();
+      setTransitionForm(emptyTransitionForm);
+      toast({
+        title: 'Transition added!',
+        description: 'Batches can now move between these stages.',
+      });
+    },
+    onError: showError('Error adding transition'),
+  });
+
+  const deleteTransitionMutation = useMutation<void, Error, string>({
+    mutationFn: async (transitionId) => {
+      const { error } = await supabase
+        .from('production_stage_transitions')
+        .delete()
+        .eq('id', transitionId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateStages,
+    onError: showError('Error deleting transition'),
+  });
+
+  const addGuardRuleMutation = useMutation<void, Error & { code?: string }, { stage_id: string; rule_type: GuardRuleType; threshold: number | null }>({
+    mutationFn: async (rule) => {
+      const { error } = await supabase
+        .from('stage_guard_rules')
+        .insert({ ...rule, organization_id: organizationId });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('This stage already has that rule.');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateStages();
+      setGuardRuleForm(emptyGuardRuleForm);
+      toast({
+        title: 'Rule added!',
+        description: 'Batches must now meet it before entering the stage.',
+      });
+    },
+    onError: showError('Error adding rule'),
+  });
+
+  const deleteGuardRuleMutation = useMutation<void, Error, string>({
+    mutationFn: async (ruleId) => {
+      const { error } = await supabase
+        .from('stage_guard_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateStages,
+    onError: showError('Error deleting rule'),
+  });
+
+  function handleSaveStage(e: React.FormEvent) {
+    e.preventDefault();
+    if (!stageForm) return;
+
+    // Validate input using Zod
+    const validation = stageSchema.safeParse(stageForm);
+
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    saveStageMutation.mutate({ id: stageForm.id, ...validation.data } as StageFormState);
+  }
+
+  function handleAddTransition(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = transitionSchema.safeParse(transitionForm);
+
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    addTransitionMutation.mutate(validation.data as TransitionFormState);
+  }
+
+  function handleAddGuardRule(e: React.FormEvent) {
+    e.preventDefault();
+
+    const ruleType = GUARD_RULE_TYPES.find((type) => type.value === guardRuleForm.rule_type);
+
+    // Validate input using Zod
+    const validation = guardRuleSchema.safeParse({
+      ...guardRuleForm,
+      threshold: ruleType?.thresholdLabel
+        ? (guardRuleForm.threshold === '' ? undefined : guardRuleForm.threshold)
+        : null,
+    });
+
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    addGuardRuleMutation.mutate(validation.data as { stage_id: string; rule_type: GuardRuleType; threshold: number | null });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-card rounded-xl border p-6 space-y-3">
+        <Skeleton className="h-6 w-40" />
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  const stageName = (stageId: string) =>
+    pipeline.stages.find((stage) => stage.id === stageId)?.name ?? 'Unknown stage';
+  const selectedRuleType = GUARD_RULE_TYPES.find((type) => type.value === guardRuleForm.rule_type);
+
+  return (
+    <>
+      <div className="bg-card rounded-xl border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Production Stages</h3>
+            <p className="text-sm text-muted-foreground">
+              New batches start in the first stage. Terminal stages mark a batch as finished.
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setStageForm(emptyStageForm)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stage
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {pipeline.stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}</span>
+                <Badge variant={getStageColor(stage)}>{stage.name}</Badge>
+                <span className="text-xs font-mono text-muted-foreground truncate">{stage.key}</span>
+                {stage.is_terminal && (
+                  <span className="text-xs px-2 py-0.5 bg-background rounded-md">Terminal</span>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0 || moveStageMutation.isPending}
+                    onClick={() => moveStageMutation.mutate({ stage, neighbor: pipeline.stages[index - 1] })}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === pipeline.stages.length - 1 || moveStageMutation.isPending}
+                    onClick={() => moveStageMutation.mutate({ stage, neighbor: pipeline.stages[index + 1] })}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setStageForm({
+                      id: stage.id,
+                      name: stage.name,
+                      color: getStageColor(stage),
+                      is_terminal: stage.is_terminal,
+                    })}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setStageToDelete(stage)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!canEdit && (
+          <p className="text-xs text-muted-foreground mt-4">
+            Only organization owners or admins can change the production pipeline.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-card rounded-xl border p-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold">Transitions</h3>
+          <p className="text-sm text-muted-foreground">
+            Each transition becomes a button on the batch. Add several from one stage to branch the pipeline.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {pipeline.transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transitions yet.</p>
+          ) : (
+            pipeline.stages.flatMap((stage) =>
+              pipeline.getTransitions(stage.key).map((transition) => (
+                <div key={transition.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {pipeline.getTransitions(stage.key).length > 1 && (
+                      <GitBranch className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="font-medium">{stage.name}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{transition.nextStage.name}</span>
+                    <span className="text-muted-foreground truncate">“{transition.label}”</span>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={deleteTransitionMutation.isPending}
+                      onClick={() => deleteTransitionMutation.mutate(transition.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )
+          )}
+        </div>
+
+        {canEdit && pipeline.stages.length > 1 && (
+          <form onSubmit={handleAddTransition} className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr_auto] items-end mt-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select
+                value={transitionForm.from_stage_id}
+                onValueChange={(value) => setTransitionForm({ ...transitionForm, from_stage_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipeline.stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select
+                value={transitionForm.to_stage_id}
+                onValueChange={(value) => setTransitionForm({
+                  ...transitionForm,
+                  to_stage_id: value,
+                  label: transitionForm.label || `Move to ${stageName(value)}`,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipeline.stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transition-label">Button Label</Label>
+              <Input
+                id="transition-label"
+                value={transitionForm.label}
+                onChange={(e) => setTransitionForm({ ...transitionForm, label: e.target.value })}
+                placeholder="Start Carbonation"
+              />
+            </div>
+            <Button type="submit" disabled={addTransitionMutation.isPending}>
+              {addTransitionMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-card rounded-xl border p-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold">Guard Rules</h3>
+          <p className="text-sm text-muted-foreground">
+            Conditions a batch must meet before it can move forward into a stage. Moving a batch back is never blocked.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {pipeline.guardRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No guard rules yet.</p>
+          ) : (
+            pipeline.stages.flatMap((stage) =>
+              pipeline.getGuardRules(stage.key).map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">Entering</span>
+                    <span className="font-medium">{stage.name}</span>
+                    <span className="text-muted-foreground">requires</span>
+                    <span className="truncate">{describeGuardRule(rule)}</span>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={deleteGuardRuleMutation.isPending}
+                      onClick={() => deleteGuardRuleMutation.mutate(rule.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )
+          )}
+        </div>
+
+        {canEdit && pipeline.stages.length > 0 && (
+          <form onSubmit={handleAddGuardRule} className="grid gap-3 sm:grid-cols-[1fr_1fr_8rem_auto] items-end mt-4">
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select
+                value={guardRuleForm.stage_id}
+                onValueChange={(value) => setGuardRuleForm({ ...guardRuleForm, stage_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipeline.stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rule</Label>
+              <Select
+                value={guardRuleForm.rule_type}
+                onValueChange={(value) => {
+                  const ruleType = GUARD_RULE_TYPES.find((type) => type.value === value);
+                  setGuardRuleForm({
+                    ...guardRuleForm,
+                    rule_type: value as GuardRuleType,
+                    threshold: ruleType?.defaultThreshold ?? '',
+                  });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GUARD_RULE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-threshold">{selectedRuleType?.thresholdLabel ?? 'Threshold'}</Label>
+              <Input
+                id="rule-threshold"
+                type="number"
+                min="1"
+                step="1"
+                disabled={!selectedRuleType?.thresholdLabel}
+                value={selectedRuleType?.thresholdLabel ? guardRuleForm.threshold : ''}
+                onChange={(e) => setGuardRuleForm({
+                  ...guardRuleForm,
+                  threshold: e.target.value === '' ? '' : Number(e.target.value),
+                })}
+              />
+            </div>
+            <Button type="submit" disabled={addGuardRuleMutation.isPending}>
+              {addGuardRuleMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {/* Add / Edit Stage Dialog */}
+      <Dialog open={Boolean(stageForm)} onOpenChange={(open) => !open && setStageForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{stageForm?.id ? 'Edit Stage' : 'Add Stage'}</DialogTitle>
+            <DialogDescription>
+              {stageForm?.id
+                ? 'Renaming a stage keeps every batch in it.'
+                : 'The stage is added to the end of the pipeline. Connect it with a transition afterwards.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {stageForm && (
+            <form onSubmit={handleSaveStage} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="stage-name">Name</Label>
+                <Input
+                  id="stage-name"
+                  value={stageForm.name}
+                  onChange={(e) => setStageForm({ ...stageForm, name: e.target.value })}
+                  placeholder="Malolactic"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Badge Style</Label>
+                <Select
+                  value={stageForm.color}
+                  onValueChange={(value) => setStageForm({ ...stageForm, color: value as StageColor })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STAGE_COLORS.map((color) => (
+                      <SelectItem key={color.value} value={color.value}>
+                        <Badge variant={color.value}>{color.label}</Badge>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="stage-terminal">Terminal stage</Label>
+                  <p className="text-xs text-muted-foreground">Batches here count as finished.</p>
+                </div>
+                <Switch
+                  id="stage-terminal"
+                  checked={stageForm.is_terminal}
+                  onCheckedChange={(checked) => setStageForm({ ...stageForm, is_terminal: checked })}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setStageForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveStageMutation.isPending}>
+                  {saveStageMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Stage'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Stage Confirmation */}
+      <AlertDialog open={Boolean(stageToDelete)} onOpenChange={(open) => !open && setStageToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {stageToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transitions into and out of this stage are removed too. Stages that still hold batches can't be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteStageMutation.isPending}
+              onClick={() => stageToDelete && deleteStageMutation.mutate(stageToDelete)}
+            >
+              Delete Stage
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Copy, Loader2, Mail, RefreshCw, Send, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { addDays, formatDistanceToNow } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import {
+  INVITATION_VALIDITY_DAYS,
+  INVITE_ROLES,
+  getInvitationUrl,
+  isInvitationExpired,
+  sendInvitationEmail,
+  type InviteRole,
+  type OrganizationInvitation,
+} from '@/lib/invitations';
+
+// Zod validation schema
+const inviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address").max(255, "Email must be less than 255 characters"),
+  role: z.enum(['admin', 'member']),
+});
+
+interface TeamInvitationsProps {
+  organizationId: string;
+  userId: string;
+  canInvite: boolean;
+}
+
+export function TeamInvitations({ organizationId, userId, canInvite }: TeamInvitationsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showInviteForm, setShowInviteForm] = useState(false);
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: InviteRole }>({ email: '', role: 'member' });
+
+  const {
+    data: invitations = [],
+  } = useQuery<OrganizationInvitation[]>({
+    queryKey: ['organization-invitations', organizationId],
+    enabled: canInvite,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // The invitation row is kept even if the email fails so the link can still be shared by hand
+  const notifyEmailFailure = (invitation: OrganizationInvitation, error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title: 'Invitation saved, but the email failed',
+      description: `${error instanceof Error ? error.message : 'Unknown error'}. Copy the invite link and send it to ${invitation.email} yourself.`,
+    });
+  };
+
+  const createInvitationMutation = useMutation<OrganizationInvitation, Error & { code?: string }, { email: string; role: InviteRole }>({
+    mutationFn: async ({ email, role }) => {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .insert({ organization_id: organizationId, email, role, invited_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`An invitation for ${email} is already pending.`);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: async (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organizationId] });
+      setShowInviteForm(false);
+      setInviteForm({ email: '', role: 'member' });
+
+      try {
+        await sendInvitationEmail(invitation.email, invitation.token);
+        toast({
+          title: 'Invitation sent!',
+          description: `${invitation.email} will receive a link to join as ${invitation.role}.`,
+        });
+      } catch (error) {
+        notifyEmailFailure(invitation, error);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error sending invitation',
+        description: error.message,
+      });
+    },
+  });
+
+  // Resending issues a fresh token so an old, possibly forwarded link stops working
+  const resendInvitationMutation = useMutation<OrganizationInvitation, Error, OrganizationInvitation>({
+    mutationFn: async (invitation) => {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .update({
+          token: crypto.randomUUID(),
+          expires_at: addDays(new Date(), INVITATION_VALIDITY_DAYS).toISOString(),
+        })
+        .eq('id', invitation.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: async (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organizationId] });
+
+      try {
+        await sendInvitationEmail(invitation.email, invitation.token);
+        toast({
+          title: 'Invitation resent!',
+          description: `A new link is on its way to ${invitation.email}.`,
+        });
+      } catch (error) {
+        notifyEmailFailure(invitation, error);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error resending invitation',
+        description: error.message,
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation<OrganizationInvitation, Error, OrganizationInvitation>({
+    mutationFn: async (invitation) => {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organizationId] });
+      toast({
+        title: 'Invitation revoked',
+        description: `The link sent to ${invitation.email} no longer works.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error revoking invitation',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = inviteSchema.safeParse(inviteForm);
+
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    createInvitationMutation.mutate(validation.data as { email: string; role: InviteRole });
+  }
+
+  async function copyInviteLink(invitation: OrganizationInvitation) {
+    try {
+      await navigator.clipboard.writeText(getInvitationUrl(invitation.token));
+      toast({
+        title: 'Link copied!',
+        description: `Send it to ${invitation.email} to join your organization.`,
+      });
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Could not copy the link to your clipboard.',
+      });
+    }
+  }
+
+  if (!canInvite) {
+    return (
+      <p className="text-xs text-muted-foreground mt-4">
+        Only organization owners or admins can invite team members.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {invitations.length > 0 && (
+        <div className="space-y-3 mt-6">
+          <h4 className="text-sm font-semibold">Pending Invitations</h4>
+          {invitations.map((invitation) => {
+            const expired = isInvitationExpired(invitation);
+            return (
+              <div key={invitation.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{invitation.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {expired
+                        ? 'Expired'
+                        : `Expires ${formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <Badge variant={expired ? 'destructive' : 'outline'} className="capitalize">
+                    {invitation.role}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Copy invite link"
+                    disabled={expired}
+                    onClick={() => copyInviteLink(invitation)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Resend invitation"
+                    disabled={resendInvitationMutation.isPending}
+                    onClick={() => resendInvitationMutation.mutate(invitation)}
+                  >
+                    {resendInvitationMutation.isPending && resendInvitationMutation.variables?.id === invitation.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke invitation"
+                    disabled={revokeInvitationMutation.isPending}
+                    onClick={() => revokeInvitationMutation.mutate(invitation)}
+                  >
+                    <X className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" className="w-full mt-4" onClick={() => setShowInviteForm(true)}>
+        <Users className="h-4 w-4 mr-2" />
+        Invite Team Member
+      </Button>
+
+      {/* Invite Dialog */}
+      <Dialog open={showInviteForm} onOpenChange={setShowInviteForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Team Member</DialogTitle>
+            <DialogDescription>
+              They'll get an email with a link to join. The link expires after {INVITATION_VALIDITY_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                placeholder="colleague@cidery.com"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={inviteForm.role}
+                onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as InviteRole })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITE_ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label} — {role.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowInviteForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createInvitationMutation.isPending}>
+                {createInvitationMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Sending...
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4 mr-2" />
+                    Send Invitation
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Crown, Loader2, UserMinus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel,
+  AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { MemberAvatar } from '@/components/members/MemberAvatar';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import type { MemberRole } from '@/hooks/use-organization';
+import { INVITE_ROLES, type InviteRole } from '@/lib/invitations';
+import { getDisplayName, type MemberWithProfile } from '@/lib/profiles';
+import { ROLE_LABELS, canManageMember } from '@/lib/roles';
+
+interface TeamMembersProps {
+  organizationId: string;
+  userId: string;
+  role: MemberRole | null | undefined;
+  canManageMembers: boolean;
+}
+
+export function TeamMembers({ organizationId, userId, role, canManageMembers }: TeamMembersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { members, isLoading } = useOrganizationMembers(organizationId);
+
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [newOwnerId, setNewOwnerId] = useState('');
+
+  const transferCandidates = members.filter((member) => member.user_id !== userId);
+
+  // RLS filters out rows the user may not touch instead of raising, so an empty result means "not allowed"
+  const updateRoleMutation = useMutation<MemberWithProfile, Error, { member: MemberWithProfile; role: InviteRole }>({
+    mutationFn: async ({ member, role }) => {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('id', member.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error("You don't have permission to change this member's role.");
+      return member;
+    },
+    onSuccess: (member, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+      toast({
+        title: 'Role updated',
+        description: `${getDisplayName(member.profiles)} is now ${role === 'admin' ? 'an admin' : 'a member'}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating role',
+        description: error.message,
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation<MemberWithProfile, Error, MemberWithProfile>({
+    mutationFn: async (member) => {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', member.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error("You don't have permission to remove this member.");
+      return member;
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+      toast({
+        title: 'Member removed',
+        description: `${getDisplayName(member.profiles)} no longer has access to this organization.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error removing member',
+        description: error.message,
+      });
+    },
+  });
+
+  const transferOwnershipMutation = useMutation<MemberWithProfile, Error, MemberWithProfile>({
+    mutationFn: async (member) => {
+      const { error } = await supabase.rpc('transfer_organization_ownership', {
+        org_id: organizationId,
+        new_owner_id: member.user_id,
+      });
+
+      if (error) throw error;
+      return member;
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['organization-memberships'] });
+      setShowTransferForm(false);
+      setNewOwnerId('');
+      toast({
+        title: 'Ownership transferred',
+        description: `${getDisplayName(member.profiles)} now owns this organization. You remain an admin.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error transferring ownership',
+        description: error.message,
+      });
+    },
+  });
+
+  function transferOwnership() {
+    const member = transferCandidates.find((candidate) => candidate.user_id === newOwnerId);
+
+    if (!member) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: 'Choose the member who should become the new owner.',
+      });
+      return;
+    }
+
+    transferOwnershipMutation.mutate(member);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No team members yet. Invite colleagues to collaborate.
+          </p>
+        ) : (
+          members.map((member) => {
+            const canManage = canManageMember({ userId, role, canManageMembers }, member);
+            const memberName = getDisplayName(member.profiles);
+
+            return (
+              <div key={member.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <MemberAvatar profile={member.profiles} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {memberName}
+                      {member.user_id === userId && (
+                        <span className="text-muted-foreground font-normal"> (you)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[member.profiles?.job_title, member.profiles?.full_name ? member.profiles.email : null]
+                        .filter(Boolean)
+                        .join(' · ') || 'No job title'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Joined {format(new Date(member.created_at), 'PP')}
+                      {' · '}
+                      {member.profiles?.last_active_at
+                        ? `Active ${formatDistanceToNow(new Date(member.profiles.last_active_at), { addSuffix: true })}`
+                        : 'Never signed in'}
+                    </p>
+                  </div>
+                </div>
+
+                {canManage ? (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={member.role}
+                      disabled={updateRoleMutation.isPending}
+                      onValueChange={(value) => updateRoleMutation.mutate({ member, role: value as InviteRole })}
+                    >
+                      <SelectTrigger className="h-8 w-[110px] bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITE_ROLES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" title="Remove member">
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove {memberName}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            They will lose access to every batch in this organization. Their readings and notes stay in place.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            onClick={() => removeMemberMutation.mutate(member)}
+                          >
+                            Remove
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                ) : (
+                  <span className="text-xs px-2 py-1 bg-background rounded-md capitalize">
+                    {member.role}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {role === 'owner' && transferCandidates.length > 0 && (
+        <Button variant="outline" className="w-full mt-4" onClick={() => setShowTransferForm(true)}>
+          <Crown className="h-4 w-4 mr-2" />
+          Transfer Ownership
+        </Button>
+      )}
+
+      {/* Transfer Ownership Dialog */}
+      <Dialog open={showTransferForm} onOpenChange={setShowTransferForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer Ownership</DialogTitle>
+            <DialogDescription>
+              The new owner gets full control, including deleting the organization. You'll stay on as an admin.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>New owner</Label>
+            <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {transferCandidates.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {getDisplayName(member.profiles)} ({ROLE_LABELS[member.role as MemberRole] ?? member.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setShowTransferForm(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!newOwnerId || transferOwnershipMutation.isPending}
+              onClick={transferOwnership}
+            >
+              {transferOwnershipMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Transferring...
+                </>
+              ) : (
+                'Transfer Ownership'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
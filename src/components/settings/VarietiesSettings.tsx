@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Apple, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useVarieties } from '@/hooks/use-varieties';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  VARIETY_CLASSES,
+  getVarietyClassLabel,
+  normalizeVarietyName,
+  varietySchema,
+  type Variety,
+  type VarietyClass,
+} from '@/lib/varieties';
+
+type VarietyFormState = {
+  id: string | null;
+  name: string;
+  // 'unknown' stands in for NULL, since Select values can't be empty strings
+  variety_class: VarietyClass | 'unknown';
+  notes: string;
+};
+
+const emptyVarietyForm: VarietyFormState = { id: null, name: '', variety_class: 'unknown', notes: '' };
+
+interface VarietiesSettingsProps {
+  organizationId: string;
+  userId: string | undefined;
+  canEdit: boolean;
+}
+
+export function VarietiesSettings({ organizationId, userId, canEdit }: VarietiesSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { varieties, isLoading } = useVarieties(organizationId);
+
+  const [varietyForm, setVarietyForm] = useState<VarietyFormState | null>(null);
+  const [varietyToDelete, setVarietyToDelete] = useState<Variety | null>(null);
+
+  // Renames reach batches through a trigger, so their cached names are stale too
+  const invalidateVarieties = () => {
+    queryClient.invalidateQueries({ queryKey: ['varieties', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['batch'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error.message,
+    });
+  };
+
+  const saveVarietyMutation = useMutation<void, Error, { id: string | null; name: string; variety_class: VarietyClass | null; notes: string }>({
+    mutationFn: async ({ id, name, variety_class, notes }) => {
+      const fields = { name, variety_class, notes: notes || null };
+      const { error } = id
+        ? await supabase.from('varieties').update(fields).eq('id', id)
+        : await supabase.from('varieties').insert({ ...fields, organization_id: organizationId, created_by: userId });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('A variety with this name already exists.');
+        throw error;
+      }
+    },
+    onSuccess: (_data, variables) => {
+      invalidateVarieties();
+      setVarietyForm(null);
+      toast({
+        title: variables.id ? 'Variety updated!' : 'Variety added!',
+        description: variables.id
+          ? `Batches of ${variables.name} now show the changes.`
+          : `${variables.name} can now be picked for batches.`,
+      });
+    },
+    onError: showError('Error saving variety'),
+  });
+
+  const deleteVarietyMutation = useMutation<Variety, Error, Variety>({
+    mutationFn: async (variety) => {
+      const { error } = await supabase
+        .from('varieties')
+        .delete()
+        .eq('id', variety.id);
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('Batches, including ones in the trash, or fruit intake lots still use this variety.');
+        }
+        throw error;
+      }
+      return variety;
+    },
+    onSuccess: (variety) => {
+      invalidateVarieties();
+      toast({
+        title: 'Variety deleted',
+        description: `${variety.name} has been removed from the catalog.`,
+      });
+    },
+    onError: showError('Error deleting variety'),
+    onSettled: () => setVarietyToDelete(null),
+  });
+
+  function handleSaveVariety(e: React.FormEvent) {
+    e.preventDefault();
+    if (!varietyForm) return;
+
+    // Validate input using Zod
+    const validation = varietySchema.safeParse({
+      name: normalizeVarietyName(varietyForm.name),
+      variety_class: varietyForm.variety_class === 'unknown' ? null : varietyForm.variety_class,
+      notes: varietyForm.notes,
+    });
+
+    if (!validation.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: validation.error.errors[0].message,
+      });
+      return;
+    }
+
+    saveVarietyMutation.mutate({
+      id: varietyForm.id,
+      name: validation.data.name,
+      variety_class: validation.data.variety_class,
+      notes: validation.data.notes,
+    });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-card rounded-xl border p-6 space-y-3">
+        <Skeleton className="h-6 w-40" />
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-card rounded-xl border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Apple Varieties</h3>
+            <p className="text-sm text-muted-foreground">
+              Batches pick their variety from this list, so every batch of a variety is spelled the same.
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setVarietyForm(emptyVarietyForm)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variety
+            </Button>
+          )}
+        </div>
+
+        {varieties.length === 0 ? (
+          <div className="p-6 text-center">
+            <Apple className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No varieties yet. They are added here or when creating a batch.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {varieties.map((variety) => (
+              <div key={variety.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{variety.name}</span>
+                    {variety.variety_class && (
+                      <Badge variant="outline">{getVarietyClassLabel(variety.variety_class)}</Badge>
+                    )}
+                  </div>
+                  {variety.notes && <p className="text-xs text-muted-foreground truncate">{variety.notes}</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setVarietyForm({
+                        id: variety.id,
+                        name: variety.name,
+                        variety_class: (variety.variety_class as VarietyClass | null) ?? 'unknown',
+                        notes: variety.notes ?? '',
+                      })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setVarietyToDelete(variety)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Variety Dialog */}
+      <Dialog open={Boolean(varietyForm)} onOpenChange={(open) => !open && setVarietyForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{varietyForm?.id ? 'Edit Variety' : 'Add Variety'}</DialogTitle>
+            <DialogDescription>
+              {varietyForm?.id
+                ? 'Renaming a variety renames it on every batch and blend that uses it.'
+                : 'Names are compared without regard to case, so each variety is only added once.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {varietyForm && (
+            <form onSubmit={handleSaveVariety} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="variety-name">Name</Label>
+                <Input
+                  id="variety-name"
+                  value={varietyForm.name}
+                  onChange={(e) => setVarietyForm({ ...varietyForm, name: e.target.value })}
+                  placeholder="Dabinett"
+                  maxLength={100}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="variety-class">Class</Label>
+                <Select
+                  value={varietyForm.variety_class}
+                  onValueChange={(value) => setVarietyForm({ ...varietyForm, variety_class: value as VarietyClass | 'unknown' })}
+                >
+                  <SelectTrigger id="variety-class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unknown">Not set</SelectItem>
+                    {VARIETY_CLASSES.map((varietyClass) => (
+                      <SelectItem key={varietyClass.value} value={varietyClass.value}>{varietyClass.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {varietyForm.variety_class !== 'unknown' && (
+                  <p className="text-xs text-muted-foreground">
+                    {VARIETY_CLASSES.find((varietyClass) => varietyClass.value === varietyForm.variety_class)?.description}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="variety-notes">Notes (optional)</Label>
+                <Textarea
+                  id="variety-notes"
+                  value={varietyForm.notes}
+                  onChange={(e) => setVarietyForm({ ...varietyForm, notes: e.target.value })}
+                  placeholder="Orchard, typical Brix, how it ferments..."
+                  maxLength={1000}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setVarietyForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveVarietyMutation.isPending}>
+                  {saveVarietyMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Variety'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Variety Confirmation */}
+      <AlertDialog open={Boolean(varietyToDelete)} onOpenChange={(open) => !open && setVarietyToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {varietyToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Varieties that batches or fruit intake lots still use can't be deleted. Rename it instead to fix a spelling.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteVarietyMutation.isPending}
+              onClick={() => varietyToDelete && deleteVarietyMutation.mutate(varietyToDelete)}
+            >
+              Delete Variety
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
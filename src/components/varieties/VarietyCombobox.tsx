@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, ChevronsUpDown, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useVarieties } from '@/hooks/use-varieties';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+import { getVarietyClassLabel, normalizeVarietyName, varietySchema, type Variety } from '@/lib/varieties';
+
+interface VarietyComboboxProps {
+  id?: string;
+  organizationId: string;
+  userId: string | undefined;
+  /** Selected variety id, or '' */
+  value: string;
+  onChange: (variety: Variety) => void;
+  /** Offer to add a name that isn't in the catalog yet */
+  canCreate?: boolean;
+  disabled?: boolean;
+}
+
+export function VarietyCombobox({
+  id,
+  organizationId,
+  userId,
+  value,
+  onChange,
+  canCreate = false,
+  disabled = false,
+}: VarietyComboboxProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { varieties, getVariety } = useVarieties(organizationId);
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const selected = getVariety(value);
+  const searchName = normalizeVarietyName(search);
+  const exactMatch = varieties.find((variety) => variety.name.toLowerCase() === searchName.toLowerCase());
+
+  function select(variety: Variety) {
+    onChange(variety);
+    setOpen(false);
+    setSearch('');
+  }
+
+  const createVarietyMutation = useMutation<Variety, Error, string>({
+    mutationFn: async (name) => {
+      const { data, error } = await supabase
+        .from('varieties')
+        .insert({ organization_id: organizationId, name, created_by: userId })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`${name} is already in the catalog.`);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (variety) => {
+      queryClient.setQueryData<Variety[]>(['varieties', organizationId], (old) =>
+        [...(old ?? []), variety].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      select(variety);
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error adding variety',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleCreate() {
+    // Validate input using Zod
+    const validation = varietySchema.pick({ name: true }).safeParse({ name: searchName });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    createVarietyMutation.mutate(validation.data.name);
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn('truncate', !selected && 'text-muted-foreground')}>
+            {selected ? selected.name : 'Choose a variety'}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search varieties..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>
+              {canCreate ? 'No match in the catalog.' : 'No match in the catalog. Ask an admin to add it.'}
+            </CommandEmpty>
+            <CommandGroup>
+              {varieties.map((variety) => (
+                <CommandItem
+                  key={variety.id}
+                  value={variety.id}
+                  keywords={[variety.name]}
+                  onSelect={() => select(variety)}
+                >
+                  <Check className={cn('h-4 w-4 mr-2', variety.id === value ? 'opacity-100' : 'opacity-0')} />
+                  <span className="flex-1 truncate">{variety.name}</span>
+                  {variety.variety_class && (
+                    <span className="text-xs text-muted-foreground">{getVarietyClassLabel(variety.variety_class)}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {canCreate && searchName && !exactMatch && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  value={`create:${searchName}`}
+                  keywords={[searchName]}
+                  disabled={createVarietyMutation.isPending}
+                  onSelect={handleCreate}
+                  forceMount
+                >
+                  {createVarietyMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  Add "{searchName}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  VESSEL_MATERIALS,
+  VESSEL_TYPES,
+  vesselSchema,
+  type Vessel,
+  type VesselMaterial,
+  type VesselType,
+} from '@/lib/vessels';
+
+type VesselFormState = {
+  name: string;
+  vessel_type: VesselType;
+  capacity: number | '';
+  material: VesselMaterial | 'none';
+  location: string;
+  notes: string;
+};
+
+const toFormState = (vessel?: Vessel | null): VesselFormState => ({
+  name: vessel?.name ?? '',
+  vessel_type: (vessel?.vessel_type as VesselType) ?? 'tank',
+  capacity: vessel ? Number(vessel.capacity) : '',
+  material: (vessel?.material as VesselMaterial) ?? 'none',
+  location: vessel?.location ?? '',
+  notes: vessel?.notes ?? '',
+});
+
+interface VesselFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  userId: string;
+  /** Vessel to edit; a new one is created when omitted */
+  vessel?: Vessel | null;
+  /** Locations already in use, offered as suggestions */
+  locations: string[];
+}
+
+export function VesselFormDialog({ open, onOpenChange, organizationId, userId, vessel, locations }: VesselFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<VesselFormState>(() => toFormState(vessel));
+
+  useEffect(() => {
+    if (open) setForm(toFormState(vessel));
+  }, [open, vessel]);
+
+  const saveVesselMutation = useMutation<Vessel, Error, Omit<TablesInsert<'vessels'>, 'organization_id'>>({
+    mutationFn: async (payload) => {
+      const query = vessel
+        ? supabase.from('vessels').update(payload).eq('id', vessel.id)
+        : supabase.from('vessels').insert([{ ...payload, organization_id: organizationId, created_by: userId }]);
+      const { data, error } = await query.select().single();
+
+      // Unique (organization_id, name)
+      if (error?.code === '23505') throw new Error(`A vessel named "${payload.name}" already exists.`);
+      if (error) throw error;
+      return data as Vessel;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['vessels', organizationId] });
+      onOpenChange(false);
+      toast({
+        title: vessel ? 'Vessel updated!' : 'Vessel added!',
+        description: vessel ? 'Changes have been saved.' : `${data.name} is now on the cellar map.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: vessel ? 'Error updating vessel' : 'Error adding vessel',
+        description: error.message,
+      });
+    },
+  });
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Validate input using Zod
+    const validation = vesselSchema.safeParse({
+      ...form,
+      capacity: form.capacity === '' ? undefined : form.capacity,
+      material: form.material === 'none' ? null : form.material,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    saveVesselMutation.mutate({
+      name: validation.data.name,
+      vessel_type: validation.data.vessel_type,
+      capacity: validation.data.capacity,
+      material: validation.data.material,
+      location: validation.data.location || null,
+      notes: validation.data.notes || null,
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{vessel ? `Edit ${vessel.name}` : 'Add Vessel'}</DialogTitle>
+          <DialogDescription>
+            Tanks, barrels, IBCs and carboys batches can be assigned to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vessel-name">Name</Label>
+            <Input
+              id="vessel-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., Tank 3"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vessel-type">Type</Label>
+              <Select value={form.vessel_type} onValueChange={(value) => setForm({ ...form, vessel_type: value as VesselType })}>
+                <SelectTrigger id="vessel-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VESSEL_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="vessel-capacity">Capacity (L)</Label>
+              <Input
+                id="vessel-capacity"
+                type="number"
+                step="0.1"
+                min="0"
+                value={form.capacity}
+                onChange={(e) => setForm({ ...form, capacity: e.target.value ? parseFloat(e.target.value) : '' })}
+                placeholder="e.g., 1000"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vessel-material">Material</Label>
+              <Select value={form.material} onValueChange={(value) => setForm({ ...form, material: value as VesselFormState['material'] })}>
+                <SelectTrigger id="vessel-material">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not specified</SelectItem>
+                  {VESSEL_MATERIALS.map((material) => (
+                    <SelectItem key={material.value} value={material.value}>{material.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="vessel-location">Location</Label>
+              <Input
+                id="vessel-location"
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                placeholder="e.g., Cellar A"
+                list="vessel-locations"
+                maxLength={100}
+              />
+              <datalist id="vessel-locations">
+                {locations.map((location) => (
+                  <option key={location} value={location} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vessel-notes">Notes</Label>
+            <Textarea
+              id="vessel-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveVesselMutation.isPending}>
+              {saveVesselMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : vessel ? (
+                'Save Changes'
+              ) : (
+                'Add Vessel'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Names of every batch in the organization by ID, including batches in the trash,
+ * for screens that reference batches other than the ones they load.
+ */
+export function useBatchNames(organizationId: string | null | undefined) {
+  const {
+    data: batchNames = new Map<string, string>(),
+    isLoading,
+  } = useQuery<Map<string, string>>({
+    queryKey: ['batch-names', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return new Map();
+      const { data, error } = await supabase
+        .from('batches')
+        .select('id, name')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return new Map((data ?? []).map((batch) => [batch.id, batch.name]));
+    },
+  });
+
+  return { batchNames, isLoading: Boolean(organizationId) && isLoading };
+}
@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getDisplayName, type MemberWithProfile } from '@/lib/profiles';
+
+/**
+ * Loads the organization's members with their profiles.
+ * Screens that show who created or changed something resolve user IDs through `getMemberName`.
+ */
+export function useOrganizationMembers(organizationId: string | null | undefined) {
+  const {
+    data: members = [],
+    isLoading,
+    error,
+  } = useQuery<MemberWithProfile[]>({
+    queryKey: ['organization-members', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('*, profiles(*)')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const profilesById = useMemo(
+    () => new Map(members.map((member) => [member.user_id, member.profiles])),
+    [members]
+  );
+
+  const getProfile = useCallback(
+    (userId: string | null | undefined) => (userId ? profilesById.get(userId) ?? null : null),
+    [profilesById]
+  );
+
+  // People who have since left the organization no longer have a visible profile
+  const getMemberName = useCallback(
+    (userId: string | null | undefined) => {
+      if (!userId) return null;
+      const profile = profilesById.get(userId);
+      return profile ? getDisplayName(profile) : 'Former member';
+    },
+    [profilesById]
+  );
+
+  return {
+    members,
+    getProfile,
+    getMemberName,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
@@ -0,0 +1,99 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { User } from '@supabase/supabase-js';
+import { getStoredOrganizationId, storeActiveOrganizationId, type Organization } from '@/lib/organizations';
+
+export type MemberRole = 'owner' | 'admin' | 'member';
+
+export type OrganizationMembership = {
+  organization_id: string;
+  role: MemberRole;
+  organizations: Organization;
+};
+
+/**
+ * Loads the signed-in user, every organization they belong to and the one they are working in.
+ * All organization-scoped queries key off `organizationId`, so switching refetches everything.
+ */
+export function useOrganization() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: user,
+    isLoading: userLoading,
+    error: userError,
+  } = useQuery<User | null>({
+    queryKey: ['auth-user'],
+    queryFn: async () => {
+      const { data, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return data.user;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const {
+    data: memberships = [],
+    isLoading: membershipsLoading,
+    error: membershipsError,
+  } = useQuery<OrganizationMembership[]>({
+    queryKey: ['organization-memberships', user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: async () => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('organization_id, role, organizations(*)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data ?? []).map((row) => ({
+        organization_id: row.organization_id,
+        role: row.role as MemberRole,
+        organizations: row.organizations as Organization,
+      }));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Kept in the query cache so every component sees a switch immediately
+  const {
+    data: storedOrganizationId,
+    isLoading: storedOrganizationLoading,
+  } = useQuery<string | null>({
+    queryKey: ['active-organization', user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => (user?.id ? getStoredOrganizationId(user.id) : null),
+    staleTime: Infinity,
+  });
+
+  // Fall back to the oldest membership when nothing is stored or the stored org was left
+  const membership =
+    memberships.find((candidate) => candidate.organization_id === storedOrganizationId) ??
+    memberships[0] ??
+    null;
+
+  const switchOrganization = useCallback(
+    (organizationId: string) => {
+      if (!user?.id) return;
+      storeActiveOrganizationId(user.id, organizationId);
+      queryClient.setQueryData(['active-organization', user.id], organizationId);
+    },
+    [queryClient, user?.id]
+  );
+
+  return {
+    user: user ?? null,
+    memberships,
+    membership,
+    organization: membership?.organizations ?? null,
+    organizationId: membership?.organization_id ?? null,
+    role: membership?.role ?? null,
+    switchOrganization,
+    isLoading: userLoading || (Boolean(user?.id) && (membershipsLoading || storedOrganizationLoading)),
+    error: userError ?? membershipsError,
+  };
+}
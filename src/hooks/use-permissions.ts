@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { MemberRole } from '@/hooks/use-organization';
+import type { Capability } from '@/lib/roles';
+
+/**
+ * Loads what the given role may do. The database enforces the same matrix through
+ * `has_permission`, so this only decides which actions to show.
+ */
+export function usePermissions(role: MemberRole | null | undefined) {
+  const {
+    data: capabilities = [],
+    isLoading,
+  } = useQuery<string[]>({
+    queryKey: ['role-permissions', role],
+    enabled: Boolean(role),
+    queryFn: async () => {
+      if (!role) return [];
+      const { data, error } = await supabase
+        .from('role_permissions')
+        .select('capability')
+        .eq('role', role);
+
+      if (error) throw error;
+      return (data ?? []).map((row) => row.capability);
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const granted = useMemo(() => new Set(capabilities), [capabilities]);
+
+  const can = useCallback((capability: Capability) => granted.has(capability), [granted]);
+
+  return {
+    can,
+    isLoading: Boolean(role) && isLoading,
+  };
+}
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildStagePipeline,
+  type ProductionStage,
+  type ProductionStageTransition,
+  type StageGuardRule,
+} from '@/lib/stages';
+
+type StageDefinition = {
+  stages: ProductionStage[];
+  transitions: ProductionStageTransition[];
+  guardRules: StageGuardRule[];
+};
+
+/**
+ * Loads the organization's configured stage pipeline.
+ * Every screen that shows or changes a batch stage reads it from here.
+ */
+export function useProductionStages(organizationId: string | null | undefined) {
+  const {
+    data,
+    isLoading,
+  } = useQuery<StageDefinition>({
+    queryKey: ['production-stages', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return { stages: [], transitions: [], guardRules: [] };
+      const [stagesResult, transitionsResult, rulesResult] = await Promise.all([
+        supabase
+          .from('production_stages')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .order('position', { ascending: true }),
+        supabase
+          .from('production_stage_transitions')
+          .select('*')
+          .eq('organization_id', organizationId),
+        supabase
+          .from('stage_guard_rules')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (stagesResult.error) throw stagesResult.error;
+      if (transitionsResult.error) throw transitionsResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+
+      return {
+        stages: stagesResult.data ?? [],
+        transitions: transitionsResult.data ?? [],
+        guardRules: rulesResult.data ?? [],
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const pipeline = useMemo(
+    () => buildStagePipeline(data?.stages ?? [], data?.transitions ?? [], data?.guardRules ?? []),
+    [data]
+  );
+
+  return {
+    pipeline,
+    isLoading: Boolean(organizationId) && isLoading,
+  };
+}
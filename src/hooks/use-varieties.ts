@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Variety } from '@/lib/varieties';
+
+/** Loads the organization's apple variety catalog, alphabetically. */
+export function useVarieties(organizationId: string | null | undefined) {
+  const {
+    data: varieties = [],
+    isLoading,
+  } = useQuery<Variety[]>({
+    queryKey: ['varieties', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('varieties')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const byId = useMemo(() => new Map(varieties.map((variety) => [variety.id, variety])), [varieties]);
+
+  const getVariety = useCallback(
+    (varietyId: string | null | undefined) => (varietyId ? byId.get(varietyId) : undefined),
+    [byId]
+  );
+
+  return {
+    varieties,
+    getVariety,
+    isLoading: Boolean(organizationId) && isLoading,
+  };
+}
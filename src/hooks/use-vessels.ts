@@ -0,0 +1,76 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Vessel, VesselContent } from '@/lib/vessels';
+
+/**
+ * Loads the organization's vessels, ordered by location and name like the cellar map,
+ * together with what each of them holds according to the volume ledger.
+ */
+export function useVessels(organizationId: string | null | undefined) {
+  const {
+    data: vessels = [],
+    isLoading,
+  } = useQuery<Vessel[]>({
+    queryKey: ['vessels', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('vessels')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('location', { ascending: true, nullsFirst: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: contents = [],
+    isLoading: contentsLoading,
+  } = useQuery<VesselContent[]>({
+    queryKey: ['vessel-contents', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('vessel_contents')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const byId = useMemo(() => new Map(vessels.map((vessel) => [vessel.id, vessel])), [vessels]);
+
+  const getVessel = useCallback(
+    (vesselId: string | null | undefined) => (vesselId ? byId.get(vesselId) : undefined),
+    [byId]
+  );
+
+  // A vessel holds at most one batch
+  const getVesselContent = useCallback(
+    (vesselId: string) => contents.find((content) => content.vessel_id === vesselId),
+    [contents]
+  );
+
+  // A split batch can be in several vessels at once
+  const getBatchContents = useCallback(
+    (batchId: string) => contents.filter((content) => content.batch_id === batchId),
+    [contents]
+  );
+
+  return {
+    vessels,
+    contents,
+    getVessel,
+    getVesselContent,
+    getBatchContents,
+    isLoading: Boolean(organizationId) && (isLoading || contentsLoading),
+  };
+}
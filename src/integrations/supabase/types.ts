@@ -14,46 +14,815 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          batch_id: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          organization_id: string
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          batch_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id: string
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          batch_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      batch_blend_components: {
+        Row: {
+          batch_id: string
+          created_at: string
+          from_vessel_id: string | null
+          id: string
+          organization_id: string
+          percentage: number
+          source_batch_id: string | null
+          source_name: string
+          source_variety: string
+          volume: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          from_vessel_id?: string | null
+          id?: string
+          organization_id: string
+          percentage: number
+          source_batch_id?: string | null
+          source_name: string
+          source_variety: string
+          volume: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          from_vessel_id?: string | null
+          id?: string
+          organization_id?: string
+          percentage?: number
+          source_batch_id?: string | null
+          source_name?: string
+          source_variety?: string
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_blend_components_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_blend_components_from_vessel_id_fkey"
+            columns: ["from_vessel_id"]
+            isOneToOne: false
+            referencedRelation: "vessels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_blend_components_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_blend_components_source_batch_id_fkey"
+            columns: ["source_batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_imports: {
+        Row: {
+          batch_count: number
+          created_at: string
+          file_name: string
+          id: string
+          imported_by: string | null
+          log_count: number
+          organization_id: string
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+        }
+        Insert: {
+          batch_count?: number
+          created_at?: string
+          file_name: string
+          id?: string
+          imported_by?: string | null
+          log_count?: number
+          organization_id: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+        }
+        Update: {
+          batch_count?: number
+          created_at?: string
+          file_name?: string
+          id?: string
+          imported_by?: string | null
+          log_count?: number
+          organization_id?: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_imports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_stage_history: {
+        Row: {
+          batch_id: string
+          changed_at: string
+          changed_by: string | null
+          from_stage: string | null
+          id: string
+          note: string | null
+          to_stage: string
+        }
+        Insert: {
+          batch_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage?: string | null
+          id?: string
+          note?: string | null
+          to_stage: string
+        }
+        Update: {
+          batch_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage?: string | null
+          id?: string
+          note?: string | null
+          to_stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_stage_history_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_transfers: {
+        Row: {
+          batch_id: string
+          created_at: string
+          created_by: string | null
+          from_vessel_id: string | null
+          id: string
+          loss: number
+          note: string | null
+          organization_id: string
+          target_batch_id: string | null
+          transfer_type: string
+          transferred_at: string
+          volume: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          created_by?: string | null
+          from_vessel_id?: string | null
+          id?: string
+          loss?: number
+          note?: string | null
+          organization_id: string
+          target_batch_id?: string | null
+          transfer_type: string
+          transferred_at?: string
+          volume?: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          created_by?: string | null
+          from_vessel_id?: string | null
+          id?: string
+          loss?: number
+          note?: string | null
+          organization_id?: string
+          target_batch_id?: string | null
+          transfer_type?: string
+          transferred_at?: string
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_transfers_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_transfers_from_vessel_id_fkey"
+            columns: ["from_vessel_id"]
+            isOneToOne: false
+            referencedRelation: "vessels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_transfers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_transfers_target_batch_id_fkey"
+            columns: ["target_batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_volume_entries: {
+        Row: {
+          batch_id: string
+          created_at: string
+          created_by: string | null
+          entry_type: string
+          id: string
+          organization_id: string
+          recorded_at: string
+          transfer_id: string | null
+          vessel_id: string | null
+          volume_change: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          created_by?: string | null
+          entry_type: string
+          id?: string
+          organization_id: string
+          recorded_at?: string
+          transfer_id?: string | null
+          vessel_id?: string | null
+          volume_change: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          created_by?: string | null
+          entry_type?: string
+          id?: string
+          organization_id?: string
+          recorded_at?: string
+          transfer_id?: string | null
+          vessel_id?: string | null
+          volume_change?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_volume_entries_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_volume_entries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_volume_entries_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "batch_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_volume_entries_vessel_id_fkey"
+            columns: ["vessel_id"]
+            isOneToOne: false
+            referencedRelation: "vessels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       batches: {
         Row: {
           created_at: string
-          created_by: string
-          current_stage: string
+          created_by: string | null
+          current_stage: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          import_id: string | null
+          name: string
+          organization_id: string
+          start_date: string
+          target_gravity: number | null
+          updated_at: string
+          variety: string
+          variety_composition: Json | null
+          variety_id: string | null
+          vessel_id: string | null
+          volume: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          current_stage: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          import_id?: string | null
+          name: string
+          organization_id: string
+          start_date: string
+          target_gravity?: number | null
+          updated_at?: string
+          variety: string
+          variety_composition?: Json | null
+          variety_id?: string | null
+          vessel_id?: string | null
+          volume: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          current_stage?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          import_id?: string | null
+          name?: string
+          organization_id?: string
+          start_date?: string
+          target_gravity?: number | null
+          updated_at?: string
+          variety?: string
+          variety_composition?: Json | null
+          variety_id?: string | null
+          vessel_id?: string | null
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_current_stage_fkey"
+            columns: ["organization_id", "current_stage"]
+            isOneToOne: false
+            referencedRelation: "production_stages"
+            referencedColumns: ["organization_id", "key"]
+          },
+          {
+            foreignKeyName: "batches_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "batch_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batches_variety_id_fkey"
+            columns: ["variety_id"]
+            isOneToOne: false
+            referencedRelation: "varieties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batches_vessel_id_fkey"
+            columns: ["vessel_id"]
+            isOneToOne: false
+            referencedRelation: "vessels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fermentation_logs: {
+        Row: {
+          batch_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          import_id: string | null
+          notes: string | null
+          ph: number | null
+          recorded_at: string
+          specific_gravity: number | null
+          temperature: number | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          import_id?: string | null
+          notes?: string | null
+          ph?: number | null
+          recorded_at?: string
+          specific_gravity?: number | null
+          temperature?: number | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          import_id?: string | null
+          notes?: string | null
+          ph?: number | null
+          recorded_at?: string
+          specific_gravity?: number | null
+          temperature?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fermentation_logs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fermentation_logs_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "batch_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fruit_intakes: {
+        Row: {
+          batch_id: string | null
+          brix: number | null
+          created_at: string
+          created_by: string | null
+          harvest_date: string | null
+          id: string
+          juice_volume: number | null
+          notes: string | null
+          orchard: string | null
+          organization_id: string
+          pressed_on: string | null
+          received_on: string
+          supplier: string
+          updated_at: string
+          variety_id: string
+          weight_kg: number
+        }
+        Insert: {
+          batch_id?: string | null
+          brix?: number | null
+          created_at?: string
+          created_by?: string | null
+          harvest_date?: string | null
+          id?: string
+          juice_volume?: number | null
+          notes?: string | null
+          orchard?: string | null
+          organization_id: string
+          pressed_on?: string | null
+          received_on?: string
+          supplier: string
+          updated_at?: string
+          variety_id: string
+          weight_kg: number
+        }
+        Update: {
+          batch_id?: string | null
+          brix?: number | null
+          created_at?: string
+          created_by?: string | null
+          harvest_date?: string | null
+          id?: string
+          juice_volume?: number | null
+          notes?: string | null
+          orchard?: string | null
+          organization_id?: string
+          pressed_on?: string | null
+          received_on?: string
+          supplier?: string
+          updated_at?: string
+          variety_id?: string
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fruit_intakes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fruit_intakes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fruit_intakes_variety_id_fkey"
+            columns: ["variety_id"]
+            isOneToOne: false
+            referencedRelation: "varieties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
           id: string
           name: string
+          owner_id: string
+          team_size: string
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          team_size?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          team_size?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      packaging_schedules: {
+        Row: {
+          batch_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          format: string
+          id: string
+          notes: string | null
+          quantity: number | null
+          target_date: string
+        }
+        Insert: {
+          batch_id: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          format: string
+          id?: string
+          notes?: string | null
+          quantity?: number | null
+          target_date: string
+        }
+        Update: {
+          batch_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          format?: string
+          id?: string
+          notes?: string | null
+          quantity?: number | null
+          target_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "packaging_schedules_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_stage_transitions: {
+        Row: {
+          created_at: string
+          from_stage_id: string
+          id: string
+          label: string
           organization_id: string
-          start_date: string
+          to_stage_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_stage_id: string
+          id?: string
+          label: string
+          organization_id: string
+          to_stage_id: string
+        }
+        Update: {
+          created_at?: string
+          from_stage_id?: string
+          id?: string
+          label?: string
+          organization_id?: string
+          to_stage_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_stage_transitions_from_stage_id_fkey"
+            columns: ["from_stage_id"]
+            isOneToOne: false
+            referencedRelation: "production_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_stage_transitions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_stage_transitions_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "production_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_stages: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_terminal: boolean
+          key: string
+          name: string
+          organization_id: string
+          position: number
           updated_at: string
-          variety: string
-          volume: number
         }
         Insert: {
+          color?: string
           created_at?: string
-          created_by: string
-          current_stage?: string
           id?: string
+          is_terminal?: boolean
+          key: string
           name: string
           organization_id: string
-          start_date: string
+          position?: number
           updated_at?: string
-          variety: string
-          volume: number
         }
         Update: {
+          color?: string
           created_at?: string
-          created_by?: string
-          current_stage?: string
           id?: string
+          is_terminal?: boolean
+          key?: string
           name?: string
           organization_id?: string
-          start_date?: string
+          position?: number
           updated_at?: string
-          variety?: string
-          volume?: number
         }
         Relationships: [
           {
-            foreignKeyName: "batches_organization_id_fkey"
+            foreignKeyName: "production_stages_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -61,74 +830,368 @@ export type Database = {
           },
         ]
       }
-      organization_members: {
+      profiles: {
         Row: {
+          avatar_url: string | null
           created_at: string
+          email: string | null
+          full_name: string | null
           id: string
-          organization_id: string
+          job_title: string | null
+          last_active_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          job_title?: string | null
+          last_active_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          job_title?: string | null
+          last_active_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          capability: string
           role: string
-          user_id: string
+        }
+        Insert: {
+          capability: string
+          role: string
+        }
+        Update: {
+          capability?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      stage_guard_rules: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          rule_type: string
+          stage_id: string
+          threshold: number | null
         }
         Insert: {
           created_at?: string
           id?: string
           organization_id: string
-          role: string
-          user_id: string
+          rule_type: string
+          stage_id: string
+          threshold?: number | null
         }
         Update: {
           created_at?: string
           id?: string
           organization_id?: string
-          role?: string
-          user_id?: string
+          rule_type?: string
+          stage_id?: string
+          threshold?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "organization_members_organization_id_fkey"
+            foreignKeyName: "stage_guard_rules_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stage_guard_rules_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "production_stages"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      organizations: {
+      tasting_notes: {
+        Row: {
+          acidity: number | null
+          aroma: string | null
+          batch_id: string
+          body: number | null
+          created_at: string
+          created_by: string | null
+          finish: string | null
+          flavor: string | null
+          id: string
+          notes: string | null
+          recorded_at: string
+          sweetness: number | null
+        }
+        Insert: {
+          acidity?: number | null
+          aroma?: string | null
+          batch_id: string
+          body?: number | null
+          created_at?: string
+          created_by?: string | null
+          finish?: string | null
+          flavor?: string | null
+          id?: string
+          notes?: string | null
+          recorded_at?: string
+          sweetness?: number | null
+        }
+        Update: {
+          acidity?: number | null
+          aroma?: string | null
+          batch_id?: string
+          body?: number | null
+          created_at?: string
+          created_by?: string | null
+          finish?: string | null
+          flavor?: string | null
+          id?: string
+          notes?: string | null
+          recorded_at?: string
+          sweetness?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasting_notes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      varieties: {
         Row: {
           created_at: string
+          created_by: string | null
           id: string
           name: string
-          owner_id: string
-          team_size: string
+          notes: string | null
+          organization_id: string
           updated_at: string
+          variety_class: string | null
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           id?: string
           name: string
-          owner_id: string
-          team_size?: string
+          notes?: string | null
+          organization_id: string
           updated_at?: string
+          variety_class?: string | null
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           id?: string
           name?: string
-          owner_id?: string
-          team_size?: string
+          notes?: string | null
+          organization_id?: string
           updated_at?: string
+          variety_class?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "varieties_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vessels: {
+        Row: {
+          capacity: number
+          created_at: string
+          created_by: string | null
+          id: string
+          location: string | null
+          material: string | null
+          name: string
+          notes: string | null
+          organization_id: string
+          updated_at: string
+          vessel_type: string
+        }
+        Insert: {
+          capacity: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          material?: string | null
+          name: string
+          notes?: string | null
+          organization_id: string
+          updated_at?: string
+          vessel_type?: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          material?: string | null
+          name?: string
+          notes?: string | null
+          organization_id?: string
+          updated_at?: string
+          vessel_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vessels_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      vessel_contents: {
+        Row: {
+          batch_id: string | null
+          organization_id: string | null
+          vessel_id: string | null
+          volume: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_volume_entries_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_volume_entries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_volume_entries_vessel_id_fkey"
+            columns: ["vessel_id"]
+            isOneToOne: false
+            referencedRelation: "vessels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      accept_invitation: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      blend_batches: {
+        Args: {
+          blend_date: string
+          blend_name: string
+          components: Json
+          note?: string
+          org_id: string
+          stage: string
+          target_vessel_id?: string
+        }
+        Returns: string
+      }
+      change_batch_stage: {
+        Args: { batch_id: string; note?: string; to_stage: string }
+        Returns: undefined
+      }
+      delete_own_account: { Args: never; Returns: undefined }
+      get_invitation: {
+        Args: { invite_token: string }
+        Returns: {
+          accepted_at: string
+          email: string
+          expires_at: string
+          organization_name: string
+          role: string
+        }[]
+      }
+      get_stage_guard_violations: {
+        Args: { batch_id: string; to_stage: string }
+        Returns: {
+          message: string
+          rule_id: string
+        }[]
+      }
+      has_permission: {
+        Args: { capability: string; org_id: string; user_id: string }
+        Returns: boolean
+      }
+      import_batches: {
+        Args: {
+          batch_rows: Json
+          file_name: string
+          log_rows: Json
+          org_id: string
+        }
+        Returns: string
+      }
+      is_organization_admin: {
+        Args: { org_id: string; user_id: string }
+        Returns: boolean
+      }
       is_organization_member: {
         Args: { org_id: string; user_id: string }
         Returns: boolean
       }
+      is_organization_owner: {
+        Args: { org_id: string; user_id: string }
+        Returns: boolean
+      }
+      purge_deleted_batches: { Args: never; Returns: number }
+      rollback_batch_import: {
+        Args: { import_id: string }
+        Returns: undefined
+      }
+      seed_production_stages: {
+        Args: { org_id: string }
+        Returns: undefined
+      }
+      shares_organization: {
+        Args: { other_user_id: string; user_id: string }
+        Returns: boolean
+      }
+      touch_last_active: { Args: never; Returns: undefined }
+      transfer_batch_volume: {
+        Args: {
+          batch_id: string
+          destinations?: Json
+          from_vessel_id?: string
+          loss?: number
+          note?: string
+          transfer_type: string
+          transferred_at?: string
+        }
+        Returns: string
+      }
+      transfer_organization_ownership: {
+        Args: { new_owner_id: string; org_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
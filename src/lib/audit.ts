@@ -0,0 +1,151 @@
+import { format, parseISO } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type AuditEntry = Tables<'audit_log'>;
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Tables with the record_audit_event trigger
+export const AUDIT_TABLES: { value: string; label: string }[] = [
+  { value: 'batches', label: 'Batches' },
+  { value: 'fermentation_logs', label: 'Readings' },
+  { value: 'tasting_notes', label: 'Tasting notes' },
+  { value: 'packaging_schedules', label: 'Packaging runs' },
+  { value: 'vessels', label: 'Vessels' },
+  { value: 'varieties', label: 'Varieties' },
+  { value: 'fruit_intakes', label: 'Fruit intake' },
+  { value: 'batch_transfers', label: 'Transfers' },
+  { value: 'organization_members', label: 'Members' },
+  { value: 'organizations', label: 'Organization' },
+];
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'insert', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+];
+
+const recordLabels: Record<string, string> = {
+  batches: 'batch',
+  fermentation_logs: 'reading',
+  tasting_notes: 'tasting note',
+  packaging_schedules: 'packaging run',
+  vessels: 'vessel',
+  varieties: 'variety',
+  fruit_intakes: 'fruit lot',
+  batch_transfers: 'transfer',
+  organization_members: 'member',
+  organizations: 'organization',
+};
+
+const fieldLabels: Record<string, string> = {
+  current_stage: 'stage',
+  start_date: 'start date',
+  target_gravity: 'target gravity',
+  specific_gravity: 'gravity',
+  recorded_at: 'date',
+  target_date: 'target date',
+  completed_at: 'completed',
+  deleted_at: 'deleted',
+  trash_retention_days: 'trash retention (days)',
+  team_size: 'team size',
+  owner_id: 'owner',
+  user_id: 'user',
+  vessel_id: 'vessel',
+  vessel_type: 'type',
+  transfer_type: 'type',
+  from_vessel_id: 'from vessel',
+  transferred_at: 'date',
+  target_batch_id: 'blend',
+  variety_composition: 'varieties',
+  variety_id: 'variety',
+  variety_class: 'class',
+  received_on: 'received',
+  harvest_date: 'harvest date',
+  weight_kg: 'weight (kg)',
+  pressed_on: 'pressed',
+  juice_volume: 'juice (L)',
+};
+
+// Bookkeeping columns that say nothing about what changed
+const hiddenFields = new Set([
+  'id',
+  'organization_id',
+  'batch_id',
+  'created_at',
+  'updated_at',
+  'created_by',
+  'deleted_by',
+]);
+
+export type AuditFieldChange = {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+};
+
+function asRecord(value: Json | null): Record<string, Json> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+export function formatAuditValue(value: Json | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') {
+    // Timestamps come back as ISO strings; plain dates are already readable
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return format(parseISO(value), 'PP p');
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Lists the fields an entry touched. Updates carry only the changed columns,
+ * inserts and deletes the full row, so the other side is left empty.
+ */
+export function getAuditFieldChanges(entry: AuditEntry): AuditFieldChange[] {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = entry.action === 'update'
+    ? entry.changed_fields
+    : Object.keys(entry.action === 'delete' ? before : after).sort();
+
+  return fields
+    .filter((field) => !hiddenFields.has(field))
+    .filter((field) => entry.action === 'update' || (after[field] ?? before[field]) !== null)
+    .map((field) => ({
+      field,
+      label: fieldLabels[field] ?? field.replace(/_/g, ' '),
+      before: entry.action === 'insert' ? null : formatAuditValue(before[field]),
+      after: entry.action === 'delete' ? null : formatAuditValue(after[field]),
+    }));
+}
+
+export function describeAuditEntry(entry: AuditEntry) {
+  const record = recordLabels[entry.table_name] ?? entry.table_name.replace(/_/g, ' ');
+
+  if (entry.table_name === 'batches' && entry.changed_fields.includes('deleted_at')) {
+    return asRecord(entry.new_data).deleted_at ? 'Moved batch to trash' : 'Restored batch from trash';
+  }
+
+  if (entry.table_name === 'batches' && entry.changed_fields.includes('current_stage')) {
+    return 'Changed batch stage';
+  }
+
+  switch (entry.action) {
+    case 'insert':
+      return `Added ${record}`;
+    case 'delete':
+      return `Deleted ${record}`;
+    default:
+      return `Updated ${record}`;
+  }
+}
+
+// Batch name from whichever side of the entry still has it
+export function getAuditRecordName(entry: AuditEntry) {
+  const name = asRecord(entry.new_data).name ?? asRecord(entry.old_data).name;
+  return typeof name === 'string' ? name : null;
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Zod validation schema, shared by the batch form and the CSV import
+export const batchSchema = z.object({
+  name: z.string().trim().min(1, "Batch name is required").max(100, "Batch name must be less than 100 characters"),
+  variety: z.string().trim().min(1, "Apple variety is required").max(100, "Variety must be less than 100 characters"),
+  volume: z.number().positive("Volume must be a positive number").max(1000000, "Volume must be less than 1,000,000 liters"),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  target_gravity: z.number().min(0.98, "Target gravity must be at least 0.980").max(1.2, "Target gravity must be at most 1.200").nullable().optional(),
+});
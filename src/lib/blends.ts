@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type BlendComponent = Tables<'batch_blend_components'>;
+
+export type VarietyShare = {
+  variety: string;
+  /** From 0 to 100 */
+  percentage: number;
+};
+
+// Zod validation schema
+export const blendSchema = z.object({
+  name: z.string().trim().min(1, "Blend name is required").max(100, "Blend name must be less than 100 characters"),
+  blend_date: z.string().min(1, "Date is required"),
+  stage: z.string().min(1, "Stage is required"),
+  target_vessel_id: z.string().uuid().nullable(),
+  components: z.array(z.object({
+    batch_id: z.string().uuid(),
+    vessel_id: z.string().uuid().nullable(),
+    volume: z.number({ required_error: "Enter a volume for every component" }).positive("Every component needs a volume above zero").max(100000, "Volume must be less than 100,000 liters"),
+  })).min(2, "A blend needs at least two components"),
+  note: z.string().trim().max(1000, "Note must be less than 1000 characters"),
+}).refine((blend) => new Set(blend.components.map((component) => component.batch_id)).size >= 2, {
+  message: "A blend needs at least two different batches",
+  path: ['components'],
+});
+
+/** The batch's varieties by share; batches that were never blended are 100% their variety */
+export function getVarietyComposition(batch: { variety: string; variety_composition: Json | null }): VarietyShare[] {
+  if (Array.isArray(batch.variety_composition)) {
+    const shares = batch.variety_composition
+      .filter((share): share is { variety: string; percentage: number } =>
+        typeof share === 'object' && share !== null && 'variety' in share && 'percentage' in share
+      )
+      .map((share) => ({ variety: String(share.variety), percentage: Number(share.percentage) }));
+    if (shares.length > 0) return shares;
+  }
+  return [{ variety: batch.variety, percentage: 100 }];
+}
+
+/**
+ * Volume-weighted mix of several compositions, merged per variety, largest share first.
+ * Matches what blend_batches stores, so the dialog can preview it.
+ */
+export function mixVarietyCompositions(parts: { composition: VarietyShare[]; volume: number }[]): VarietyShare[] {
+  const total = parts.reduce((sum, part) => sum + part.volume, 0);
+  if (total <= 0) return [];
+
+  const shares = new Map<string, number>();
+  parts.forEach((part) =>
+    part.composition.forEach((share) =>
+      shares.set(share.variety, (shares.get(share.variety) ?? 0) + (share.percentage * part.volume) / total)
+    )
+  );
+
+  return Array.from(shares, ([variety, percentage]) => ({ variety, percentage }))
+    .sort((a, b) => b.percentage - a.percentage || a.variety.localeCompare(b.variety));
+}
+
+export const formatVarietyComposition = (shares: VarietyShare[]) =>
+  shares.map((share) => `${Math.round(share.percentage)}% ${share.variety}`).join(' / ');
+
+export type LineageNode = {
+  component: BlendComponent;
+  /** The source's own components, if it was a blend too */
+  sources: LineageNode[];
+};
+
+/** Everything that went into the batch, down to batches that were never blended */
+export function buildAncestry(batchId: string, components: BlendComponent[], visited = new Set<string>()): LineageNode[] {
+  // Blends can only draw on batches that already exist, but a bad row shouldn't hang the page
+  if (visited.has(batchId)) return [];
+  const path = new Set(visited).add(batchId);
+
+  return components
+    .filter((component) => component.batch_id === batchId)
+    .sort((a, b) => Number(b.percentage) - Number(a.percentage))
+    .map((component) => ({
+      component,
+      sources: component.source_batch_id ? buildAncestry(component.source_batch_id, components, path) : [],
+    }));
+}
+
+/** Blends the batch went into, with the share it made up of each */
+export function getBlendsUsing(batchId: string, components: BlendComponent[]) {
+  return components.filter((component) => component.source_batch_id === batchId);
+}
@@ -0,0 +1,73 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { convertTemperature, convertVolume, type ExportColumn } from '@/lib/export';
+import type { FermentationMetrics } from '@/lib/fermentation';
+import type { StagePipeline } from '@/lib/stages';
+import { SENSORY_ATTRIBUTES } from '@/lib/tasting';
+
+type BatchRow = Tables<'batches'>;
+type FermentationLog = Tables<'fermentation_logs'>;
+type TastingNote = Tables<'tasting_notes'>;
+
+type MemberNameLookup = (userId: string | null | undefined) => string | null;
+
+const round = (value: number | null, digits: number) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function getBatchExportColumns({
+  pipeline,
+  metricsByBatch,
+  getMemberName,
+}: {
+  pipeline: StagePipeline;
+  metricsByBatch: Map<string, FermentationMetrics>;
+  getMemberName: MemberNameLookup;
+}): ExportColumn<BatchRow>[] {
+  return [
+    { id: 'name', label: 'Name', value: (batch) => batch.name },
+    { id: 'variety', label: 'Variety', value: (batch) => batch.variety },
+    { id: 'stage', label: 'Stage', value: (batch) => pipeline.getStage(batch.current_stage)?.name ?? batch.current_stage },
+    { id: 'volume', label: 'Volume', unit: 'volume', value: (batch, units) => convertVolume(batch.volume, units.volume) },
+    { id: 'start_date', label: 'Start date', value: (batch) => batch.start_date },
+    { id: 'target_gravity', label: 'Target gravity', value: (batch) => batch.target_gravity },
+    { id: 'original_gravity', label: 'Original gravity', value: (batch) => metricsByBatch.get(batch.id)?.originalGravity ?? null },
+    { id: 'current_gravity', label: 'Current gravity', value: (batch) => metricsByBatch.get(batch.id)?.currentGravity ?? null },
+    { id: 'abv', label: 'ABV (%)', value: (batch) => round(metricsByBatch.get(batch.id)?.abv ?? null, 2) },
+    { id: 'attenuation', label: 'Attenuation (%)', value: (batch) => round(metricsByBatch.get(batch.id)?.attenuation ?? null, 1) },
+    { id: 'progress', label: 'Progress (%)', value: (batch) => round(metricsByBatch.get(batch.id)?.progress ?? null, 1) },
+    { id: 'created_by', label: 'Created by', value: (batch) => getMemberName(batch.created_by) },
+    { id: 'created_at', label: 'Created at', value: (batch) => new Date(batch.created_at) },
+  ];
+}
+
+export function getFermentationLogExportColumns(getMemberName: MemberNameLookup): ExportColumn<FermentationLog>[] {
+  return [
+    { id: 'recorded_at', label: 'Date', value: (log) => log.recorded_at },
+    {
+      id: 'temperature',
+      label: 'Temperature',
+      unit: 'temperature',
+      value: (log, units) => convertTemperature(log.temperature, units.temperature),
+    },
+    { id: 'specific_gravity', label: 'Specific gravity', value: (log) => log.specific_gravity },
+    { id: 'ph', label: 'pH', value: (log) => log.ph },
+    { id: 'notes', label: 'Notes', value: (log) => log.notes },
+    { id: 'created_by', label: 'Recorded by', value: (log) => getMemberName(log.created_by) },
+    { id: 'created_at', label: 'Entered at', value: (log) => new Date(log.created_at) },
+  ];
+}
+
+export function getTastingNoteExportColumns(getMemberName: MemberNameLookup): ExportColumn<TastingNote>[] {
+  return [
+    { id: 'recorded_at', label: 'Date', value: (note) => note.recorded_at },
+    ...SENSORY_ATTRIBUTES.map((attribute): ExportColumn<TastingNote> => ({
+      id: attribute.key,
+      label: `${attribute.label} (1-5)`,
+      value: (note) => note[attribute.key],
+    })),
+    { id: 'aroma', label: 'Aroma', value: (note) => note.aroma },
+    { id: 'flavor', label: 'Flavor', value: (note) => note.flavor },
+    { id: 'finish', label: 'Finish', value: (note) => note.finish },
+    { id: 'notes', label: 'Notes', value: (note) => note.notes },
+    { id: 'created_by', label: 'Taster', value: (note) => getMemberName(note.created_by) },
+  ];
+}
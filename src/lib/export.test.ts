@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { buildCsv } from './export';
+
+describe('buildCsv', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(buildCsv(['Name', 'Notes'], [['Dry, still', 'Said "crisp"\nthen sweet']])).toBe(
+      'Name,Notes\r\n"Dry, still","Said ""crisp""\nthen sweet"'
+    );
+  });
+
+  it('neutralizes text that a spreadsheet would run as a formula', () => {
+    expect(buildCsv(['Name'], [['=HYPERLINK("x")'], ['+1'], ['-2'], ['@SUM(A1)']])).toBe(
+      'Name\r\n"\'=HYPERLINK(""x"")"\r\n\'+1\r\n\'-2\r\n\'@SUM(A1)'
+    );
+  });
+
+  it('leaves numbers, dates and empty cells as they are', () => {
+    expect(buildCsv(['Temp', 'At', 'pH'], [[-2.5, new Date(2025, 0, 5, 9, 30), null]])).toBe(
+      'Temp,At,pH\r\n-2.5,2025-01-05 09:30,'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { format } from 'date-fns';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type VolumeUnit = 'L' | 'gal';
+export type TemperatureUnit = 'C' | 'F';
+
+export type ExportUnits = {
+  volume: VolumeUnit;
+  temperature: TemperatureUnit;
+};
+
+export const DEFAULT_EXPORT_UNITS: ExportUnits = { volume: 'L', temperature: 'C' };
+
+export const VOLUME_UNITS: { value: VolumeUnit; label: string }[] = [
+  { value: 'L', label: 'Liters (L)' },
+  { value: 'gal', label: 'US gallons (gal)' },
+];
+
+export const TEMPERATURE_UNITS: { value: TemperatureUnit; label: string }[] = [
+  { value: 'C', label: 'Celsius (°C)' },
+  { value: 'F', label: 'Fahrenheit (°F)' },
+];
+
+const LITERS_PER_US_GALLON = 3.785411784;
+
+// Volumes and temperatures are stored in liters and °C
+export function convertVolume(liters: number | null, unit: VolumeUnit) {
+  if (liters === null) return null;
+  const value = unit === 'gal' ? Number(liters) / LITERS_PER_US_GALLON : Number(liters);
+  return Math.round(value * 100) / 100;
+}
+
+export function convertTemperature(celsius: number | null, unit: TemperatureUnit) {
+  if (celsius === null) return null;
+  const value = unit === 'F' ? (Number(celsius) * 9) / 5 + 32 : Number(celsius);
+  return Math.round(value * 10) / 10;
+}
+
+// The inverse of the above, for imported values
+export function volumeToLiters(value: number, unit: VolumeUnit) {
+  const liters = unit === 'gal' ? value * LITERS_PER_US_GALLON : value;
+  return Math.round(liters * 100) / 100;
+}
+
+export function temperatureToCelsius(value: number, unit: TemperatureUnit) {
+  const celsius = unit === 'F' ? ((value - 32) * 5) / 9 : value;
+  return Math.round(celsius * 10) / 10;
+}
+
+export type ExportCell = string | number | Date | null;
+
+export type ExportColumn<T> = {
+  id: string;
+  label: string;
+  // Columns with a unit get it appended to the header and are converted before export
+  unit?: keyof ExportUnits;
+  value: (row: T, units: ExportUnits) => ExportCell;
+};
+
+export type ExportDataset<T> = {
+  id: string;
+  label: string;
+  // Used for the file name (CSV) or sheet name (XLSX)
+  name: string;
+  rows: T[];
+  columns: ExportColumn<T>[];
+};
+
+const unitLabels: Record<VolumeUnit | TemperatureUnit, string> = {
+  L: 'L',
+  gal: 'gal',
+  C: '°C',
+  F: '°F',
+};
+
+export function getColumnHeader<T>(column: ExportColumn<T>, units: ExportUnits) {
+  return column.unit ? `${column.label} (${unitLabels[units[column.unit]]})` : column.label;
+}
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvCell(value: ExportCell) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? format(value, 'yyyy-MM-dd HH:mm') : String(value);
+  // Only free text is neutralized; numbers such as negative temperatures stay numeric
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv(headers: string[], rows: ExportCell[][]) {
+  return [headers, ...rows].map((row) => row.map(formatCsvCell).join(',')).join('\r\n');
+}
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the datasets with only the given columns. CSV produces one file per dataset;
+ * XLSX puts every dataset on its own sheet in a single workbook.
+ */
+export async function exportDatasets<T>(
+  datasets: ExportDataset<T>[],
+  exportFormat: ExportFormat,
+  units: ExportUnits,
+  fileName: string
+) {
+  const stamp = format(new Date(), 'yyyy-MM-dd');
+  const tables = datasets.map((dataset) => ({
+    name: dataset.name,
+    headers: dataset.columns.map((column) => getColumnHeader(column, units)),
+    rows: dataset.rows.map((row) => dataset.columns.map((column) => column.value(row, units))),
+  }));
+
+  if (exportFormat === 'csv') {
+    for (const table of tables) {
+      const name = tables.length > 1 ? `${fileName}-${table.name}` : fileName;
+      // The BOM makes Excel read the file as UTF-8
+      const blob = new Blob(['\uFEFF', buildCsv(table.headers, table.rows)], { type: 'text/csv;charset=utf-8' });
+      downloadBlob(blob, `${slugify(name)}-${stamp}.csv`);
+    }
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet writer stays out of the main bundle
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+
+  await writeXlsxFile(
+    tables.map((table) => ({
+      sheet: table.name.slice(0, 31),
+      data: [
+        table.headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+        ...table.rows.map((row) =>
+          row.map((value) => (value === null ? null : { value, format: value instanceof Date ? 'yyyy-mm-dd hh:mm' : undefined }))
+        ),
+      ],
+      columns: table.headers.map((header) => ({ width: Math.max(12, header.length + 2) })),
+      stickyRowsCount: 1,
+    }))
+  ).toFile(`${slugify(fileName)}-${stamp}.xlsx`);
+}
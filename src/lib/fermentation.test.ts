@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TARGET_GRAVITY,
+  calculateAbv,
+  calculateApparentAttenuation,
+  calculateProgress,
+  getFermentationMetrics,
+  type GravityReading,
+} from './fermentation';
+
+const reading = (
+  specific_gravity: number | null,
+  recorded_at: string,
+  created_at = `${recorded_at}T12:00:00Z`
+): GravityReading => ({ batch_id: 'batch-1', specific_gravity, recorded_at, created_at });
+
+describe('calculateAbv', () => {
+  it('uses the (OG - FG) * 131.25 approximation', () => {
+    expect(calculateAbv(1.05, 1.0)).toBeCloseTo(6.5625, 4);
+  });
+
+  it('never goes negative when gravity rises', () => {
+    expect(calculateAbv(1.01, 1.02)).toBe(0);
+  });
+});
+
+describe('calculateApparentAttenuation', () => {
+  it('is the share of the gravity above water that has fermented', () => {
+    expect(calculateApparentAttenuation(1.05, 1.01)).toBeCloseTo(80, 6);
+  });
+
+  it('is null when OG is at or below 1.000', () => {
+    expect(calculateApparentAttenuation(1.0, 0.998)).toBeNull();
+    expect(calculateApparentAttenuation(0.995, 0.99)).toBeNull();
+  });
+});
+
+describe('calculateProgress', () => {
+  it('measures the drop so far against the drop expected to reach the target', () => {
+    expect(calculateProgress(1.05, 1.025, 1.0)).toBeCloseTo(50, 6);
+  });
+
+  it('is clamped to 0-100', () => {
+    expect(calculateProgress(1.05, 0.995, 1.0)).toBe(100);
+    expect(calculateProgress(1.05, 1.06, 1.0)).toBe(0);
+  });
+
+  it('is null when OG is not above the target', () => {
+    expect(calculateProgress(1.0, 0.998, 1.0)).toBeNull();
+    expect(calculateProgress(1.004, 1.002, 1.005)).toBeNull();
+  });
+});
+
+describe('getFermentationMetrics', () => {
+  it('returns empty metrics without gravity readings', () => {
+    const metrics = getFermentationMetrics([reading(null, '2025-01-01')], 1.002);
+
+    expect(metrics).toEqual({
+      originalGravity: null,
+      currentGravity: null,
+      targetGravity: 1.002,
+      abv: null,
+      attenuation: null,
+      progress: null,
+      readingCount: 0,
+    });
+  });
+
+  it('has no ABV or attenuation from a single reading', () => {
+    const metrics = getFermentationMetrics([reading(1.05, '2025-01-01')]);
+
+    expect(metrics.originalGravity).toBe(1.05);
+    expect(metrics.currentGravity).toBe(1.05);
+    expect(metrics.abv).toBeNull();
+    expect(metrics.attenuation).toBeNull();
+    expect(metrics.progress).toBe(0);
+    expect(metrics.readingCount).toBe(1);
+  });
+
+  it('uses the first and latest readings by date, whatever order they arrive in', () => {
+    const metrics = getFermentationMetrics([
+      reading(1.01, '2025-01-20'),
+      reading(1.05, '2025-01-01'),
+      reading(1.03, '2025-01-10'),
+    ]);
+
+    expect(metrics.originalGravity).toBe(1.05);
+    expect(metrics.currentGravity).toBe(1.01);
+    expect(metrics.abv).toBeCloseTo(5.25, 4);
+    expect(metrics.attenuation).toBeCloseTo(80, 6);
+    expect(metrics.readingCount).toBe(3);
+  });
+
+  it('orders readings on the same day by when they were entered', () => {
+    const metrics = getFermentationMetrics([
+      reading(1.02, '2025-01-05', '2025-01-05T18:00:00Z'),
+      reading(1.05, '2025-01-01'),
+      reading(1.03, '2025-01-05', '2025-01-05T08:00:00Z'),
+    ]);
+
+    expect(metrics.currentGravity).toBe(1.02);
+  });
+
+  it('falls back to a 1.000 target when the batch has none', () => {
+    const metrics = getFermentationMetrics([reading(1.05, '2025-01-01'), reading(1.025, '2025-01-10')], null);
+
+    expect(metrics.targetGravity).toBe(DEFAULT_TARGET_GRAVITY);
+    expect(metrics.targetGravity).toBe(1.0);
+    expect(metrics.progress).toBeCloseTo(50, 6);
+  });
+
+  it('leaves attenuation and progress empty when OG is at or below 1.000', () => {
+    const metrics = getFermentationMetrics([reading(1.0, '2025-01-01'), reading(0.996, '2025-01-10')]);
+
+    expect(metrics.abv).toBeCloseTo(0.525, 4);
+    expect(metrics.attenuation).toBeNull();
+    expect(metrics.progress).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+type FermentationLog = Tables<'fermentation_logs'>;
+
+export type GravityReading = Pick<FermentationLog, 'batch_id' | 'specific_gravity' | 'recorded_at' | 'created_at'>;
+
+export type FermentationMetrics = {
+  originalGravity: number | null;
+  currentGravity: number | null;
+  targetGravity: number;
+  abv: number | null;
+  attenuation: number | null;
+  progress: number | null;
+  readingCount: number;
+};
+
+// Zod validation schema, shared by the reading form and the CSV import
+export const fermentationLogSchema = z.object({
+  recorded_at: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  temperature: z.number().min(-20, "Temperature must be above -20 °C").max(60, "Temperature must be below 60 °C").nullable(),
+  specific_gravity: z.number().min(0.98, "Specific gravity must be at least 0.980").max(1.2, "Specific gravity must be at most 1.200").nullable(),
+  ph: z.number().min(0, "pH must be between 0 and 14").max(14, "pH must be between 0 and 14").nullable(),
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+}).refine((data) => data.temperature !== null || data.specific_gravity !== null || data.ph !== null, {
+  message: "Enter at least one reading (temperature, gravity or pH)",
+});
+
+// Dry cider finishes at or just below water; used when a batch has no target set
+export const DEFAULT_TARGET_GRAVITY = 1.0;
+
+// Standard homebrew approximation: ABV = (OG - FG) * 131.25
+const ABV_FACTOR = 131.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Returns the readings that carry a gravity value, oldest first.
+ * Readings on the same day are ordered by when they were entered.
+ */
+export function sortGravityReadings<T extends GravityReading>(readings: T[]): T[] {
+  return readings
+    .filter((reading) => reading.specific_gravity !== null && reading.specific_gravity !== undefined)
+    .sort((a, b) =>
+      a.recorded_at === b.recorded_at
+        ? new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        : new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+    );
+}
+
+export function calculateAbv(originalGravity: number, currentGravity: number): number {
+  return Math.max(0, (originalGravity - currentGravity) * ABV_FACTOR);
+}
+
+export function calculateApparentAttenuation(originalGravity: number, currentGravity: number): number | null {
+  const fermentable = originalGravity - 1;
+  if (fermentable <= 0) return null;
+  return Math.max(0, ((originalGravity - currentGravity) / fermentable) * 100);
+}
+
+export function calculateProgress(originalGravity: number, currentGravity: number, targetGravity: number): number | null {
+  const expectedDrop = originalGravity - targetGravity;
+  if (expectedDrop <= 0) return null;
+  return clamp(((originalGravity - currentGravity) / expectedDrop) * 100, 0, 100);
+}
+
+/**
+ * Derives OG, current gravity, ABV, attenuation and percent-to-target from the
+ * first and latest gravity readings of a single batch.
+ */
+export function getFermentationMetrics(
+  readings: GravityReading[],
+  targetGravity: number | null = null
+): FermentationMetrics {
+  const sorted = sortGravityReadings(readings);
+  const target = targetGravity ?? DEFAULT_TARGET_GRAVITY;
+
+  if (sorted.length === 0) {
+    return {
+      originalGravity: null,
+      currentGravity: null,
+      targetGravity: target,
+      abv: null,
+      attenuation: null,
+      progress: null,
+      readingCount: 0,
+    };
+  }
+
+  const originalGravity = Number(sorted[0].specific_gravity);
+  const currentGravity = Number(sorted[sorted.length - 1].specific_gravity);
+  const hasDrop = sorted.length > 1;
+
+  return {
+    originalGravity,
+    currentGravity,
+    targetGravity: target,
+    abv: hasDrop ? calculateAbv(originalGravity, currentGravity) : null,
+    attenuation: hasDrop ? calculateApparentAttenuation(originalGravity, currentGravity) : null,
+    progress: calculateProgress(originalGravity, currentGravity, target),
+    readingCount: sorted.length,
+  };
+}
+
+/**
+ * Groups readings by batch and computes metrics for each batch in one pass.
+ */
+export function getMetricsByBatch(
+  readings: GravityReading[],
+  batches: { id: string; target_gravity?: number | null }[]
+): Map<string, FermentationMetrics> {
+  const readingsByBatch = new Map<string, GravityReading[]>();
+  readings.forEach((reading) => {
+    const list = readingsByBatch.get(reading.batch_id) ?? [];
+    list.push(reading);
+    readingsByBatch.set(reading.batch_id, list);
+  });
+
+  return new Map(
+    batches.map((batch) => [
+      batch.id,
+      getFermentationMetrics(readingsByBatch.get(batch.id) ?? [], batch.target_gravity ?? null),
+    ])
+  );
+}
+
+export const formatGravity = (value: number | null) => (value === null ? '—' : value.toFixed(3));
+
+export const formatPercent = (value: number | null, digits = 1) => (value === null ? '—' : `${value.toFixed(digits)}%`);
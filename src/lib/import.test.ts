@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPlan, guessColumnMapping, guessImportUnits, parseCsv, type ImportOptions } from './import';
+import { buildStagePipeline, type ProductionStage } from './stages';
+
+const stage = (key: string, name: string, position: number, is_terminal = false): ProductionStage => ({
+  id: `stage-${key}`,
+  organization_id: 'org-1',
+  key,
+  name,
+  position,
+  is_terminal,
+  color: 'default',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+const pipeline = buildStagePipeline(
+  [stage('pressing', 'Pressing', 0), stage('fermenting', 'Fermenting', 1), stage('bottled', 'Bottled', 2, true)],
+  []
+);
+
+const options: ImportOptions = { units: { volume: 'L', temperature: 'C' }, dateFormat: 'yyyy-MM-dd' };
+
+describe('parseCsv', () => {
+  it('reads quoted fields with embedded commas, quotes and line breaks', () => {
+    const { headers, rows } = parseCsv('Name,Notes\n"Dabinett, early","Said ""dry""\nthen fruity"\n');
+
+    expect(headers).toEqual(['Name', 'Notes']);
+    expect(rows).toEqual([['Dabinett, early', 'Said "dry"\nthen fruity']]);
+  });
+
+  it('handles a byte order mark, CRLF line endings and trimmed headers', () => {
+    const { headers, rows } = parseCsv('﻿ Name , Volume\r\nKingston Black,200\r\n');
+
+    expect(headers).toEqual(['Name', 'Volume']);
+    expect(rows).toEqual([['Kingston Black', '200']]);
+  });
+
+  it('takes semicolons as the delimiter when the header line uses them', () => {
+    expect(parseCsv('Name;Volume\nFoxwhelp;1,5').rows).toEqual([['Foxwhelp', '1,5']]);
+  });
+
+  it('keeps blank rows so line numbers match the spreadsheet', () => {
+    expect(parseCsv('Name\nA\n\nB').rows).toEqual([['A'], [''], ['B']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps headers by alias, ignoring case and units in brackets', () => {
+    const headers = ['Batch Name', 'Apple Variety', 'Volume (gal)', 'Reading Date', 'Temp (°F)', 'SG', 'Comments'];
+
+    expect(guessColumnMapping(headers)).toEqual({
+      name: 0,
+      variety: 1,
+      volume: 2,
+      recorded_at: 3,
+      temperature: 4,
+      specific_gravity: 5,
+      notes: 6,
+    });
+  });
+
+  it('leaves unknown headers unmapped', () => {
+    expect(guessColumnMapping(['Name', 'Barcode'])).toEqual({ name: 0 });
+  });
+
+  it('reads units from the mapped headers', () => {
+    const headers = ['Name', 'Volume (gal)', 'Temp (°F)'];
+
+    expect(guessImportUnits(headers, guessColumnMapping(headers), options.units)).toEqual({ volume: 'gal', temperature: 'F' });
+  });
+});
+
+describe('buildImportPlan', () => {
+  const headers = ['Name', 'Variety', 'Volume', 'Start date', 'Stage', 'Date', 'Gravity'];
+  const mapping = guessColumnMapping(headers);
+  const plan = (rows: string[][], existingBatches: { id: string; name: string }[] = []) =>
+    buildImportPlan(rows, mapping, options, { pipeline, existingBatches });
+
+  it('groups rows into batches by name and collects their readings', () => {
+    const result = plan([
+      ['Dabinett 2024', 'Dabinett', '200', '2024-10-01', 'Fermenting', '2024-10-02', '1.050'],
+      ['dabinett 2024', '', '', '', '', '2024-10-09', '1.020'],
+    ]);
+
+    expect(result.errorCount).toBe(0);
+    expect(result.batches).toEqual([
+      {
+        ref: 'dabinett 2024',
+        name: 'Dabinett 2024',
+        variety: 'Dabinett',
+        volume: 200,
+        start_date: '2024-10-01',
+        target_gravity: null,
+        current_stage: 'fermenting',
+      },
+    ]);
+    expect(result.logs.map((log) => [log.batch_ref, log.recorded_at, log.specific_gravity])).toEqual([
+      ['dabinett 2024', '2024-10-02', 1.05],
+      ['dabinett 2024', '2024-10-09', 1.02],
+    ]);
+  });
+
+  it('reports numbers it cannot read without also calling them missing', () => {
+    const result = plan([['Dabinett 2024', 'Dabinett', 'lots', '2024-10-01', '', '2024-10-02', 'high']]);
+
+    expect(result.errorCount).toBe(1);
+    expect(result.batches).toEqual([]);
+    expect(result.logs).toEqual([]);
+    expect(result.rows[0].status).toBe('invalid');
+    expect(result.rows[0].errors).toEqual([
+      'Volume "lots" is not a number',
+      'Specific gravity "high" is not a number',
+    ]);
+  });
+
+  it('skips blank rows but keeps spreadsheet line numbers', () => {
+    const result = plan([
+      ['', '', '', '', '', '', ''],
+      ['  ', '', '', '', '', '', ''],
+      ['Dabinett 2024', 'Dabinett', '200', '2024-10-01', '', '', ''],
+    ]);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].line).toBe(4);
+    expect(result.batches[0].current_stage).toBe('pressing');
+  });
+
+  it('adds readings to a batch the organization already has', () => {
+    const result = plan([['Dabinett 2024', '', '', '', '', '2024-10-02', '1.050']], [{ id: 'batch-1', name: 'Dabinett 2024' }]);
+
+    expect(result.existingBatchCount).toBe(1);
+    expect(result.rows[0].status).toBe('existing');
+    expect(result.batches).toEqual([]);
+    expect(result.logs[0].batch_id).toBe('batch-1');
+  });
+
+  it('flags rows without a batch name and unknown stages', () => {
+    const result = plan([
+      ['', 'Dabinett', '200', '2024-10-01', '', '', ''],
+      ['Dabinett 2024', 'Dabinett', '200', '2024-10-01', 'Kegged', '', ''],
+    ]);
+
+    expect(result.rows.map((row) => row.errors)).toEqual([['Batch name is required'], ['Unknown stage "Kegged"']]);
+  });
+});
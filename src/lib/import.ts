@@ -0,0 +1,375 @@
+import { format, isValid, parse } from 'date-fns';
+import type { ZodError } from 'zod';
+import { batchSchema } from '@/lib/batches';
+import { fermentationLogSchema } from '@/lib/fermentation';
+import { temperatureToCelsius, volumeToLiters, type ExportUnits } from '@/lib/export';
+import type { StagePipeline } from '@/lib/stages';
+
+export type ImportFieldId =
+  | 'name'
+  | 'variety'
+  | 'volume'
+  | 'start_date'
+  | 'target_gravity'
+  | 'stage'
+  | 'recorded_at'
+  | 'temperature'
+  | 'specific_gravity'
+  | 'ph'
+  | 'notes';
+
+export type ImportField = {
+  id: ImportFieldId;
+  label: string;
+  target: 'batch' | 'log';
+  required?: boolean;
+  // Normalized header names that are mapped to this field automatically
+  aliases: string[];
+};
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { id: 'name', label: 'Batch name', target: 'batch', required: true, aliases: ['name', 'batch', 'batch name'] },
+  { id: 'variety', label: 'Variety', target: 'batch', aliases: ['variety', 'apple', 'apples', 'apple variety'] },
+  { id: 'volume', label: 'Volume', target: 'batch', aliases: ['volume', 'batch volume', 'size'] },
+  { id: 'start_date', label: 'Start date', target: 'batch', aliases: ['start date', 'start', 'started', 'pressed'] },
+  { id: 'target_gravity', label: 'Target gravity', target: 'batch', aliases: ['target gravity', 'target sg', 'target fg'] },
+  { id: 'stage', label: 'Stage', target: 'batch', aliases: ['stage', 'status'] },
+  { id: 'recorded_at', label: 'Reading date', target: 'log', aliases: ['date', 'reading date', 'recorded at', 'recorded'] },
+  { id: 'temperature', label: 'Temperature', target: 'log', aliases: ['temperature', 'temp'] },
+  { id: 'specific_gravity', label: 'Specific gravity', target: 'log', aliases: ['specific gravity', 'gravity', 'sg'] },
+  { id: 'ph', label: 'pH', target: 'log', aliases: ['ph'] },
+  { id: 'notes', label: 'Notes', target: 'log', aliases: ['notes', 'note', 'comments', 'comment'] },
+];
+
+const fieldLabels = Object.fromEntries(IMPORT_FIELDS.map((field) => [field.id, field.label])) as Record<ImportFieldId, string>;
+
+export const IMPORT_DATE_FORMATS: { value: string; label: string }[] = [
+  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD (2024-09-30)' },
+  { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY (09/30/2024)' },
+  { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY (30/09/2024)' },
+  { value: 'dd.MM.yyyy', label: 'DD.MM.YYYY (30.09.2024)' },
+];
+
+export type ImportOptions = {
+  units: ExportUnits;
+  dateFormat: string;
+};
+
+/** CSV column index for each mapped field */
+export type ImportColumnMapping = Partial<Record<ImportFieldId, number>>;
+
+export type ParsedCsv = {
+  headers: string[];
+  rows: string[][];
+};
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+/**
+ * Parses CSV text with quoted fields, escaped quotes and line breaks inside quotes.
+ * Spreadsheets saved with a European locale use semicolons, so the delimiter is taken from the header line.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  // Blank rows are kept so row numbers in the preview match the spreadsheet
+  const [headers = [], ...rows] = records;
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+// "Volume (gal)" -> "volume"; units in brackets are read separately by guessImportUnits
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach((field) => {
+    const index = headers.findIndex(
+      (header, i) => !used.has(i) && field.aliases.includes(normalizeHeader(header))
+    );
+    if (index !== -1) {
+      mapping[field.id] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+export function guessImportUnits(headers: string[], mapping: ImportColumnMapping, fallback: ExportUnits): ExportUnits {
+  const header = (field: ImportFieldId) => (mapping[field] === undefined ? '' : headers[mapping[field]].toLowerCase());
+
+  return {
+    volume: /gal/.test(header('volume')) ? 'gal' : /\bl\b|lit/.test(header('volume')) ? 'L' : fallback.volume,
+    temperature: /°f|\(f\)|fahrenheit/.test(header('temperature'))
+      ? 'F'
+      : /°c|\(c\)|celsius/.test(header('temperature'))
+        ? 'C'
+        : fallback.temperature,
+  };
+}
+
+export type ImportBatch = {
+  // Links readings to the batch before it has an id; the lowercased batch name
+  ref: string;
+  name: string;
+  variety: string;
+  volume: number;
+  start_date: string;
+  target_gravity: number | null;
+  current_stage: string;
+};
+
+export type ImportLog = {
+  batch_ref?: string;
+  batch_id?: string;
+  recorded_at: string;
+  temperature: number | null;
+  specific_gravity: number | null;
+  ph: number | null;
+  notes: string;
+};
+
+export type ImportRowStatus = 'new' | 'existing' | 'invalid';
+
+export type ImportRow = {
+  // Row number as the spreadsheet shows it, counting the header as row 1
+  line: number;
+  batchName: string;
+  status: ImportRowStatus;
+  hasReading: boolean;
+  errors: string[];
+};
+
+export type ImportPlan = {
+  rows: ImportRow[];
+  batches: ImportBatch[];
+  logs: ImportLog[];
+  existingBatchCount: number;
+  errorCount: number;
+};
+
+// Fields that already failed to parse are skipped so they aren't also reported as missing,
+// and so is the "at least one reading" rule when the reading was there but unreadable
+function formatIssues(error: ZodError, unreadable: Set<ImportFieldId>) {
+  return error.errors
+    .filter((issue) => (issue.path.length === 0 ? unreadable.size === 0 : !unreadable.has(issue.path[0] as ImportFieldId)))
+    .map((issue) => {
+      const field = issue.path[0] as ImportFieldId | undefined;
+      return issue.message === 'Required' && field ? `${fieldLabels[field]} is required` : issue.message;
+    });
+}
+
+/**
+ * Turns mapped CSV rows into the batches and readings to import.
+ * Rows are grouped into batches by name; batch fields are taken from the first row that has them.
+ * A name matching a batch the organization already has only adds readings to it.
+ * Every value goes through the same zod rules as the batch and reading forms.
+ */
+export function buildImportPlan(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  options: ImportOptions,
+  { pipeline, existingBatches }: { pipeline: StagePipeline; existingBatches: { id: string; name: string }[] }
+): ImportPlan {
+  const existingByName = new Map(existingBatches.map((batch) => [batch.name.trim().toLowerCase(), batch.id]));
+
+  const planRows: ImportRow[] = [];
+  const groups = new Map<string, { row: ImportRow; cells: (field: ImportFieldId) => string }[]>();
+
+  rows.forEach((values, index) => {
+    if (values.every((value) => value.trim() === '')) return;
+
+    const cells = (field: ImportFieldId) => (mapping[field] === undefined ? '' : (values[mapping[field]] ?? '').trim());
+    const batchName = cells('name');
+    const row: ImportRow = {
+      line: index + 2,
+      batchName,
+      status: 'new',
+      hasReading: IMPORT_FIELDS.some((field) => field.target === 'log' && cells(field.id) !== ''),
+      errors: [],
+    };
+    planRows.push(row);
+
+    if (!batchName) {
+      row.errors.push('Batch name is required');
+      return;
+    }
+
+    const key = batchName.toLowerCase();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push({ row, cells });
+  });
+
+  // Empty cells are left undefined so zod reports them as missing
+  const readNumber = (row: ImportRow, field: ImportFieldId, value: string, unreadable: Set<ImportFieldId>) => {
+    if (value === '') return undefined;
+    const number = Number(value.replace(/\s/g, ''));
+    if (Number.isNaN(number)) {
+      unreadable.add(field);
+      row.errors.push(`${fieldLabels[field]} "${value}" is not a number`);
+      return undefined;
+    }
+    return number;
+  };
+
+  const readDate = (row: ImportRow, field: ImportFieldId, value: string, unreadable: Set<ImportFieldId>) => {
+    if (value === '') return undefined;
+    const date = parse(value, options.dateFormat, new Date());
+    if (!isValid(date)) {
+      unreadable.add(field);
+      row.errors.push(`${fieldLabels[field]} "${value}" doesn't match the ${options.dateFormat.toUpperCase()} date format`);
+      return undefined;
+    }
+    return format(date, 'yyyy-MM-dd');
+  };
+
+  const batches: ImportBatch[] = [];
+  const logs: ImportLog[] = [];
+  let existingBatchCount = 0;
+
+  groups.forEach((entries, key) => {
+    const existingId = existingByName.get(key);
+
+    if (existingId) {
+      existingBatchCount++;
+      entries.forEach(({ row }) => {
+        row.status = 'existing';
+      });
+    } else {
+      const pick = (field: ImportFieldId) => {
+        const entry = entries.find(({ cells }) => cells(field) !== '') ?? entries[0];
+        return { row: entry.row, value: entry.cells(field) };
+      };
+
+      const volume = pick('volume');
+      const startDate = pick('start_date');
+      const targetGravity = pick('target_gravity');
+      const stage = pick('stage');
+      const first = entries[0].row;
+
+      const stageValue = stage.value.toLowerCase();
+      const matchedStage = stageValue
+        ? pipeline.stages.find((candidate) => candidate.key === stageValue || candidate.name.toLowerCase() === stageValue)
+        : pipeline.initialStage;
+      if (!matchedStage) {
+        stage.row.errors.push(stageValue ? `Unknown stage "${stage.value}"` : 'No production stages are set up');
+      }
+
+      const unreadable = new Set<ImportFieldId>();
+      const volumeValue = readNumber(volume.row, 'volume', volume.value, unreadable);
+      const validation = batchSchema.safeParse({
+        name: first.batchName,
+        variety: pick('variety').value || undefined,
+        volume: volumeValue === undefined ? undefined : volumeToLiters(volumeValue, options.units.volume),
+        start_date: readDate(startDate.row, 'start_date', startDate.value, unreadable),
+        target_gravity: readNumber(targetGravity.row, 'target_gravity', targetGravity.value, unreadable) ?? null,
+      });
+
+      if (!validation.success) {
+        first.errors.push(...formatIssues(validation.error, unreadable));
+      } else if (matchedStage) {
+        batches.push({
+          ref: key,
+          name: validation.data.name,
+          variety: validation.data.variety,
+          volume: validation.data.volume,
+          start_date: validation.data.start_date,
+          target_gravity: validation.data.target_gravity ?? null,
+          current_stage: matchedStage.key,
+        });
+      }
+    }
+
+    entries.forEach(({ row, cells }) => {
+      if (!row.hasReading) return;
+
+      const unreadable = new Set<ImportFieldId>();
+      const temperature = readNumber(row, 'temperature', cells('temperature'), unreadable);
+      const validation = fermentationLogSchema.safeParse({
+        recorded_at: readDate(row, 'recorded_at', cells('recorded_at'), unreadable),
+        temperature: temperature === undefined ? null : temperatureToCelsius(temperature, options.units.temperature),
+        specific_gravity: readNumber(row, 'specific_gravity', cells('specific_gravity'), unreadable) ?? null,
+        ph: readNumber(row, 'ph', cells('ph'), unreadable) ?? null,
+        notes: cells('notes'),
+      });
+
+      if (!validation.success) {
+        row.errors.push(...formatIssues(validation.error, unreadable));
+        return;
+      }
+
+      logs.push({
+        ...(existingId ? { batch_id: existingId } : { batch_ref: key }),
+        recorded_at: validation.data.recorded_at,
+        temperature: validation.data.temperature,
+        specific_gravity: validation.data.specific_gravity,
+        ph: validation.data.ph,
+        notes: validation.data.notes,
+      });
+    });
+  });
+
+  planRows.forEach((row) => {
+    if (row.errors.length > 0) row.status = 'invalid';
+  });
+
+  return {
+    rows: planRows,
+    batches,
+    logs,
+    existingBatchCount,
+    errorCount: planRows.filter((row) => row.status === 'invalid').length,
+  };
+}
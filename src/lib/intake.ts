@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FruitIntake = Tables<'fruit_intakes'>;
+
+// Zod validation schema
+export const intakeSchema = z.object({
+  supplier: z.string().trim().min(1, "Supplier is required").max(100, "Supplier must be less than 100 characters"),
+  orchard: z.string().trim().max(100, "Orchard must be less than 100 characters"),
+  variety_id: z.string({ required_error: "Choose an apple variety" }).uuid("Choose an apple variety"),
+  received_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  harvest_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format").nullable(),
+  weight_kg: z.number({ required_error: "Weight is required" }).positive("Weight must be a positive number").max(1000000, "Weight must be less than 1,000,000 kg"),
+  brix: z.number().min(0, "Brix cannot be negative").max(40, "Brix must be at most 40").nullable(),
+  pressed_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format").nullable(),
+  juice_volume: z.number().min(0, "Juice volume cannot be negative").max(1000000, "Juice volume must be less than 1,000,000 liters").nullable(),
+  batch_id: z.string().uuid().nullable(),
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+}).refine((lot) => lot.juice_volume === null || lot.pressed_on !== null, {
+  message: "Enter the pressing date along with the juice volume",
+  path: ['pressed_on'],
+}).refine((lot) => !lot.harvest_date || lot.harvest_date <= lot.received_on, {
+  message: "Fruit can't be received before it was harvested",
+  path: ['harvest_date'],
+}).refine((lot) => !lot.pressed_on || lot.pressed_on >= lot.received_on, {
+  message: "Fruit can't be pressed before it was received",
+  path: ['pressed_on'],
+});
+
+/** Liters of juice per tonne of fruit, or null until the lot has been pressed */
+export function getLotYield(lot: Pick<FruitIntake, 'weight_kg' | 'juice_volume'>) {
+  if (lot.juice_volume === null || Number(lot.weight_kg) <= 0) return null;
+  return Number(lot.juice_volume) / (Number(lot.weight_kg) / 1000);
+}
+
+export type YieldSummary = {
+  key: string;
+  label: string;
+  lots: number;
+  /** Everything received, pressed or not */
+  weightKg: number;
+  /** Only lots with a juice volume count towards the yield */
+  pressedWeightKg: number;
+  juiceLiters: number;
+  /** Liters per tonne over the pressed lots */
+  yieldPerTonne: number | null;
+  /** Weighted by fruit weight, over lots with a reading */
+  averageBrix: number | null;
+};
+
+/** Totals and yield per group, e.g. per supplier or per variety, highest yield first */
+export function summarizeYield(
+  lots: FruitIntake[],
+  group: (lot: FruitIntake) => { key: string; label: string }
+): YieldSummary[] {
+  const summaries = new Map<string, YieldSummary & { brixWeight: number; brixTotal: number }>();
+
+  lots.forEach((lot) => {
+    const { key, label } = group(lot);
+    const summary = summaries.get(key) ?? {
+      key,
+      label,
+      lots: 0,
+      weightKg: 0,
+      pressedWeightKg: 0,
+      juiceLiters: 0,
+      yieldPerTonne: null,
+      averageBrix: null,
+      brixWeight: 0,
+      brixTotal: 0,
+    };
+    const weight = Number(lot.weight_kg);
+
+    summary.lots += 1;
+    summary.weightKg += weight;
+    if (lot.juice_volume !== null) {
+      summary.pressedWeightKg += weight;
+      summary.juiceLiters += Number(lot.juice_volume);
+    }
+    if (lot.brix !== null) {
+      summary.brixWeight += weight;
+      summary.brixTotal += Number(lot.brix) * weight;
+    }
+    summaries.set(key, summary);
+  });
+
+  return Array.from(summaries.values())
+    .map(({ brixWeight, brixTotal, ...summary }) => ({
+      ...summary,
+      yieldPerTonne: summary.pressedWeightKg > 0 ? summary.juiceLiters / (summary.pressedWeightKg / 1000) : null,
+      averageBrix: brixWeight > 0 ? brixTotal / brixWeight : null,
+    }))
+    .sort((a, b) => (b.yieldPerTonne ?? -1) - (a.yieldPerTonne ?? -1) || a.label.localeCompare(b.label));
+}
+
+export const formatWeight = (kg: number) =>
+  kg >= 1000 ? `${(kg / 1000).toFixed(2)} t` : `${kg.toFixed(0)} kg`;
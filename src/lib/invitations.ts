@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OrganizationInvitation = Tables<'organization_invitations'>;
+
+export type InviteRole = 'admin' | 'member';
+
+export const INVITE_ROLES: { value: InviteRole; label: string; description: string }[] = [
+  { value: 'member', label: 'Member', description: 'Can track batches, readings and tastings' },
+  { value: 'admin', label: 'Admin', description: 'Can also manage stages and invite teammates' },
+];
+
+export const INVITATION_VALIDITY_DAYS = 7;
+
+export const getInvitationUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+/**
+ * Emails the invitee a sign-in link that lands on the accept page.
+ * New addresses get an account created on first sign-in.
+ */
+export async function sendInvitationEmail(email: string, token: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      emailRedirectTo: getInvitationUrl(token),
+      shouldCreateUser: true,
+    },
+  });
+
+  if (error) throw error;
+}
+
+export const isInvitationExpired = (invitation: Pick<OrganizationInvitation, 'expires_at'>) =>
+  new Date(invitation.expires_at).getTime() < Date.now();
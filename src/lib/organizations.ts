@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Organization = Tables<'organizations'>;
+
+export type TeamSize = 'small' | 'medium' | 'large' | 'enterprise';
+
+/**
+ * Creates an organization owned by the user and adds them as its owner member.
+ * Used by onboarding and by the organization switcher for additional cideries.
+ */
+export async function createOrganization(userId: string, details: { name: string; teamSize: TeamSize }) {
+  const { data: org, error: orgError } = await supabase
+    .from('organizations')
+    .insert([
+      {
+        name: details.name,
+        owner_id: userId,
+        team_size: details.teamSize,
+      }
+    ])
+    .select()
+    .single();
+
+  if (orgError) throw orgError;
+
+  // Add user as organization member with 'owner' role
+  const { error: memberError } = await supabase
+    .from('organization_members')
+    .insert([
+      {
+        organization_id: org.id,
+        user_id: userId,
+        role: 'owner',
+      }
+    ]);
+
+  if (memberError) throw memberError;
+
+  return org;
+}
+
+// The active organization is remembered per browser and per account
+const activeOrganizationKey = (userId: string) => `cidertrack:active-organization:${userId}`;
+
+export function getStoredOrganizationId(userId: string) {
+  try {
+    return localStorage.getItem(activeOrganizationKey(userId));
+  } catch {
+    return null;
+  }
+}
+
+export function storeActiveOrganizationId(userId: string, organizationId: string | null) {
+  try {
+    if (organizationId) {
+      localStorage.setItem(activeOrganizationKey(userId), organizationId);
+    } else {
+      localStorage.removeItem(activeOrganizationKey(userId));
+    }
+  } catch {
+    // Storage can be unavailable (e.g. private browsing); the first membership is used instead
+  }
+}
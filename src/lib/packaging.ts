@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export type PackagingFormat = 'bottle' | 'can' | 'keg' | 'bag-in-box' | 'growler' | 'other';
+
+// Mirrors the CHECK constraint on packaging_schedules.format
+export const PACKAGING_FORMATS: { value: PackagingFormat; label: string; className: string }[] = [
+  { value: 'bottle', label: 'Bottle', className: 'bg-blue-100 text-blue-900 dark:bg-blue-950 dark:text-blue-100' },
+  { value: 'can', label: 'Can', className: 'bg-emerald-100 text-emerald-900 dark:bg-emerald-950 dark:text-emerald-100' },
+  { value: 'keg', label: 'Keg', className: 'bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100' },
+  { value: 'bag-in-box', label: 'Bag-in-box', className: 'bg-purple-100 text-purple-900 dark:bg-purple-950 dark:text-purple-100' },
+  { value: 'growler', label: 'Growler', className: 'bg-rose-100 text-rose-900 dark:bg-rose-950 dark:text-rose-100' },
+  { value: 'other', label: 'Other', className: 'bg-muted text-muted-foreground' },
+];
+
+export const getPackagingFormat = (value: string) =>
+  PACKAGING_FORMATS.find((format) => format.value === value) ?? PACKAGING_FORMATS[PACKAGING_FORMATS.length - 1];
+
+// Zod validation schema, shared by the schedule and bulk scheduling from the dashboard
+export const packagingRunSchema = z.object({
+  batch_id: z.string().uuid("Select a batch"),
+  target_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  format: z.enum(['bottle', 'can', 'keg', 'bag-in-box', 'growler', 'other']),
+  quantity: z.number().int("Quantity must be a whole number").min(0, "Quantity cannot be negative").max(1000000, "Quantity must be less than 1,000,000").nullable(),
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+});
@@ -0,0 +1,19 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Profile = Tables<'profiles'>;
+
+export type MemberWithProfile = Tables<'organization_members'> & {
+  profiles: Profile | null;
+};
+
+export const getDisplayName = (profile: Pick<Profile, 'full_name' | 'email'> | null | undefined) =>
+  profile?.full_name || profile?.email || 'Unknown member';
+
+export function getInitials(name: string) {
+  const parts = name.replace(/@.*$/, '').split(/[\s._-]+/).filter(Boolean);
+  if (parts.length === 0) return '?';
+  return parts
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+}
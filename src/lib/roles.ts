@@ -0,0 +1,39 @@
+import type { MemberRole } from '@/hooks/use-organization';
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+// Keep in sync with the capability CHECK on public.role_permissions
+export const CAPABILITIES = [
+  'create_batch',
+  'edit_batch',
+  'delete_batch',
+  'log_readings',
+  'record_tastings',
+  'manage_packaging',
+  'manage_stages',
+  'manage_members',
+  'view_activity',
+  'manage_vessels',
+  'manage_varieties',
+  'record_intake',
+] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+/**
+ * Mirrors the organization_members RLS policies so the UI only offers what the database allows:
+ * owners manage everyone but themselves, members with `manage_members` manage plain members,
+ * and the owner row is only changed through an ownership transfer.
+ */
+export function canManageMember(
+  actor: { userId: string; role: MemberRole | null | undefined; canManageMembers: boolean },
+  target: { user_id: string; role: string }
+) {
+  if (target.role === 'owner' || target.user_id === actor.userId) return false;
+  if (actor.role === 'owner') return true;
+  return actor.canManageMembers && target.role === 'member';
+}
@@ -0,0 +1,118 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ProductionStage = Tables<'production_stages'>;
+export type ProductionStageTransition = Tables<'production_stage_transitions'>;
+export type StageGuardRule = Tables<'stage_guard_rules'>;
+
+export type StageColor = 'default' | 'secondary' | 'outline' | 'destructive';
+
+export const STAGE_COLORS: { value: StageColor; label: string }[] = [
+  { value: 'default', label: 'Solid' },
+  { value: 'secondary', label: 'Muted' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'destructive', label: 'Alert' },
+];
+
+export type GuardRuleType = 'stable_gravity' | 'tasting_note' | 'min_days_in_stage';
+
+export const GUARD_RULE_TYPES: {
+  value: GuardRuleType;
+  label: string;
+  thresholdLabel: string | null;
+  defaultThreshold: number | null;
+}[] = [
+  { value: 'stable_gravity', label: 'Gravity is stable', thresholdLabel: 'Readings', defaultThreshold: 3 },
+  { value: 'tasting_note', label: 'Has a tasting note', thresholdLabel: null, defaultThreshold: null },
+  { value: 'min_days_in_stage', label: 'Minimum days in previous stage', thresholdLabel: 'Days', defaultThreshold: 14 },
+];
+
+/** Human-readable rule, e.g. "Gravity stable over 3 readings" */
+export function describeGuardRule(rule: Pick<StageGuardRule, 'rule_type' | 'threshold'>) {
+  switch (rule.rule_type) {
+    case 'stable_gravity':
+      return `Gravity stable over ${rule.threshold ?? 3} readings`;
+    case 'tasting_note':
+      return 'At least one tasting note';
+    case 'min_days_in_stage':
+      return `At least ${rule.threshold ?? 1} days in the previous stage`;
+    default:
+      return rule.rule_type;
+  }
+}
+
+export type StageTransition = {
+  id: string;
+  nextStage: ProductionStage;
+  label: string;
+};
+
+export type StagePipeline = {
+  stages: ProductionStage[];
+  transitions: ProductionStageTransition[];
+  guardRules: StageGuardRule[];
+  /** Stage new batches start in: the lowest-positioned one */
+  initialStage: ProductionStage | null;
+  /** Stage a fully packaged batch moves to: the first terminal one */
+  finalStage: ProductionStage | null;
+  getStage: (key: string) => ProductionStage | undefined;
+  getTransitions: (key: string) => StageTransition[];
+  isTerminal: (key: string) => boolean;
+  /** Moving to an earlier stage; guard rules never block these */
+  isRollback: (fromKey: string, toKey: string) => boolean;
+  getGuardRules: (key: string) => StageGuardRule[];
+};
+
+export function buildStagePipeline(
+  stages: ProductionStage[],
+  transitions: ProductionStageTransition[],
+  guardRules: StageGuardRule[] = []
+): StagePipeline {
+  const ordered = [...stages].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+  const byKey = new Map(ordered.map((stage) => [stage.key, stage]));
+  const byId = new Map(ordered.map((stage) => [stage.id, stage]));
+
+  const outgoing = new Map<string, StageTransition[]>();
+  transitions.forEach((transition) => {
+    const from = byId.get(transition.from_stage_id);
+    const to = byId.get(transition.to_stage_id);
+    if (!from || !to) return;
+
+    const list = outgoing.get(from.key) ?? [];
+    list.push({ id: transition.id, nextStage: to, label: transition.label });
+    outgoing.set(from.key, list);
+  });
+  outgoing.forEach((list) => list.sort((a, b) => a.nextStage.position - b.nextStage.position));
+
+  return {
+    stages: ordered,
+    transitions,
+    guardRules,
+    initialStage: ordered[0] ?? null,
+    finalStage: ordered.find((stage) => stage.is_terminal) ?? null,
+    getStage: (key) => byKey.get(key),
+    getTransitions: (key) => outgoing.get(key) ?? [],
+    isTerminal: (key) => byKey.get(key)?.is_terminal ?? false,
+    isRollback: (fromKey, toKey) => {
+      const from = byKey.get(fromKey);
+      const to = byKey.get(toKey);
+      return Boolean(from && to && to.position < from.position);
+    },
+    getGuardRules: (key) => {
+      const stage = byKey.get(key);
+      return stage ? guardRules.filter((rule) => rule.stage_id === stage.id) : [];
+    },
+  };
+}
+
+export const getStageColor = (stage: ProductionStage | undefined): StageColor =>
+  (STAGE_COLORS.some((color) => color.value === stage?.color) ? stage.color : 'default') as StageColor;
+
+/** Turn a display name into the stable key stored on batches, e.g. "Keg Conditioning" -> "keg-conditioning" */
+export function toStageKey(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,58 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type TastingNote = Tables<'tasting_notes'>;
+
+export type SensoryAttribute = 'sweetness' | 'acidity' | 'body';
+
+export const SENSORY_ATTRIBUTES: { key: SensoryAttribute; label: string }[] = [
+  { key: 'sweetness', label: 'Sweetness' },
+  { key: 'acidity', label: 'Acidity' },
+  { key: 'body', label: 'Body' },
+];
+
+export type SensoryProfile = Record<SensoryAttribute, number | null>;
+
+export type TastingSession<T extends TastingNote = TastingNote> = {
+  batchId: string;
+  recordedAt: string;
+  notes: T[];
+  profile: SensoryProfile;
+};
+
+/**
+ * Averages each sensory score across the given notes, ignoring unscored attributes.
+ */
+export function averageProfile(notes: Pick<TastingNote, SensoryAttribute>[]): SensoryProfile {
+  return Object.fromEntries(
+    SENSORY_ATTRIBUTES.map(({ key }) => {
+      const scores = notes
+        .map((note) => note[key])
+        .filter((score): score is number => score !== null && score !== undefined);
+      const average = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+      return [key, average];
+    })
+  ) as SensoryProfile;
+}
+
+/**
+ * Notes recorded for the same batch on the same day form one tasting session,
+ * where each team member scores independently. Sessions are returned newest first.
+ */
+export function groupTastingSessions<T extends TastingNote>(notes: T[]): TastingSession<T>[] {
+  const sessions = new Map<string, T[]>();
+  notes.forEach((note) => {
+    const key = `${note.batch_id}:${note.recorded_at}`;
+    sessions.set(key, [...(sessions.get(key) ?? []), note]);
+  });
+
+  return [...sessions.values()]
+    .map((sessionNotes) => ({
+      batchId: sessionNotes[0].batch_id,
+      recordedAt: sessionNotes[0].recorded_at,
+      notes: sessionNotes,
+      profile: averageProfile(sessionNotes),
+    }))
+    .sort((a, b) => new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime());
+}
+
+export const formatScore = (score: number | null) => (score === null ? '—' : score.toFixed(1));
@@ -0,0 +1,160 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatGravity } from '@/lib/fermentation';
+import { getPackagingFormat } from '@/lib/packaging';
+import { groupTastingSessions, SENSORY_ATTRIBUTES, formatScore } from '@/lib/tasting';
+
+export type StageHistoryEntry = Tables<'batch_stage_history'>;
+type FermentationLog = Tables<'fermentation_logs'>;
+type TastingNote = Tables<'tasting_notes'>;
+type PackagingRun = Tables<'packaging_schedules'>;
+
+export type StagePeriod = {
+  stage: string;
+  enteredAt: Date;
+  leftAt: Date | null;
+  days: number;
+};
+
+/**
+ * Splits the history into consecutive periods, oldest first. The last period is
+ * still open and is measured up to `now`.
+ */
+export function getStagePeriods(history: StageHistoryEntry[], now = new Date()): StagePeriod[] {
+  const ordered = [...history].sort(
+    (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+  );
+
+  return ordered.map((entry, index) => {
+    const enteredAt = new Date(entry.changed_at);
+    const next = ordered[index + 1];
+    const leftAt = next ? new Date(next.changed_at) : null;
+    return {
+      stage: entry.to_stage,
+      enteredAt,
+      leftAt,
+      days: differenceInCalendarDays(leftAt ?? now, enteredAt),
+    };
+  });
+}
+
+/**
+ * Total days per stage. Rolled-back batches can visit a stage more than once,
+ * so repeated periods are added together. Keys keep first-visit order.
+ */
+export function getDaysByStage(periods: StagePeriod[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  periods.forEach((period) => {
+    totals.set(period.stage, (totals.get(period.stage) ?? 0) + period.days);
+  });
+  return totals;
+}
+
+export function getDaysInCurrentStage(history: StageHistoryEntry[], now = new Date()): number | null {
+  const periods = getStagePeriods(history, now);
+  return periods.length ? periods[periods.length - 1].days : null;
+}
+
+export const getBatchAgeDays = (startDate: string, now = new Date()) =>
+  differenceInCalendarDays(now, parseISO(startDate));
+
+export const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+export type TimelineEventKind = 'stage' | 'reading' | 'tasting' | 'packaging';
+
+export type TimelineEvent = {
+  id: string;
+  kind: TimelineEventKind;
+  at: Date;
+  title: string;
+  description: string | null;
+  userId: string | null;
+  upcoming: boolean;
+};
+
+type TimelineSources = {
+  history: StageHistoryEntry[];
+  logs: FermentationLog[];
+  tastings: TastingNote[];
+  runs: PackagingRun[];
+  getStageName: (key: string) => string;
+};
+
+/**
+ * Merges everything that happened to a batch into one list, newest first.
+ * Packaging runs that are not completed yet show up at their target date as upcoming events.
+ */
+export function buildTimeline(
+  { history, logs, tastings, runs, getStageName }: TimelineSources,
+  now = new Date()
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  history.forEach((entry) => {
+    events.push({
+      id: `stage-${entry.id}`,
+      kind: 'stage',
+      at: new Date(entry.changed_at),
+      title: entry.from_stage
+        ? `${getStageName(entry.from_stage)} → ${getStageName(entry.to_stage)}`
+        : `Started in ${getStageName(entry.to_stage)}`,
+      description: entry.note,
+      userId: entry.changed_by,
+      upcoming: false,
+    });
+  });
+
+  logs.forEach((log) => {
+    const readings = [
+      log.specific_gravity !== null ? `SG ${formatGravity(log.specific_gravity)}` : null,
+      log.temperature !== null ? `${log.temperature}°C` : null,
+      log.ph !== null ? `pH ${log.ph}` : null,
+    ].filter(Boolean);
+
+    events.push({
+      id: `reading-${log.id}`,
+      kind: 'reading',
+      at: parseISO(log.recorded_at),
+      title: readings.length ? `Reading: ${readings.join(' · ')}` : 'Fermentation reading',
+      description: log.notes,
+      userId: log.created_by,
+      upcoming: false,
+    });
+  });
+
+  groupTastingSessions(tastings).forEach((session) => {
+    const scores = SENSORY_ATTRIBUTES
+      .filter(({ key }) => session.profile[key] !== null)
+      .map(({ key, label }) => `${label} ${formatScore(session.profile[key])}`);
+
+    events.push({
+      id: `tasting-${session.batchId}-${session.recordedAt}`,
+      kind: 'tasting',
+      at: parseISO(session.recordedAt),
+      title: `Tasting with ${session.notes.length} ${session.notes.length === 1 ? 'taster' : 'tasters'}`,
+      description: scores.length ? scores.join(' · ') : null,
+      userId: null,
+      upcoming: false,
+    });
+  });
+
+  runs.forEach((run) => {
+    const runFormat = getPackagingFormat(run.format);
+    const quantity = run.quantity !== null ? ` (${run.quantity} units)` : '';
+    const at = run.completed_at ? new Date(run.completed_at) : parseISO(run.target_date);
+
+    events.push({
+      id: `packaging-${run.id}`,
+      kind: 'packaging',
+      at,
+      title: run.completed_at
+        ? `Packaged as ${runFormat.label}${quantity}`
+        : `${runFormat.label} packaging scheduled${quantity}`,
+      description: run.notes,
+      userId: run.created_by,
+      upcoming: !run.completed_at && at > now,
+    });
+  });
+
+  return events.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type BatchTransfer = Tables<'batch_transfers'>;
+export type BatchVolumeEntry = Tables<'batch_volume_entries'>;
+
+export type TransferType = 'rack' | 'split' | 'top_up' | 'loss' | 'adjustment';
+
+// Mirror the CHECK constraint on public.batch_transfers
+export const TRANSFER_TYPES: { value: TransferType; label: string; description: string }[] = [
+  { value: 'rack', label: 'Rack', description: 'Move the batch off its lees into another vessel.' },
+  { value: 'split', label: 'Split', description: 'Divide the batch across several vessels.' },
+  { value: 'top_up', label: 'Top Up', description: 'Add juice or cider to fill a vessel.' },
+  { value: 'loss', label: 'Record Loss', description: 'Evaporation, sampling or a spill.' },
+  { value: 'adjustment', label: 'Adjust', description: 'Correct the volume after measuring a vessel.' },
+];
+
+// 'blend' is written by blend_batches only, so it isn't one of the choices above
+export const getTransferTypeLabel = (value: string) =>
+  value === 'blend' ? 'Blend' : TRANSFER_TYPES.find((type) => type.value === value)?.label ?? value;
+
+// Zod validation schema
+export const transferSchema = z.object({
+  transfer_type: z.enum(['rack', 'split', 'top_up', 'loss', 'adjustment']),
+  destinations: z.array(z.object({
+    vessel_id: z.string().uuid().nullable(),
+    volume: z.number({ required_error: "Enter a volume for every destination" }).min(0, "Volume cannot be negative").max(100000, "Volume must be less than 100,000 liters"),
+  })),
+  loss: z.number().min(0, "Loss cannot be negative").max(100000, "Loss must be less than 100,000 liters"),
+  transferred_at: z.string().min(1, "Date is required"),
+  note: z.string().trim().max(1000, "Note must be less than 1000 characters"),
+});
+
+export type VolumeLedgerSummary = {
+  initial: number;
+  toppedUp: number;
+  lost: number;
+  adjusted: number;
+  current: number;
+  /** Share of everything that went into the batch that was lost, from 0 to 100 */
+  lossPercent: number | null;
+};
+
+export function summarizeVolumeLedger(entries: Pick<BatchVolumeEntry, 'entry_type' | 'volume_change'>[]): VolumeLedgerSummary {
+  const total = (type: string) =>
+    entries
+      .filter((entry) => entry.entry_type === type)
+      .reduce((sum, entry) => sum + Number(entry.volume_change), 0);
+
+  const initial = total('initial');
+  const toppedUp = total('top_up');
+  const lost = -total('loss');
+  const adjusted = total('adjustment');
+  const current = entries.reduce((sum, entry) => sum + Number(entry.volume_change), 0);
+  const input = initial + toppedUp;
+
+  return {
+    initial,
+    toppedUp,
+    lost,
+    adjusted,
+    current,
+    lossPercent: input > 0 ? (lost / input) * 100 : null,
+  };
+}
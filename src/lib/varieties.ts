@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Variety = Tables<'varieties'>;
+
+export type VarietyClass = 'sweet' | 'sharp' | 'bittersweet' | 'bittersharp';
+
+// Mirror the CHECK constraint on public.varieties
+export const VARIETY_CLASSES: { value: VarietyClass; label: string; description: string }[] = [
+  { value: 'sweet', label: 'Sweet', description: 'Low acid, low tannin. Adds sugar and body.' },
+  { value: 'sharp', label: 'Sharp', description: 'High acid, low tannin. Adds freshness.' },
+  { value: 'bittersweet', label: 'Bittersweet', description: 'Low acid, high tannin. The backbone of West Country cider.' },
+  { value: 'bittersharp', label: 'Bittersharp', description: 'High acid, high tannin. Complex on its own.' },
+];
+
+export const getVarietyClassLabel = (value: string | null) =>
+  value ? VARIETY_CLASSES.find((varietyClass) => varietyClass.value === value)?.label ?? value : null;
+
+/** Same folding the database uses to tell whether two names are one variety */
+export const normalizeVarietyName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+// Zod validation schema
+export const varietySchema = z.object({
+  name: z.string().trim().min(1, "Variety name is required").max(100, "Variety name must be less than 100 characters"),
+  variety_class: z.enum(['sweet', 'sharp', 'bittersweet', 'bittersharp']).nullable(),
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+});
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Vessel = Tables<'vessels'>;
+export type VesselContent = Tables<'vessel_contents'>;
+
+export type VesselType = 'tank' | 'barrel' | 'ibc' | 'carboy' | 'other';
+export type VesselMaterial = 'stainless_steel' | 'oak' | 'plastic' | 'glass' | 'other';
+
+// Mirror the CHECK constraints on public.vessels
+export const VESSEL_TYPES: { value: VesselType; label: string }[] = [
+  { value: 'tank', label: 'Tank' },
+  { value: 'barrel', label: 'Barrel' },
+  { value: 'ibc', label: 'IBC' },
+  { value: 'carboy', label: 'Carboy' },
+  { value: 'other', label: 'Other' },
+];
+
+export const VESSEL_MATERIALS: { value: VesselMaterial; label: string }[] = [
+  { value: 'stainless_steel', label: 'Stainless steel' },
+  { value: 'oak', label: 'Oak' },
+  { value: 'plastic', label: 'Plastic' },
+  { value: 'glass', label: 'Glass' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getVesselTypeLabel = (value: string) =>
+  VESSEL_TYPES.find((type) => type.value === value)?.label ?? value;
+
+export const getVesselMaterialLabel = (value: string | null) =>
+  value ? VESSEL_MATERIALS.find((material) => material.value === value)?.label ?? value : null;
+
+// Zod validation schema
+export const vesselSchema = z.object({
+  name: z.string().trim().min(1, "Vessel name is required").max(100, "Vessel name must be less than 100 characters"),
+  vessel_type: z.enum(['tank', 'barrel', 'ibc', 'carboy', 'other']),
+  capacity: z.number().positive("Capacity must be a positive number").max(1000000, "Capacity must be less than 1,000,000 liters"),
+  material: z.enum(['stainless_steel', 'oak', 'plastic', 'glass', 'other']).nullable(),
+  location: z.string().trim().max(100, "Location must be less than 100 characters"),
+  notes: z.string().trim().max(1000, "Notes must be less than 1000 characters"),
+});
+
+/** Share of the vessel the batch takes up, from 0 to 100 */
+export function getFillLevel(volume: number, capacity: number) {
+  if (capacity <= 0) return 0;
+  return Math.min(100, Math.max(0, (Number(volume) / Number(capacity)) * 100));
+}
+
+/** Liters of the batch that sit outside any vessel, e.g. before it is first racked into one */
+export function getVolumeOutsideVessels(batch: { volume: number }, contents: { volume: number | null }[]) {
+  const inVessels = contents.reduce((sum, content) => sum + Number(content.volume), 0);
+  // batches.volume has two decimals; ignore float noise from summing the ledger
+  return Math.max(0, Math.round((Number(batch.volume) - inVessels) * 100) / 100);
+}
+
+/**
+ * Empty vessels that can hold the given volume, tightest fit first,
+ * so the first one is the natural suggestion for a new batch.
+ * Vessels that only hold `excludeBatchId` count as empty.
+ */
+export function getSuitableVessels(
+  vessels: Vessel[],
+  contents: { vessel_id: string | null; batch_id: string | null }[],
+  volume: number | null,
+  excludeBatchId?: string
+) {
+  const occupied = new Set(
+    contents.filter((content) => content.batch_id !== excludeBatchId).map((content) => content.vessel_id)
+  );
+
+  return vessels
+    .filter((vessel) => !occupied.has(vessel.id))
+    .filter((vessel) => volume === null || Number(vessel.capacity) >= volume)
+    .sort((a, b) => Number(a.capacity) - Number(b.capacity) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,216 @@
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { AlertTriangle, Loader2, MailOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { User } from '@supabase/supabase-js';
+import { isInvitationExpired } from '@/lib/invitations';
+import { storeActiveOrganizationId } from '@/lib/organizations';
+
+type InvitationSummary = {
+  organization_name: string;
+  email: string;
+  role: string;
+  expires_at: string;
+  accepted_at: string | null;
+};
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    isLoading: userLoading,
+  } = useQuery<User | null>({
+    queryKey: ['auth-user'],
+    queryFn: async () => {
+      const { data } = await supabase.auth.getUser();
+      return data.user;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const {
+    data: invitation,
+    isLoading: invitationLoading,
+  } = useQuery<InvitationSummary | null>({
+    queryKey: ['invitation', token],
+    enabled: Boolean(token),
+    queryFn: async () => {
+      if (!token || !uuidPattern.test(token)) return null;
+      const { data, error } = await supabase.rpc('get_invitation', { invite_token: token });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  });
+
+  const acceptMutation = useMutation<string, Error, string>({
+    mutationFn: async (inviteToken) => {
+      const { data, error } = await supabase.rpc('accept_invitation', { invite_token: inviteToken });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (organizationId) => {
+      toast({
+        title: 'Welcome aboard!',
+        description: `You've joined ${invitation?.organization_name}.`,
+      });
+
+      // Open the dashboard in the organization that was just joined
+      if (user) storeActiveOrganizationId(user.id, organizationId);
+
+      // Force a full page reload to update App.tsx state
+      window.location.href = '/dashboard';
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error accepting invitation',
+        description: error.message,
+      });
+    },
+  });
+
+  function renderContent() {
+    if (userLoading || invitationLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (!invitation) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-muted-foreground">
+            This invitation link is invalid or has been revoked. Ask the person who invited you for a new one.
+          </p>
+          <Button className="w-full" onClick={() => navigate('/')}>Go to homepage</Button>
+        </div>
+      );
+    }
+
+    if (invitation.accepted_at) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-muted-foreground">This invitation has already been accepted.</p>
+          <Button className="w-full" onClick={() => navigate(user ? '/dashboard' : '/auth')}>
+            {user ? 'Go to dashboard' : 'Sign in'}
+          </Button>
+        </div>
+      );
+    }
+
+    if (isInvitationExpired(invitation)) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-muted-foreground">
+            This invitation expired on {format(new Date(invitation.expires_at), 'PPP')}. Ask an admin of{' '}
+            <strong>{invitation.organization_name}</strong> to resend it.
+          </p>
+          <Button variant="outline" className="w-full" onClick={() => navigate('/')}>Go to homepage</Button>
+        </div>
+      );
+    }
+
+    const emailMismatch = user?.email && user.email.toLowerCase() !== invitation.email;
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Invited email</span>
+            <span className="font-medium">{invitation.email}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Role</span>
+            <span className="font-medium capitalize">{invitation.role}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Expires</span>
+            <span className="font-medium">{format(new Date(invitation.expires_at), 'PPP')}</span>
+          </div>
+        </div>
+
+        {!user ? (
+          <Button
+            className="w-full"
+            onClick={() => navigate('/auth', { state: { from: location.pathname } })}
+          >
+            Sign in to accept
+          </Button>
+        ) : (
+          <>
+            {emailMismatch && (
+              <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive mt-0.5" />
+                <p>
+                  You're signed in as <strong>{user.email}</strong>. Sign in as {invitation.email} to accept this invitation.
+                </p>
+              </div>
+            )}
+            <Button
+              className="w-full"
+              disabled={Boolean(emailMismatch) || acceptMutation.isPending || !token}
+              onClick={() => token && acceptMutation.mutate(token)}
+            >
+              {acceptMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Joining...
+                </>
+              ) : (
+                'Accept invitation'
+              )}
+            </Button>
+            {emailMismatch && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={async () => {
+                  await supabase.auth.signOut();
+                  navigate('/auth', { state: { from: location.pathname } });
+                }}
+              >
+                Switch account
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-accent to-background flex items-center justify-center px-6">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="bg-primary/10 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+            <MailOpen className="h-8 w-8 text-primary" />
+          </div>
+          <h2 className="text-3xl font-bold mb-2">
+            {invitation?.organization_name ? `Join ${invitation.organization_name}` : 'Team Invitation'}
+          </h2>
+          <p className="text-muted-foreground">
+            You've been invited to track cider production together on CiderTrack
+          </p>
+        </div>
+
+        <div className="bg-card rounded-xl border p-8">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useMemo, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, History, Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useOrganization } from '@/hooks/use-organization';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { useBatchNames } from '@/hooks/use-batch-names';
+import { usePermissions } from '@/hooks/use-permissions';
+import { AuditEntryItem } from '@/components/audit/AuditEntryItem';
+import { AUDIT_ACTIONS, AUDIT_TABLES, getAuditRecordName, type AuditEntry } from '@/lib/audit';
+import { getDisplayName } from '@/lib/profiles';
+import { addDays, format, parseISO } from 'date-fns';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+
+const PAGE_SIZE = 50;
+
+type ActivityFilters = {
+  table: string;
+  action: string;
+  actor: string;
+  from: string;
+  to: string;
+};
+
+const emptyFilters: ActivityFilters = { table: 'all', action: 'all', actor: 'all', from: '', to: '' };
+
+export default function Activity() {
+  const navigate = useNavigate();
+  const { user, organization, organizationId, role, isLoading: organizationLoading } = useOrganization();
+  const { members, getMemberName } = useOrganizationMembers(organizationId);
+  const { can, isLoading: permissionsLoading } = usePermissions(role);
+
+  const [filters, setFilters] = useState<ActivityFilters>(emptyFilters);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const canViewActivity = can('view_activity');
+
+  function updateFilter(key: keyof ActivityFilters, value: string) {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setLimit(PAGE_SIZE);
+  }
+
+  const {
+    data: entries = [],
+    isLoading: entriesLoading,
+    isFetching: entriesFetching,
+  } = useQuery<AuditEntry[]>({
+    queryKey: ['audit-log', organizationId, filters, limit],
+    enabled: Boolean(organizationId) && canViewActivity,
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      if (!organizationId) return [];
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (filters.table !== 'all') query = query.eq('table_name', filters.table);
+      if (filters.action !== 'all') query = query.eq('action', filters.action);
+      if (filters.actor !== 'all') query = query.eq('actor_id', filters.actor);
+      if (filters.from) query = query.gte('created_at', parseISO(filters.from).toISOString());
+      // The "to" date is inclusive
+      if (filters.to) query = query.lt('created_at', addDays(parseISO(filters.to), 1).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Includes batches in the trash so their entries still show a name
+  const { batchNames } = useBatchNames(canViewActivity ? organizationId : null);
+
+  const hasFilters = useMemo(
+    () => (Object.keys(emptyFilters) as (keyof ActivityFilters)[]).some((key) => filters[key] !== emptyFilters[key]),
+    [filters]
+  );
+
+  if (organizationLoading || permissionsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  if (!canViewActivity) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background px-6 text-center space-y-4">
+        <ShieldAlert className="h-10 w-10 text-primary" />
+        <h1 className="text-2xl font-semibold">Activity is limited to admins</h1>
+        <p className="text-muted-foreground max-w-sm">
+          Ask an owner or admin if you need to see who changed what. Each batch's own history is on its detail page.
+        </p>
+        <Button onClick={() => navigate('/dashboard')}>
+          Back to dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/dashboard')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Activity</h1>
+              <p className="text-sm text-muted-foreground">{organization.name}</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6">
+        {/* Filters */}
+        <div className="bg-card rounded-xl border p-6">
+          <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Record</Label>
+              <Select value={filters.table} onValueChange={(value) => updateFilter('table', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {AUDIT_TABLES.map((table) => (
+                    <SelectItem key={table.value} value={table.value}>
+                      {table.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={(value) => updateFilter('action', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action.value} value={action.value}>
+                      {action.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Changed by</Label>
+              <Select value={filters.actor} onValueChange={(value) => updateFilter('actor', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {getDisplayName(member.profiles)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="activity-from">From</Label>
+              <Input
+                id="activity-from"
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilter('from', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="activity-to">To</Label>
+              <Input
+                id="activity-to"
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilter('to', e.target.value)}
+              />
+            </div>
+          </div>
+
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mt-4"
+              onClick={() => {
+                setFilters(emptyFilters);
+                setLimit(PAGE_SIZE);
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {/* Entries */}
+        <div className="bg-card rounded-xl border p-6">
+          {entriesLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3, 4].map(i => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-10 space-y-2">
+              <History className="h-8 w-8 text-muted-foreground mx-auto" />
+              <p className="text-sm text-muted-foreground">
+                {hasFilters ? 'No activity matches these filters.' : 'No activity recorded yet.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry, index) => {
+                const previous = entries[index - 1];
+                const day = format(new Date(entry.created_at), 'yyyy-MM-dd');
+                const showDay = !previous || format(new Date(previous.created_at), 'yyyy-MM-dd') !== day;
+                const batchName = entry.batch_id
+                  ? batchNames.get(entry.batch_id) ?? (entry.table_name === 'batches' ? getAuditRecordName(entry) : null)
+                  : null;
+                const batchExists = Boolean(entry.batch_id && batchNames.has(entry.batch_id));
+
+                return (
+                  <div key={entry.id} className="space-y-2">
+                    {showDay && (
+                      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide pt-2">
+                        {format(new Date(entry.created_at), 'PPPP')}
+                      </p>
+                    )}
+                    <AuditEntryItem
+                      entry={entry}
+                      actorName={entry.actor_id === user?.id ? 'You' : getMemberName(entry.actor_id) ?? 'System'}
+                      batchName={batchName}
+                      onOpenBatch={batchExists ? () => navigate(`/batches/${entry.batch_id}`) : undefined}
+                    />
+                  </div>
+                );
+              })}
+
+              {entries.length === limit && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-4"
+                  disabled={entriesFetching}
+                  onClick={() => setLimit((current) => current + PAGE_SIZE)}
+                >
+                  {entriesFetching ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Loading...
+                    </>
+                  ) : (
+                    'Load more'
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Wine, Mail, Lock, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -26,7 +26,10 @@ const signInSchema = z.object({
 
 export default function Auth() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  // Where the user was heading before being sent here, e.g. a batch link or an invitation
+  const from = (location.state as { from?: string } | null)?.from;
   const [isSignUp, setIsSignUp] = useState(false);
   const [loading, setLoading] = useState(false);
   
@@ -84,9 +87,11 @@ export default function Auth() {
         if (data.user) {
           toast({
             title: "Account created!",
-            description: "Welcome to CiderTrack. Let's set up your organization.",
+            description: from
+              ? "Welcome to CiderTrack."
+              : "Welcome to CiderTrack. Let's set up your organization.",
           });
-          navigate('/onboarding');
+          navigate(from ?? '/onboarding');
         }
       } else {
         const { data, error } = await supabase.auth.signInWithPassword({
@@ -101,9 +106,11 @@ export default function Auth() {
             .from('organization_members')
             .select('organization_id')
             .eq('user_id', data.user.id)
-            .maybeSingle();
+            .limit(1);
 
-          if (orgData) {
+          if (from) {
+            navigate(from);
+          } else if (orgData?.length) {
             navigate('/dashboard');
           } else {
             navigate('/onboarding');
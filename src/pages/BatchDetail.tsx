@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Download, Link as LinkIcon, PackageX, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { BatchMetrics } from '@/components/batches/BatchMetrics';
+import { FermentationChart } from '@/components/batches/FermentationChart';
+import { FermentationLogs } from '@/components/batches/FermentationLogs';
+import { TastingNotes } from '@/components/batches/TastingNotes';
+import { PackagingRuns } from '@/components/batches/PackagingRuns';
+import { StageProgression } from '@/components/batches/StageProgression';
+import { BatchTimeline } from '@/components/batches/BatchTimeline';
+import { BatchAuditLog } from '@/components/batches/BatchAuditLog';
+import { VolumeLedger } from '@/components/batches/VolumeLedger';
+import { BatchLineage } from '@/components/batches/BatchLineage';
+import { BatchFruitIntake } from '@/components/batches/BatchFruitIntake';
+import { ExportDialog } from '@/components/export/ExportDialog';
+import { getFermentationLogExportColumns, getTastingNoteExportColumns } from '@/lib/export-columns';
+import type { ExportDataset } from '@/lib/export';
+import { getFermentationMetrics } from '@/lib/fermentation';
+import { StageBadge } from '@/components/batches/StageBadge';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useVessels } from '@/hooks/use-vessels';
+import { useVarieties } from '@/hooks/use-varieties';
+import { getVarietyClassLabel } from '@/lib/varieties';
+
+type BatchRow = Tables<'batches'>;
+type FermentationLog = Tables<'fermentation_logs'>;
+type TastingNote = Tables<'tasting_notes'>;
+
+const sections = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'cellar', label: 'Cellar' },
+  { id: 'lineage', label: 'Lineage' },
+  { id: 'logs', label: 'Fermentation' },
+  { id: 'tastings', label: 'Tastings' },
+  { id: 'packaging', label: 'Packaging' },
+  { id: 'history', label: 'History' },
+];
+
+export default function BatchDetail() {
+  const { id: batchId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const {
+    user,
+    memberships,
+    organizationId,
+    role,
+    switchOrganization,
+    isLoading: organizationLoading,
+  } = useOrganization();
+  const { pipeline } = useProductionStages(organizationId);
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const { getVessel, getBatchContents } = useVessels(organizationId);
+  const { getVariety } = useVarieties(organizationId);
+  const { can } = usePermissions(role);
+
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  const {
+    data: batch,
+    isLoading: batchLoading,
+  } = useQuery<BatchRow | null>({
+    queryKey: ['batch', batchId],
+    enabled: Boolean(batchId),
+    queryFn: async () => {
+      if (!batchId) return null;
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('id', batchId)
+        .maybeSingle();
+
+      // Malformed ids are reported as errors by PostgREST; treat them like a missing batch
+      if (error) return null;
+      return data;
+    },
+  });
+
+  // Shared links may point at a batch in another of the user's organizations; follow them there
+  const batchOrganizationId = batch?.organization_id;
+  const belongsToOtherMembership =
+    Boolean(batchOrganizationId) &&
+    batchOrganizationId !== organizationId &&
+    memberships.some((membership) => membership.organization_id === batchOrganizationId);
+
+  useEffect(() => {
+    if (belongsToOtherMembership && batchOrganizationId) {
+      switchOrganization(batchOrganizationId);
+    }
+  }, [belongsToOtherMembership, batchOrganizationId, switchOrganization]);
+
+  const {
+    data: batches = [],
+  } = useQuery<BatchRow[]>({
+    queryKey: ['batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Prefer the org-wide list once loaded so stage changes made elsewhere show up here
+  const currentBatch = batches.find((item) => item.id === batchId) ?? batch ?? null;
+
+  const {
+    data: logs = [],
+  } = useQuery<FermentationLog[]>({
+    queryKey: ['fermentation-logs', batchId],
+    enabled: Boolean(currentBatch),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Same key as the Tastings section, which loads these anyway
+  const {
+    data: tastingNotes = [],
+  } = useQuery<TastingNote[]>({
+    queryKey: ['tasting-notes', batchId],
+    enabled: Boolean(currentBatch),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasting_notes')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('recorded_at', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const metrics = useMemo(
+    () => getFermentationMetrics(logs, currentBatch?.target_gravity ?? null),
+    [logs, currentBatch?.target_gravity]
+  );
+
+  const exportDatasets = useMemo<ExportDataset<unknown>[]>(() => [
+    {
+      id: 'fermentation-logs',
+      label: 'Fermentation logs',
+      name: 'fermentation logs',
+      rows: logs,
+      columns: getFermentationLogExportColumns(getMemberName),
+    },
+    {
+      id: 'tasting-notes',
+      label: 'Tasting notes',
+      name: 'tasting notes',
+      rows: tastingNotes,
+      columns: getTastingNoteExportColumns(getMemberName),
+    },
+  ], [logs, tastingNotes, getMemberName]);
+
+  function handleBack() {
+    // Deep links open in a fresh tab with no in-app history to go back to
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate('/dashboard');
+    }
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: 'Link copied!',
+        description: 'Share it with your team to open this batch.',
+      });
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Could not copy the link to your clipboard.',
+      });
+    }
+  }
+
+  if (organizationLoading || batchLoading || belongsToOtherMembership) {
+    return (
+      <div className="min-h-screen bg-background">
+        <header className="border-b bg-card">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center gap-4">
+              <Skeleton className="h-10 w-10" />
+              <Skeleton className="h-8 w-48" />
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-card rounded-xl border p-6 space-y-4">
+              <Skeleton className="h-6 w-32" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ))}
+        </main>
+      </div>
+    );
+  }
+
+  // RLS hides batches from other organizations, so foreign batches look the same as missing ones
+  if (!currentBatch || currentBatch.organization_id !== organizationId) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background px-6 text-center space-y-4">
+        <PackageX className="h-10 w-10 text-primary" />
+        <h1 className="text-2xl font-semibold">Batch not found</h1>
+        <p className="text-muted-foreground max-w-sm">
+          This batch doesn't exist or belongs to an organization you're not a member of.
+        </p>
+        <Button onClick={() => navigate('/dashboard')}>
+          Back to dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  if (currentBatch.deleted_at) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background px-6 text-center space-y-4">
+        <Trash2 className="h-10 w-10 text-primary" />
+        <h1 className="text-2xl font-semibold">{currentBatch.name} is in the trash</h1>
+        <p className="text-muted-foreground max-w-sm">
+          It was deleted {format(new Date(currentBatch.deleted_at), 'PPP')}. Restore it from the trash to keep working on it.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button onClick={() => navigate('/trash')}>
+            Open trash
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/dashboard')}>
+            Back to dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <Button variant="ghost" size="icon" onClick={handleBack}>
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h1 className="text-2xl font-bold truncate">{currentBatch.name}</h1>
+                  <StageBadge stageKey={currentBatch.current_stage} pipeline={pipeline} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {currentBatch.variety}
+                  {currentBatch.created_by && ` · Created by ${currentBatch.created_by === user?.id ? 'you' : getMemberName(currentBatch.created_by)}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setShowExportDialog(true)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+              <Button variant="outline" onClick={copyLink}>
+                <LinkIcon className="h-4 w-4 mr-2" />
+                Copy Link
+              </Button>
+            </div>
+          </div>
+
+          <nav className="flex gap-4 mt-4 text-sm overflow-x-auto">
+            {sections.map((section) => (
+              <a
+                key={section.id}
+                href={`#${section.id}`}
+                className="text-muted-foreground hover:text-foreground whitespace-nowrap"
+              >
+                {section.label}
+              </a>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        title="Export Batch Records"
+        description={`Fermentation logs and tasting notes for ${currentBatch.name}.`}
+        fileName={currentBatch.name}
+        datasets={exportDatasets}
+      />
+
+      <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6">
+        {/* Overview */}
+        <section id="overview" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Overview</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Volume</p>
+              <p className="font-medium">{Number(currentBatch.volume).toFixed(1)} L</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Start Date</p>
+              <p className="font-medium">{format(new Date(currentBatch.start_date), 'PPP')}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Variety</p>
+              <p className="font-medium">{currentBatch.variety}</p>
+              {getVariety(currentBatch.variety_id)?.variety_class && (
+                <p className="text-xs text-muted-foreground">
+                  {getVarietyClassLabel(getVariety(currentBatch.variety_id).variety_class)}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Current Stage</p>
+              <p className="font-medium">{pipeline.getStage(currentBatch.current_stage)?.name ?? currentBatch.current_stage}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Vessel</p>
+              <a href="#cellar" className="font-medium hover:underline">
+                {getBatchContents(currentBatch.id)
+                  .map((content) => getVessel(content.vessel_id)?.name)
+                  .filter(Boolean)
+                  .join(', ') || 'None'}
+              </a>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold">Fermentation</h3>
+            <BatchMetrics metrics={metrics} />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold">Production Stage</h3>
+            <StageProgression
+              batch={currentBatch}
+              organizationId={currentBatch.organization_id}
+              readOnly={!can('edit_batch')}
+            />
+          </div>
+        </section>
+
+        {/* Cellar */}
+        <section id="cellar" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Cellar</h2>
+          <VolumeLedger
+            batch={currentBatch}
+            organizationId={currentBatch.organization_id}
+            readOnly={!can('edit_batch')}
+          />
+        </section>
+
+        {/* Lineage */}
+        <section id="lineage" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Lineage</h2>
+          <BatchLineage batch={currentBatch} organizationId={currentBatch.organization_id} />
+          <BatchFruitIntake batchId={currentBatch.id} organizationId={currentBatch.organization_id} />
+        </section>
+
+        {/* Fermentation Logs */}
+        <section id="logs" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Fermentation Logs</h2>
+          <FermentationChart batch={currentBatch} batches={batches} />
+          <FermentationLogs
+            batchId={currentBatch.id}
+            organizationId={currentBatch.organization_id}
+            userId={user?.id}
+            readOnly={!can('log_readings')}
+          />
+        </section>
+
+        {/* Tastings */}
+        <section id="tastings" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Tastings</h2>
+          <TastingNotes batch={currentBatch} batches={batches} userId={user?.id} readOnly={!can('record_tastings')} />
+        </section>
+
+        {/* Packaging */}
+        <section id="packaging" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">Packaging</h2>
+          <PackagingRuns batchId={currentBatch.id} organizationId={currentBatch.organization_id} />
+        </section>
+
+        {/* History */}
+        <section id="history" className="bg-card rounded-xl border p-6 space-y-6 scroll-mt-36">
+          <h2 className="text-xl font-semibold">History</h2>
+          <BatchTimeline batch={currentBatch} pipeline={pipeline} userId={user?.id} />
+
+          <div className="space-y-3">
+            <h3 className="font-semibold">Change Log</h3>
+            <BatchAuditLog batchId={currentBatch.id} organizationId={currentBatch.organization_id} userId={user?.id} />
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,424 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, ArrowRightLeft, Loader2, Pencil, Plus, Trash2, Warehouse } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel,
+  AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { StageBadge } from '@/components/batches/StageBadge';
+import { VesselFormDialog } from '@/components/vessels/VesselFormDialog';
+import { TransferDialog } from '@/components/batches/TransferDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import { useVessels } from '@/hooks/use-vessels';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  getFillLevel,
+  getVesselMaterialLabel,
+  getVesselTypeLabel,
+  getVolumeOutsideVessels,
+  type Vessel,
+} from '@/lib/vessels';
+
+type BatchRow = Tables<'batches'>;
+
+type AssignmentVariables = {
+  batch: BatchRow;
+  vessel: Vessel;
+  volume: number;
+  // Filling moves volume from outside any vessel in; emptying moves it back out
+  direction: 'fill' | 'empty';
+};
+
+export default function Cellar() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, organization, organizationId, role, isLoading: organizationLoading } = useOrganization();
+  const { can } = usePermissions(role);
+  const { pipeline } = useProductionStages(organizationId);
+  const { vessels, contents, getVesselContent, getBatchContents, isLoading: vesselsLoading } = useVessels(organizationId);
+
+  const [isVesselDialogOpen, setIsVesselDialogOpen] = useState(false);
+  const [editingVessel, setEditingVessel] = useState<Vessel | null>(null);
+  const [transferSource, setTransferSource] = useState<{ batch: BatchRow; vesselId: string } | null>(null);
+
+  const canManageVessels = can('manage_vessels');
+  const canAssignBatches = can('edit_batch');
+
+  const {
+    data: batches = [],
+    isLoading: batchesLoading,
+  } = useQuery<BatchRow[]>({
+    queryKey: ['batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const batchById = useMemo(() => new Map(batches.map((batch) => [batch.id, batch])), [batches]);
+
+  // Batches still in production with volume that is not in a vessel yet
+  const unassignedBatches = useMemo(
+    () => batches
+      .filter((batch) => !pipeline.isTerminal(batch.current_stage))
+      .map((batch) => ({ batch, volume: getVolumeOutsideVessels(batch, getBatchContents(batch.id)) }))
+      .filter(({ volume }) => volume > 0),
+    [batches, pipeline, getBatchContents]
+  );
+
+  const vesselsByLocation = useMemo(() => {
+    const groups = new Map<string, Vessel[]>();
+    vessels.forEach((vessel) => {
+      const location = vessel.location || 'No location';
+      groups.set(location, [...(groups.get(location) ?? []), vessel]);
+    });
+    return Array.from(groups.entries());
+  }, [vessels]);
+
+  const locations = useMemo(
+    () => Array.from(new Set(vessels.map((vessel) => vessel.location).filter(Boolean))),
+    [vessels]
+  );
+
+  const totalCapacity = vessels.reduce((sum, vessel) => sum + Number(vessel.capacity), 0);
+  const totalVolume = contents.reduce((sum, content) => sum + Number(content.volume), 0);
+  const emptyCount = vessels.filter((vessel) => !getVesselContent(vessel.id)).length;
+
+  // Both directions are racks through the volume ledger
+  const assignBatchMutation = useMutation<AssignmentVariables, Error, AssignmentVariables>({
+    mutationFn: async (variables) => {
+      const { error } = await supabase.rpc('transfer_batch_volume', {
+        batch_id: variables.batch.id,
+        transfer_type: 'rack',
+        from_vessel_id: variables.direction === 'empty' ? variables.vessel.id : undefined,
+        destinations: [{
+          vessel_id: variables.direction === 'fill' ? variables.vessel.id : null,
+          volume: variables.volume,
+        }],
+      });
+
+      if (error) throw error;
+      return variables;
+    },
+    onSuccess: ({ batch, vessel, direction }) => {
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch', batch.id] });
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch-transfers', batch.id] });
+      queryClient.invalidateQueries({ queryKey: ['batch-volume-entries', batch.id] });
+      toast({
+        title: direction === 'fill' ? 'Batch assigned' : 'Vessel emptied',
+        description: direction === 'fill' ? `${batch.name} is now in ${vessel.name}.` : `${batch.name} was taken out of ${vessel.name}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating vessel',
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteVesselMutation = useMutation<Vessel, Error, Vessel>({
+    mutationFn: async (vessel) => {
+      const { data, error } = await supabase
+        .from('vessels')
+        .delete()
+        .eq('id', vessel.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error("You don't have permission to delete this vessel.");
+      return vessel;
+    },
+    onSuccess: (vessel) => {
+      queryClient.invalidateQueries({ queryKey: ['vessels', organizationId] });
+      // Whatever it held moves outside any vessel through ON DELETE SET NULL on the ledger
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      toast({
+        title: 'Vessel deleted',
+        description: `${vessel.name} was removed from the cellar map.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting vessel',
+        description: error.message,
+      });
+    },
+  });
+
+  function openVesselDialog(vessel: Vessel | null) {
+    setEditingVessel(vessel);
+    setIsVesselDialogOpen(true);
+  }
+
+  if (organizationLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  const isLoading = vesselsLoading || batchesLoading;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold">Cellar</h1>
+                <p className="text-sm text-muted-foreground">{organization.name}</p>
+              </div>
+            </div>
+            {canManageVessels && (
+              <Button onClick={() => openVesselDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Vessel
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">Vessels</p>
+            <p className="text-2xl font-bold">{vessels.length}</p>
+            <p className="text-xs text-muted-foreground">{emptyCount} empty</p>
+          </div>
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">In Vessels</p>
+            <p className="text-2xl font-bold">{totalVolume.toFixed(1)} L</p>
+            <p className="text-xs text-muted-foreground">of {totalCapacity.toFixed(1)} L capacity</p>
+          </div>
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">Awaiting a Vessel</p>
+            <p className="text-2xl font-bold">{unassignedBatches.length}</p>
+            <p className="text-xs text-muted-foreground">batches in production</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : vessels.length === 0 ? (
+          <div className="bg-card rounded-xl border p-6 text-center py-12 space-y-2">
+            <Warehouse className="h-8 w-8 text-muted-foreground mx-auto" />
+            <p className="text-sm text-muted-foreground">
+              {canManageVessels
+                ? 'No vessels yet. Add your tanks, barrels and carboys to build the cellar map.'
+                : 'No vessels have been set up yet.'}
+            </p>
+          </div>
+        ) : (
+          vesselsByLocation.map(([location, locationVessels]) => (
+            <section key={location} className="space-y-3">
+              <h2 className="text-lg font-semibold">{location}</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {locationVessels.map((vessel) => {
+                  const content = getVesselContent(vessel.id);
+                  const batch = content ? batchById.get(content.batch_id) : undefined;
+                  const volume = Number(content?.volume ?? 0);
+                  const capacity = Number(vessel.capacity);
+                  const fillLevel = getFillLevel(volume, capacity);
+                  const material = getVesselMaterialLabel(vessel.material);
+                  const candidates = unassignedBatches.filter((candidate) => candidate.volume <= capacity);
+                  const isBusy = assignBatchMutation.isPending && assignBatchMutation.variables?.vessel.id === vessel.id;
+
+                  return (
+                    <div key={vessel.id} className="bg-card rounded-xl border p-6 space-y-4">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <h3 className="font-semibold truncate">{vessel.name}</h3>
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            <Badge variant="outline">{getVesselTypeLabel(vessel.vessel_type)}</Badge>
+                            {material && <Badge variant="outline">{material}</Badge>}
+                          </div>
+                        </div>
+                        {canManageVessels && (
+                          <div className="flex items-center">
+                            <Button variant="ghost" size="icon" onClick={() => openVesselDialog(vessel)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-destructive"
+                                  disabled={deleteVesselMutation.isPending && deleteVesselMutation.variables?.id === vessel.id}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {vessel.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {batch
+                                      ? `${batch.name} will no longer be assigned to a vessel. `
+                                      : ''}
+                                    This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    onClick={() => deleteVesselMutation.mutate(vessel)}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {volume.toFixed(1)} L / {capacity.toFixed(1)} L
+                          </span>
+                          <span className="font-medium">{Math.round(fillLevel)}%</span>
+                        </div>
+                        <Progress value={fillLevel} className="h-2" />
+                      </div>
+
+                      {batch ? (
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0 space-y-1">
+                            <Link to={`/batches/${batch.id}`} className="text-sm font-medium hover:underline truncate block">
+                              {batch.name}
+                            </Link>
+                            <StageBadge stageKey={batch.current_stage} pipeline={pipeline} />
+                          </div>
+                          {canAssignBatches && (
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Record transfer"
+                                onClick={() => setTransferSource({ batch, vesselId: vessel.id })}
+                              >
+                                <ArrowRightLeft className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() => assignBatchMutation.mutate({ batch, vessel, volume, direction: 'empty' })}
+                              >
+                                {isBusy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                                Empty
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      ) : canAssignBatches ? (
+                        <Select
+                          value=""
+                          disabled={isBusy || candidates.length === 0}
+                          onValueChange={(batchId) => {
+                            const candidate = candidates.find((item) => item.batch.id === batchId);
+                            if (candidate) {
+                              assignBatchMutation.mutate({ batch: candidate.batch, vessel, volume: candidate.volume, direction: 'fill' });
+                            }
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder={candidates.length ? 'Assign a batch...' : 'Empty — no batch fits'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {candidates.map((candidate) => (
+                              <SelectItem key={candidate.batch.id} value={candidate.batch.id}>
+                                {candidate.batch.name} ({candidate.volume.toFixed(1)} L)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Empty</p>
+                      )}
+
+                      {vessel.notes && (
+                        <p className="text-xs text-muted-foreground">{vessel.notes}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+
+      {transferSource && (
+        <TransferDialog
+          open={Boolean(transferSource)}
+          onOpenChange={(open) => !open && setTransferSource(null)}
+          batch={transferSource.batch}
+          organizationId={organization.id}
+          defaultSourceVesselId={transferSource.vesselId}
+        />
+      )}
+
+      {user && (
+        <VesselFormDialog
+          open={isVesselDialogOpen}
+          onOpenChange={setIsVesselDialogOpen}
+          organizationId={organization.id}
+          userId={user.id}
+          vessel={editingVessel}
+          locations={locations}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { z } from 'zod';
 import {
   Wine,
   Plus,
@@ -9,105 +8,90 @@ import {
   Settings,
   Package,
   Calendar,
+  CalendarDays,
   Beaker,
   Edit,
   Trash2,
   AlertTriangle,
-  CheckCircle2,
   Search,
   Filter,
   SortAsc,
   Loader2,
+  ExternalLink,
+  History,
+  Download,
+  Upload,
+  Warehouse,
+  Apple,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { User } from '@supabase/supabase-js';
 import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { FermentationLogs } from '@/components/batches/FermentationLogs';
+import { FermentationChart } from '@/components/batches/FermentationChart';
+import { BatchMetrics } from '@/components/batches/BatchMetrics';
+import { TastingNotes } from '@/components/batches/TastingNotes';
+import { StageProgression } from '@/components/batches/StageProgression';
+import { StageBadge } from '@/components/batches/StageBadge';
+import { BatchTimeline } from '@/components/batches/BatchTimeline';
+import { BatchBulkActions } from '@/components/batches/BatchBulkActions';
+import { VarietyCombobox } from '@/components/varieties/VarietyCombobox';
+import { VolumeLedger } from '@/components/batches/VolumeLedger';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import { useVessels } from '@/hooks/use-vessels';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useOrganization } from '@/hooks/use-organization';
+import { OrganizationSwitcher } from '@/components/organizations/OrganizationSwitcher';
+import { ExportDialog } from '@/components/export/ExportDialog';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { getBatchExportColumns } from '@/lib/export-columns';
+import type { ExportDataset } from '@/lib/export';
+import { batchSchema } from '@/lib/batches';
+import { getSuitableVessels, getVesselTypeLabel } from '@/lib/vessels';
+import { cn } from '@/lib/utils';
+import { DEFAULT_TARGET_GRAVITY, formatPercent, getFermentationMetrics, getMetricsByBatch, type GravityReading } from '@/lib/fermentation';
 
 type BatchRow = Tables<'batches'>;
-type BatchStage = 'pressing' | 'fermenting' | 'aging' | 'bottled';
-type Batch = Omit<BatchRow, 'current_stage'> & { current_stage: BatchStage };
-
-type Organization = Tables<'organizations'>;
-
-type MemberRole = 'owner' | 'admin' | 'member';
-
-type OrganizationMembership = {
-  organization_id: string;
-  role: MemberRole;
-  organizations: Organization;
-};
 
 type BatchFormState = {
   name: string;
+  // Picked from the catalog; the name is kept for validation and batches.variety
+  variety_id: string;
   variety: string;
   volume: number | '';
   start_date: string;
+  target_gravity?: number | '';
+  // '' follows the suggested vessel, 'none' opts out
+  vessel_id?: string;
 };
 
-// Zod validation schemas
-const batchSchema = z.object({
-  name: z.string().trim().min(1, "Batch name is required").max(100, "Batch name must be less than 100 characters"),
-  variety: z.string().trim().min(1, "Apple variety is required").max(100, "Variety must be less than 100 characters"),
-  volume: z.number().positive("Volume must be a positive number").max(1000000, "Volume must be less than 1,000,000 liters"),
-  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
-});
-
 export default function Dashboard() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const {
-    data: user,
-    isLoading: userLoading,
-  } = useQuery<User | null>({
-    queryKey: ['auth-user'],
-    queryFn: async () => {
-      const { data, error } = await supabase.auth.getUser();
-      if (error) throw error;
-      return data.user;
-    },
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const {
-    data: membership,
-    isLoading: membershipLoading,
-  } = useQuery<(OrganizationMembership & { role: MemberRole }) | null>({
-    queryKey: ['organization-membership', user?.id],
-    enabled: Boolean(user?.id),
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data, error } = await supabase
-        .from('organization_members')
-        .select('organization_id, role, organizations(*)')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (error) throw error;
-      if (!data) return null;
-
-      return {
-        organization_id: data.organization_id,
-        role: data.role as MemberRole,
-        organizations: data.organizations as Organization,
-      };
-    },
-  });
-
-  const organization = membership?.organizations ?? null;
-  const organizationId = membership?.organization_id ?? null;
+    user,
+    memberships,
+    organization,
+    organizationId,
+    role,
+    switchOrganization,
+    isLoading: organizationLoading,
+  } = useOrganization();
+  const { can } = usePermissions(role);
+  const canEditBatches = can('edit_batch');
+  const canDeleteBatches = can('delete_batch');
 
   const {
     data: batches = [],
@@ -121,6 +105,7 @@ export default function Dashboard() {
         .from('batches')
         .select('*')
         .eq('organization_id', organizationId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -128,25 +113,73 @@ export default function Dashboard() {
     },
   });
 
+  const {
+    data: gravityReadings = [],
+  } = useQuery<GravityReading[]>({
+    queryKey: ['fermentation-gravity', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('fermentation_logs')
+        .select('batch_id, specific_gravity, recorded_at, created_at, batches!inner(organization_id)')
+        .eq('batches.organization_id', organizationId)
+        .not('specific_gravity', 'is', null);
+
+      if (error) throw error;
+      return (data ?? []).map(({ batch_id, specific_gravity, recorded_at, created_at }) => ({
+        batch_id,
+        specific_gravity,
+        recorded_at,
+        created_at,
+      }));
+    },
+  });
+
+  const metricsByBatch = useMemo(() => getMetricsByBatch(gravityReadings, batches), [gravityReadings, batches]);
+
+  const { pipeline, isLoading: stagesLoading } = useProductionStages(organizationId);
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const { vessels, contents, getVessel, getBatchContents } = useVessels(organizationId);
+
   const [showNewBatchForm, setShowNewBatchForm] = useState(false);
   const [newBatch, setNewBatch] = useState<BatchFormState>({
     name: '',
+    variety_id: '',
     variety: '',
     volume: '',
     start_date: new Date().toISOString().split('T')[0],
+    vessel_id: '',
   });
-  const [selectedBatch, setSelectedBatch] = useState<Batch | null>(null);
+
+  // Empty vessels that can hold the new batch, tightest fit first
+  const suitableVessels = useMemo(
+    () => getSuitableVessels(vessels, contents, newBatch.volume === '' ? null : newBatch.volume),
+    [vessels, contents, newBatch.volume]
+  );
+  // Falls back to the suggestion when the picked vessel no longer fits the volume
+  const newBatchVesselId =
+    newBatch.vessel_id === 'none' || suitableVessels.some((vessel) => vessel.id === newBatch.vessel_id)
+      ? newBatch.vessel_id
+      : suitableVessels[0]?.id ?? 'none';
+
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
   const [batchDialogOpen, setBatchDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [editFormData, setEditFormData] = useState<BatchFormState>({
     name: '',
+    variety_id: '',
     variety: '',
     volume: '',
     start_date: '',
+    target_gravity: '',
   });
   const [searchQuery, setSearchQuery] = useState('');
-  const [stageFilter, setStageFilter] = useState<'all' | BatchStage>('all');
+  const [stageFilter, setStageFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState('newest');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportCheckedOnly, setExportCheckedOnly] = useState(false);
+  const [checkedBatchIds, setCheckedBatchIds] = useState<string[]>([]);
   const [operationLoading, setOperationLoading] = useState<string | null>(null);
 
   const createBatchMutation = useMutation<BatchRow, Error, TablesInsert<'batches'>>({
@@ -165,12 +198,15 @@ export default function Dashboard() {
       queryClient.setQueryData<BatchRow[]>(['batches', variables.organization_id], (old) =>
         old ? [data, ...old] : [data]
       );
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', variables.organization_id] });
       setShowNewBatchForm(false);
       setNewBatch({
         name: '',
+        variety_id: '',
         variety: '',
         volume: '',
         start_date: new Date().toISOString().split('T')[0],
+        vessel_id: '',
       });
       toast({
         title: 'Batch created!',
@@ -223,51 +259,11 @@ export default function Dashboard() {
     onSettled: () => setOperationLoading(null),
   });
 
-  const updateStageMutation = useMutation<{ batchId: string; newStage: BatchStage }, Error, {
-    batchId: string;
-    newStage: BatchStage;
-    organizationId: string;
-  }>({
-    mutationFn: async ({ batchId, newStage }) => {
-      const { error } = await supabase
-        .from('batches')
-        .update({ current_stage: newStage })
-        .eq('id', batchId);
-
-      if (error) throw error;
-      return { batchId, newStage };
-    },
-    onMutate: ({ batchId }) => setOperationLoading(batchId),
-    onSuccess: ({ batchId, newStage }, variables) => {
-      queryClient.setQueryData<BatchRow[]>(['batches', variables.organizationId], (old) =>
-        old
-          ? old.map((batch) =>
-              batch.id === batchId
-                ? { ...batch, current_stage: newStage }
-                : batch
-            )
-          : []
-      );
-      toast({
-        title: 'Stage updated!',
-        description: `Batch moved to ${newStage}.`,
-      });
-    },
-    onError: (error) => {
-      toast({
-        variant: 'destructive',
-        title: 'Error updating stage',
-        description: error.message,
-      });
-    },
-    onSettled: () => setOperationLoading(null),
-  });
-
   const deleteBatchMutation = useMutation<string, Error, { batchId: string; organizationId: string; batchName?: string }>({
     mutationFn: async ({ batchId }) => {
       const { error } = await supabase
         .from('batches')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', batchId);
 
       if (error) throw error;
@@ -278,12 +274,16 @@ export default function Dashboard() {
       queryClient.setQueryData<BatchRow[]>(['batches', variables.organizationId], (old) =>
         old ? old.filter((batch) => batch.id !== batchId) : []
       );
+      queryClient.invalidateQueries({ queryKey: ['batch', batchId] });
+      queryClient.invalidateQueries({ queryKey: ['deleted-batches', variables.organizationId] });
+      // Trashed batches leave their vessels
+      queryClient.invalidateQueries({ queryKey: ['vessel-contents', variables.organizationId] });
       setDeleteDialogOpen(false);
       setBatchDialogOpen(false);
-      setSelectedBatch(null);
+      setSelectedBatchId(null);
       toast({
-        title: 'Batch deleted',
-        description: `${variables.batchName || 'Batch'} has been removed.`,
+        title: 'Batch moved to trash',
+        description: `${variables.batchName || 'Batch'} can be restored from the trash for ${organization?.trash_retention_days ?? 30} days.`,
       });
     },
     onError: (error) => {
@@ -308,6 +308,15 @@ export default function Dashboard() {
       return;
     }
 
+    if (!pipeline.initialStage) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Your organization has no production stages. Add one in Settings first.',
+      });
+      return;
+    }
+
     // Validate input using Zod
     const validation = batchSchema.safeParse({
       name: newBatch.name,
@@ -329,11 +338,13 @@ export default function Dashboard() {
     createBatchMutation.mutate({
       name: validation.data.name,
       variety: validation.data.variety,
+      variety_id: newBatch.variety_id,
       volume: validation.data.volume,
       organization_id: organizationId,
-      current_stage: 'pressing',
+      current_stage: pipeline.initialStage.key,
       start_date: validation.data.start_date,
       created_by: user.id,
+      vessel_id: newBatchVesselId === 'none' ? null : newBatchVesselId,
     });
   }
 
@@ -342,11 +353,21 @@ export default function Dashboard() {
     navigate('/');
   }
 
-  const isLoading = userLoading || membershipLoading || (Boolean(organizationId) && batchesLoading);
+  const isLoading = organizationLoading || (Boolean(organizationId) && (batchesLoading || stagesLoading));
 
   const filteredAndSortedBatches = useMemo(() => {
     let result = [...batches];
 
+    // Batches without gravity readings have no metrics and always sort last
+    const byMetric = (key: 'abv' | 'attenuation' | 'progress', direction: 1 | -1) =>
+      (a: BatchRow, b: BatchRow) => {
+        const aValue = metricsByBatch.get(a.id)?.[key] ?? null;
+        const bValue = metricsByBatch.get(b.id)?.[key] ?? null;
+        if (aValue === null) return bValue === null ? 0 : 1;
+        if (bValue === null) return -1;
+        return (aValue - bValue) * direction;
+      };
+
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       result = result.filter((batch) =>
@@ -378,42 +399,69 @@ export default function Dashboard() {
       case 'volume-low':
         result.sort((a, b) => a.volume - b.volume);
         break;
+      case 'abv-high':
+        result.sort(byMetric('abv', -1));
+        break;
+      case 'abv-low':
+        result.sort(byMetric('abv', 1));
+        break;
+      case 'attenuation-high':
+        result.sort(byMetric('attenuation', -1));
+        break;
+      case 'attenuation-low':
+        result.sort(byMetric('attenuation', 1));
+        break;
+      case 'progress-high':
+        result.sort(byMetric('progress', -1));
+        break;
+      case 'progress-low':
+        result.sort(byMetric('progress', 1));
+        break;
     }
 
     return result;
-  }, [batches, searchQuery, stageFilter, sortBy]);
+  }, [batches, searchQuery, stageFilter, sortBy, metricsByBatch]);
 
-  const hasActiveFilters = searchQuery.trim() || stageFilter !== 'all' || sortBy !== 'newest';
-  const totalVolume = batches.reduce((sum, batch) => sum + Number(batch.volume), 0);
-  const activeBatches = batches.filter((batch) => batch.current_stage !== 'bottled').length;
-
-  const getStageColor = (stage: BatchStage) => {
-    switch (stage) {
-      case 'pressing':
-        return 'default';
-      case 'fermenting':
-        return 'secondary';
-      case 'aging':
-        return 'outline';
-      case 'bottled':
-      default:
-        return 'default';
-    }
-  };
+  // Only batches the current filter shows count as selected, so bulk actions never touch hidden rows
+  const checkedBatches = useMemo(
+    () => filteredAndSortedBatches.filter((batch) => checkedBatchIds.includes(batch.id)),
+    [filteredAndSortedBatches, checkedBatchIds]
+  );
+  const allVisibleChecked = filteredAndSortedBatches.length > 0 && checkedBatches.length === filteredAndSortedBatches.length;
 
-  function handleUpdateBatchStage(batchId: string, newStage: BatchStage) {
-    if (!organizationId) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: 'Organization context is missing.',
-      });
-      return;
-    }
+  function toggleBatchChecked(batchId: string, checked: boolean) {
+    setCheckedBatchIds((current) =>
+      checked ? [...current, batchId] : current.filter((id) => id !== batchId)
+    );
+  }
+
+  function toggleAllVisibleChecked(checked: boolean) {
+    setCheckedBatchIds(checked ? filteredAndSortedBatches.map((batch) => batch.id) : []);
+  }
+
+  // Exports exactly what the table shows: same search, stage filter and order
+  const batchExportDatasets = useMemo<ExportDataset<BatchRow>[]>(() => [
+    {
+      id: 'batches',
+      label: 'Batches',
+      name: 'batches',
+      rows: exportCheckedOnly ? checkedBatches : filteredAndSortedBatches,
+      columns: getBatchExportColumns({ pipeline, metricsByBatch, getMemberName }),
+    },
+  ], [exportCheckedOnly, checkedBatches, filteredAndSortedBatches, pipeline, metricsByBatch, getMemberName]);
 
-    updateStageMutation.mutate({ batchId, newStage, organizationId });
+  function toggleMetricSort(key: 'abv' | 'attenuation' | 'progress') {
+    setSortBy((current) => (current === `${key}-high` ? `${key}-low` : `${key}-high`));
   }
 
+  const sortIndicator = (key: 'abv' | 'attenuation' | 'progress') =>
+    sortBy === `${key}-high` ? ' ↓' : sortBy === `${key}-low` ? ' ↑' : '';
+
+  const hasActiveFilters = searchQuery.trim() || stageFilter !== 'all' || sortBy !== 'newest';
+  const totalVolume = batches.reduce((sum, batch) => sum + Number(batch.volume), 0);
+  const activeBatches = batches.filter((batch) => !pipeline.isTerminal(batch.current_stage)).length;
+  const selectedBatch = batches.find((batch) => batch.id === selectedBatchId) ?? null;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -477,13 +525,6 @@ export default function Dashboard() {
     );
   }
 
-  const stageTransitions: Record<BatchStage, { nextStage: BatchStage; label: string; description: string } | undefined> = {
-    pressing: { nextStage: 'fermenting', label: 'Start Fermenting', description: 'Move batch to fermentation' },
-    fermenting: { nextStage: 'aging', label: 'Begin Aging', description: 'Move batch to aging phase' },
-    aging: { nextStage: 'bottled', label: 'Bottle', description: 'Mark batch as bottled' },
-    bottled: undefined,
-  };
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -496,10 +537,14 @@ export default function Dashboard() {
                 <span className="text-xl font-bold">CiderTrack</span>
               </div>
               <div className="text-muted-foreground">|</div>
-              <div>
-                <p className="text-sm text-muted-foreground">Organization</p>
-                <p className="font-semibold">{organization?.name}</p>
-              </div>
+              {user && (
+                <OrganizationSwitcher
+                  userId={user.id}
+                  memberships={memberships}
+                  activeOrganizationId={organizationId}
+                  onSwitch={switchOrganization}
+                />
+              )}
             </div>
 
             <div className="flex items-center gap-3">
@@ -507,6 +552,57 @@ export default function Dashboard() {
                 <p className="text-sm font-medium">{user?.user_metadata?.full_name || user?.email}</p>
                 <p className="text-xs text-muted-foreground">{user?.email}</p>
               </div>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/schedule')}
+              >
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Schedule
+              </Button>
+              {can('view_activity') && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Activity"
+                  onClick={() => navigate('/activity')}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
+              {can('create_batch') && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Import batches"
+                  onClick={() => navigate('/import')}
+                >
+                  <Upload className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="icon"
+                title="Fruit intake"
+                onClick={() => navigate('/intake')}
+              >
+                <Apple className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Cellar"
+                onClick={() => navigate('/cellar')}
+              >
+                <Warehouse className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Trash"
+                onClick={() => navigate('/trash')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
               <Button 
                 variant="outline" 
                 size="icon"
@@ -579,7 +675,7 @@ export default function Dashboard() {
             </div>
 
             {/* Stage Filter */}
-            <Select value={stageFilter} onValueChange={(value) => setStageFilter(value as 'all' | BatchStage)}>
+            <Select value={stageFilter} onValueChange={setStageFilter}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <div className="flex items-center gap-2">
                   <Filter className="h-4 w-4" />
@@ -588,10 +684,9 @@ export default function Dashboard() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Stages</SelectItem>
-                <SelectItem value="pressing">Pressing</SelectItem>
-                <SelectItem value="fermenting">Fermenting</SelectItem>
-                <SelectItem value="aging">Aging</SelectItem>
-                <SelectItem value="bottled">Bottled</SelectItem>
+                {pipeline.stages.map((stage) => (
+                  <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -610,6 +705,12 @@ export default function Dashboard() {
                 <SelectItem value="name-desc">Name (Z-A)</SelectItem>
                 <SelectItem value="volume-high">Volume (High-Low)</SelectItem>
                 <SelectItem value="volume-low">Volume (Low-High)</SelectItem>
+                <SelectItem value="abv-high">ABV (High-Low)</SelectItem>
+                <SelectItem value="abv-low">ABV (Low-High)</SelectItem>
+                <SelectItem value="attenuation-high">Attenuation (High-Low)</SelectItem>
+                <SelectItem value="attenuation-low">Attenuation (Low-High)</SelectItem>
+                <SelectItem value="progress-high">Progress (High-Low)</SelectItem>
+                <SelectItem value="progress-low">Progress (Low-High)</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -636,12 +737,49 @@ export default function Dashboard() {
         <div className="bg-card rounded-xl border">
           <div className="p-6 border-b flex items-center justify-between">
             <h2 className="text-xl font-semibold">Cider Batches</h2>
-            <Button onClick={() => setShowNewBatchForm(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Batch
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                disabled={filteredAndSortedBatches.length === 0}
+                onClick={() => {
+                  setExportCheckedOnly(false);
+                  setShowExportDialog(true);
+                }}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+              {can('create_batch') && (
+                <Button onClick={() => setShowNewBatchForm(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Batch
+                </Button>
+              )}
+            </div>
           </div>
 
+          {checkedBatches.length > 0 && user && (
+            <BatchBulkActions
+              batches={checkedBatches}
+              organizationId={organizationId}
+              userId={user.id}
+              pipeline={pipeline}
+              trashRetentionDays={organization.trash_retention_days ?? 30}
+              canEdit={canEditBatches}
+              canDelete={canDeleteBatches}
+              canSchedulePackaging={can('manage_packaging')}
+              canBlend={can('create_batch') && canEditBatches}
+              onExport={() => {
+                setExportCheckedOnly(true);
+                setShowExportDialog(true);
+              }}
+              onClearSelection={() => setCheckedBatchIds([])}
+              onDeleted={(batchIds) =>
+                setCheckedBatchIds((current) => current.filter((id) => !batchIds.includes(id)))
+              }
+            />
+          )}
+
           {filteredAndSortedBatches.length === 0 ? (
             <div className="p-12 text-center">
               <Package className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -653,7 +791,7 @@ export default function Dashboard() {
                   ? 'Create your first batch to start tracking your cider production.'
                   : 'Try adjusting your filters to find what you\'re looking for.'}
               </p>
-              {batches.length === 0 && (
+              {batches.length === 0 && can('create_batch') && (
                 <Button onClick={() => setShowNewBatchForm(true)}>
                   <Plus className="h-4 w-4 mr-2" />
                   Create Your First Batch
@@ -665,48 +803,93 @@ export default function Dashboard() {
               <table className="w-full">
                 <thead className="border-b bg-muted/50">
                   <tr>
+                    <th className="w-12 p-4">
+                      <Checkbox
+                        aria-label="Select all batches"
+                        checked={allVisibleChecked ? true : checkedBatches.length > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => toggleAllVisibleChecked(checked === true)}
+                      />
+                    </th>
                     <th className="text-left p-4 font-medium">Name</th>
                     <th className="text-left p-4 font-medium">Variety</th>
                     <th className="text-left p-4 font-medium">Volume</th>
+                    <th className="text-left p-4 font-medium">Vessel</th>
+                    <th className="text-left p-4 font-medium">
+                      <button type="button" className="font-medium hover:text-primary" onClick={() => toggleMetricSort('abv')}>
+                        ABV{sortIndicator('abv')}
+                      </button>
+                    </th>
+                    <th className="text-left p-4 font-medium">
+                      <button type="button" className="font-medium hover:text-primary" onClick={() => toggleMetricSort('attenuation')}>
+                        Attenuation{sortIndicator('attenuation')}
+                      </button>
+                    </th>
+                    <th className="text-left p-4 font-medium">
+                      <button type="button" className="font-medium hover:text-primary" onClick={() => toggleMetricSort('progress')}>
+                        Progress{sortIndicator('progress')}
+                      </button>
+                    </th>
                     <th className="text-left p-4 font-medium">Stage</th>
                     <th className="text-left p-4 font-medium">Start Date</th>
                     <th className="text-left p-4 font-medium">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredAndSortedBatches.map((batch) => (
-                    <tr key={batch.id} className="border-b hover:bg-muted/30 transition-colors">
-                      <td className="p-4 font-medium">{batch.name}</td>
-                      <td className="p-4 text-muted-foreground">{batch.variety}</td>
-                      <td className="p-4">{Number(batch.volume).toFixed(1)} L</td>
-                      <td className="p-4">
-                        <Badge variant={getStageColor(batch.current_stage as BatchStage)}>
-                          {batch.current_stage}
-                        </Badge>
-                      </td>
-                      <td className="p-4 text-muted-foreground">
-                        {format(new Date(batch.start_date), 'MMM d, yyyy')}
-                      </td>
-                      <td className="p-4">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => {
-                            setSelectedBatch(batch as Batch);
-                            setEditFormData({
-                              name: batch.name,
-                              variety: batch.variety,
-                              volume: Number(batch.volume),
-                              start_date: batch.start_date,
-                            });
-                            setBatchDialogOpen(true);
-                          }}
-                        >
-                          View Details
-                        </Button>
-                      </td>
-                    </tr>
-                  ))}
+                  {filteredAndSortedBatches.map((batch) => {
+                    const metrics = metricsByBatch.get(batch.id);
+                    return (
+                      <tr
+                        key={batch.id}
+                        className={cn(
+                          'border-b hover:bg-muted/30 transition-colors',
+                          checkedBatchIds.includes(batch.id) && 'bg-muted/50'
+                        )}
+                      >
+                        <td className="w-12 p-4">
+                          <Checkbox
+                            aria-label={`Select ${batch.name}`}
+                            checked={checkedBatchIds.includes(batch.id)}
+                            onCheckedChange={(checked) => toggleBatchChecked(batch.id, checked === true)}
+                          />
+                        </td>
+                        <td className="p-4 font-medium">{batch.name}</td>
+                        <td className="p-4 text-muted-foreground">{batch.variety}</td>
+                        <td className="p-4">{Number(batch.volume).toFixed(1)} L</td>
+                        <td className="p-4 text-muted-foreground">
+                          {getBatchContents(batch.id).map((content) => getVessel(content.vessel_id)?.name).filter(Boolean).join(', ') || '—'}
+                        </td>
+                        <td className="p-4">{formatPercent(metrics?.abv ?? null)}</td>
+                        <td className="p-4">{formatPercent(metrics?.attenuation ?? null, 0)}</td>
+                        <td className="p-4">{formatPercent(metrics?.progress ?? null, 0)}</td>
+                        <td className="p-4">
+                          <StageBadge stageKey={batch.current_stage} pipeline={pipeline} />
+                        </td>
+                        <td className="p-4 text-muted-foreground">
+                          {format(new Date(batch.start_date), 'MMM d, yyyy')}
+                        </td>
+                        <td className="p-4">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedBatchId(batch.id);
+                              setEditFormData({
+                                name: batch.name,
+                                variety_id: batch.variety_id ?? '',
+                                variety: batch.variety,
+                                volume: Number(batch.volume),
+                                start_date: batch.start_date,
+                                target_gravity: batch.target_gravity ?? '',
+                              });
+                              setBatchDialogOpen(true);
+                            }}
+                          >
+                            View Details
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -714,6 +897,22 @@ export default function Dashboard() {
         </div>
       </main>
 
+      {/* Export Dialog */}
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        title="Export Batches"
+        description={
+          exportCheckedOnly
+            ? `Exports the ${checkedBatches.length} selected batches.`
+            : hasActiveFilters
+              ? `Exports the ${filteredAndSortedBatches.length} batches matching your current search, stage filter and sort order.`
+              : `Exports all ${filteredAndSortedBatches.length} batches in ${organization.name}.`
+        }
+        fileName={`${organization.name} batches`}
+        datasets={batchExportDatasets}
+      />
+
       {/* New Batch Dialog */}
       <Dialog open={showNewBatchForm} onOpenChange={setShowNewBatchForm}>
         <DialogContent>
@@ -738,12 +937,13 @@ export default function Dashboard() {
 
             <div className="space-y-2">
               <Label htmlFor="variety">Apple Variety</Label>
-              <Input
+              <VarietyCombobox
                 id="variety"
-                value={newBatch.variety}
-                onChange={(e) => setNewBatch({ ...newBatch, variety: e.target.value })}
-                placeholder="e.g., Granny Smith"
-                required
+                organizationId={organizationId}
+                userId={user?.id}
+                value={newBatch.variety_id}
+                onChange={(variety) => setNewBatch({ ...newBatch, variety_id: variety.id, variety: variety.name })}
+                canCreate
               />
             </div>
 
@@ -760,6 +960,31 @@ export default function Dashboard() {
               />
             </div>
 
+            {vessels.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="vessel">Vessel</Label>
+                <Select value={newBatchVesselId} onValueChange={(value) => setNewBatch({ ...newBatch, vessel_id: value })}>
+                  <SelectTrigger id="vessel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No vessel</SelectItem>
+                    {suitableVessels.map((vessel, index) => (
+                      <SelectItem key={vessel.id} value={vessel.id}>
+                        {vessel.name} · {getVesselTypeLabel(vessel.vessel_type)} · {Number(vessel.capacity).toFixed(1)} L
+                        {index === 0 && ' (best fit)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {suitableVessels.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    No empty vessel can hold this volume.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="start_date">Start Date</Label>
               <Input
@@ -799,15 +1024,28 @@ export default function Dashboard() {
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{selectedBatch.name}</DialogTitle>
-              <DialogDescription>
+              <DialogDescription className="flex items-center justify-between gap-2">
                 View and manage batch details
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => navigate(`/batches/${selectedBatch.id}`)}
+                >
+                  <ExternalLink className="h-3.5 w-3.5 mr-1" />
+                  Open full page
+                </Button>
               </DialogDescription>
             </DialogHeader>
 
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className={cn('grid w-full', canEditBatches || canDeleteBatches ? 'grid-cols-6' : 'grid-cols-5')}>
                 <TabsTrigger value="overview">Overview</TabsTrigger>
-                <TabsTrigger value="edit">Edit</TabsTrigger>
+                <TabsTrigger value="cellar">Cellar</TabsTrigger>
+                <TabsTrigger value="fermentation">Fermentation</TabsTrigger>
+                <TabsTrigger value="tasting">Tasting</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+                {(canEditBatches || canDeleteBatches) && <TabsTrigger value="edit">Edit</TabsTrigger>}
               </TabsList>
 
               {/* Overview Tab */}
@@ -823,9 +1061,7 @@ export default function Dashboard() {
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Current Stage</p>
-                    <Badge variant={getStageColor(selectedBatch.current_stage)}>
-                      {selectedBatch.current_stage}
-                    </Badge>
+                    <StageBadge stageKey={selectedBatch.current_stage} pipeline={pipeline} />
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Start Date</p>
@@ -837,187 +1073,222 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                {/* Fermentation Metrics */}
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Fermentation</h4>
+                  <BatchMetrics metrics={metricsByBatch.get(selectedBatch.id) ?? getFermentationMetrics([], selectedBatch.target_gravity)} />
+                </div>
+
                 {/* Stage Progression */}
                 <div className="space-y-3">
                   <h4 className="font-semibold">Production Stage</h4>
-                  {(() => {
-                    const transition = stageTransitions[selectedBatch.current_stage];
-                    if (!transition) {
-                      return (
-                        <div className="flex items-center gap-2 p-4 bg-green-50 dark:bg-green-950 rounded-lg border border-green-200 dark:border-green-800">
-                          <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
-                          <p className="text-sm font-medium text-green-900 dark:text-green-100">
-                            Batch is complete! This batch has been bottled.
-                          </p>
-                        </div>
-                      );
-                    }
-
-                    return (
-                      <Button
-                        onClick={() => handleUpdateBatchStage(selectedBatch.id, transition.nextStage)}
-                        disabled={operationLoading === selectedBatch.id}
-                        className="w-full"
-                      >
-                        {operationLoading === selectedBatch.id ? (
-                          <>
-                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                            Updating...
-                          </>
-                        ) : (
-                          `${transition.label} →`
-                        )}
-                      </Button>
-                    );
-                  })()}
+                  <StageProgression batch={selectedBatch} organizationId={organizationId} readOnly={!canEditBatches} />
                 </div>
               </TabsContent>
 
+              {/* Cellar Tab */}
+              <TabsContent value="cellar">
+                <VolumeLedger batch={selectedBatch} organizationId={selectedBatch.organization_id} readOnly={!canEditBatches} />
+              </TabsContent>
+
+              {/* Fermentation Tab */}
+              <TabsContent value="fermentation" className="space-y-6">
+                <FermentationChart batch={selectedBatch} batches={batches} />
+                <FermentationLogs
+                  batchId={selectedBatch.id}
+                  organizationId={selectedBatch.organization_id}
+                  userId={user?.id}
+                  readOnly={!can('log_readings')}
+                />
+              </TabsContent>
+
+              {/* Tasting Tab */}
+              <TabsContent value="tasting">
+                <TastingNotes batch={selectedBatch} batches={batches} userId={user?.id} readOnly={!can('record_tastings')} />
+              </TabsContent>
+
+              {/* History Tab */}
+              <TabsContent value="history">
+                <BatchTimeline batch={selectedBatch} pipeline={pipeline} userId={user?.id} />
+              </TabsContent>
+
               {/* Edit Tab */}
               <TabsContent value="edit" className="space-y-6">
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-name">Batch Name</Label>
-                    <Input
-                      id="edit-name"
-                      value={editFormData.name}
-                      onChange={(e) => setEditFormData({ ...editFormData, name: e.target.value })}
-                    />
-                  </div>
+                {canEditBatches && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-name">Batch Name</Label>
+                      <Input
+                        id="edit-name"
+                        value={editFormData.name}
+                        onChange={(e) => setEditFormData({ ...editFormData, name: e.target.value })}
+                      />
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-variety">Apple Variety</Label>
-                    <Input
-                      id="edit-variety"
-                      value={editFormData.variety}
-                      onChange={(e) => setEditFormData({ ...editFormData, variety: e.target.value })}
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-variety">Apple Variety</Label>
+                      {selectedBatch.variety_composition ? (
+                        <Input id="edit-variety" value={selectedBatch.variety} disabled />
+                      ) : (
+                        <VarietyCombobox
+                          id="edit-variety"
+                          organizationId={organizationId}
+                          userId={user?.id}
+                          value={editFormData.variety_id}
+                          onChange={(variety) => setEditFormData({ ...editFormData, variety_id: variety.id, variety: variety.name })}
+                          canCreate
+                        />
+                      )}
+                      {selectedBatch.variety_composition && (
+                        <p className="text-xs text-muted-foreground">
+                          A blend's varieties come from the batches that went into it.
+                        </p>
+                      )}
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-volume">Volume (Liters)</Label>
-                    <Input
-                      id="edit-volume"
-                      type="number"
-                      step="0.1"
-                      value={editFormData.volume}
-                      onChange={(e) => setEditFormData({ ...editFormData, volume: e.target.value ? parseFloat(e.target.value) : '' })}
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-volume">Volume (Liters)</Label>
+                      <Input
+                        id="edit-volume"
+                        value={Number(selectedBatch.volume).toFixed(1)}
+                        disabled
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Volume follows the cellar ledger. Record a transfer, loss or adjustment in the Cellar tab to change it.
+                      </p>
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="edit-start-date">Start Date</Label>
-                    <Input
-                      id="edit-start-date"
-                      type="date"
-                      value={editFormData.start_date}
-                      onChange={(e) => setEditFormData({ ...editFormData, start_date: e.target.value })}
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-start-date">Start Date</Label>
+                      <Input
+                        id="edit-start-date"
+                        type="date"
+                        value={editFormData.start_date}
+                        onChange={(e) => setEditFormData({ ...editFormData, start_date: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-target-gravity">Target Final Gravity</Label>
+                      <Input
+                        id="edit-target-gravity"
+                        type="number"
+                        step="0.001"
+                        value={editFormData.target_gravity}
+                        onChange={(e) => setEditFormData({ ...editFormData, target_gravity: e.target.value ? parseFloat(e.target.value) : '' })}
+                        placeholder={DEFAULT_TARGET_GRAVITY.toFixed(3)}
+                      />
+                    </div>
 
-                  <Button
-                    onClick={async () => {
-                      if (!organizationId) return;
+                    <Button
+                      onClick={async () => {
+                        if (!organizationId) return;
                       
-                      // Validate input using Zod
-                      const validation = batchSchema.omit({ start_date: true }).safeParse({
-                        name: editFormData.name,
-                        variety: editFormData.variety,
-                        volume: editFormData.volume,
-                      });
-
-                      if (!validation.success) {
-                        const firstError = validation.error.errors[0];
-                        toast({
-                          variant: 'destructive',
-                          title: 'Validation Error',
-                          description: firstError.message,
+                        // Validate input using Zod
+                        const validation = batchSchema.omit({ start_date: true, volume: true }).safeParse({
+                          name: editFormData.name,
+                          // A blend's variety is its composition label, which can't be edited here
+                          variety: selectedBatch.variety_composition ? selectedBatch.variety : editFormData.variety,
+                          target_gravity: editFormData.target_gravity === '' ? null : editFormData.target_gravity,
                         });
-                        return;
-                      }
-
-                      updateBatchMutation.mutate({
-                        batchId: selectedBatch.id,
-                        organizationId,
-                        updates: {
-                          name: validation.data.name,
-                          variety: validation.data.variety,
-                          volume: validation.data.volume,
-                          start_date: editFormData.start_date,
-                        },
-                      });
-                    }}
-                    disabled={operationLoading === selectedBatch.id}
-                    className="w-full"
-                  >
-                    {operationLoading === selectedBatch.id ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                        Saving...
-                      </>
-                    ) : (
-                      <>
-                        <Edit className="h-4 w-4 mr-2" />
-                        Save Changes
-                      </>
-                    )}
-                  </Button>
-                </div>
+
+                        if (!validation.success) {
+                          const firstError = validation.error.errors[0];
+                          toast({
+                            variant: 'destructive',
+                            title: 'Validation Error',
+                            description: firstError.message,
+                          });
+                          return;
+                        }
+
+                        updateBatchMutation.mutate({
+                          batchId: selectedBatch.id,
+                          organizationId,
+                          updates: {
+                            name: validation.data.name,
+                            ...(selectedBatch.variety_composition
+                              ? {}
+                              : { variety: validation.data.variety, variety_id: editFormData.variety_id }),
+                            start_date: editFormData.start_date,
+                            target_gravity: validation.data.target_gravity ?? null,
+                          },
+                        });
+                      }}
+                      disabled={operationLoading === selectedBatch.id}
+                      className="w-full"
+                    >
+                      {operationLoading === selectedBatch.id ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          Saving...
+                        </>
+                      ) : (
+                        <>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Save Changes
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )}
 
                 {/* Delete Section */}
-                <div className="border-t pt-6">
-                  <div className="flex items-start gap-3 mb-4">
-                    <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
-                    <div>
-                      <h4 className="font-semibold text-destructive">Delete Batch</h4>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        Permanently remove this batch and all its data. This action cannot be undone.
-                      </p>
+                {canDeleteBatches && (
+                  <div className="border-t pt-6">
+                    <div className="flex items-start gap-3 mb-4">
+                      <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+                      <div>
+                        <h4 className="font-semibold text-destructive">Delete Batch</h4>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Move this batch to the trash. It's deleted for good after {organization?.trash_retention_days ?? 30} days.
+                        </p>
+                      </div>
                     </div>
-                  </div>
 
-                  <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="destructive" className="w-full">
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete Batch
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This will permanently delete <strong>{selectedBatch.name}</strong> and all associated data.
-                          This action cannot be undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                          disabled={operationLoading === selectedBatch.id}
-                          onClick={() => {
-                            if (!organizationId) {
-                              toast({
-                                variant: 'destructive',
-                                title: 'Error',
-                                description: 'Organization context is missing.',
+                    <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" className="w-full">
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete Batch
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Move batch to trash?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            <strong>{selectedBatch.name}</strong> and its readings, notes and packaging runs will be hidden
+                            from the team. You can restore it from the trash until it's purged.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            disabled={operationLoading === selectedBatch.id}
+                            onClick={() => {
+                              if (!organizationId) {
+                                toast({
+                                  variant: 'destructive',
+                                  title: 'Error',
+                                  description: 'Organization context is missing.',
+                                });
+                                return;
+                              }
+                              deleteBatchMutation.mutate({
+                                batchId: selectedBatch.id,
+                                organizationId,
+                                batchName: selectedBatch.name,
                               });
-                              return;
-                            }
-                            deleteBatchMutation.mutate({
-                              batchId: selectedBatch.id,
-                              organizationId,
-                              batchName: selectedBatch.name,
-                            });
-                          }}
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
+                            }}
+                          >
+                            Move to Trash
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
               </TabsContent>
             </Tabs>
           </DialogContent>
@@ -0,0 +1,706 @@
+import { useMemo, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileUp, Loader2, RotateCcw, ShieldAlert, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel,
+  AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import {
+  DEFAULT_EXPORT_UNITS,
+  TEMPERATURE_UNITS,
+  VOLUME_UNITS,
+  type ExportUnits,
+  type TemperatureUnit,
+  type VolumeUnit,
+} from '@/lib/export';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  buildImportPlan,
+  guessColumnMapping,
+  guessImportUnits,
+  parseCsv,
+  type ImportColumnMapping,
+  type ImportFieldId,
+  type ImportRowStatus,
+  type ParsedCsv,
+} from '@/lib/import';
+import { cn } from '@/lib/utils';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+type BatchRow = Tables<'batches'>;
+type BatchImport = Tables<'batch_imports'>;
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+
+const STEPS: { value: ImportStep; label: string }[] = [
+  { value: 'upload', label: 'Upload' },
+  { value: 'map', label: 'Map columns' },
+  { value: 'review', label: 'Review' },
+  { value: 'done', label: 'Done' },
+];
+
+// Keeps the preview table responsive for large files; the summary still counts every row
+const PREVIEW_ROW_LIMIT = 500;
+
+const statusBadges: Record<ImportRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  new: { label: 'New batch', variant: 'default' },
+  existing: { label: 'Existing batch', variant: 'secondary' },
+  invalid: { label: 'Error', variant: 'destructive' },
+};
+
+export default function Import() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, organization, organizationId, role, isLoading: organizationLoading } = useOrganization();
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const { can, isLoading: permissionsLoading } = usePermissions(role);
+  const { pipeline, isLoading: stagesLoading } = useProductionStages(organizationId);
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [units, setUnits] = useState<ExportUnits>(DEFAULT_EXPORT_UNITS);
+  const [dateFormat, setDateFormat] = useState(IMPORT_DATE_FORMATS[0].value);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [completedImportId, setCompletedImportId] = useState<string | null>(null);
+
+  const canImport = can('create_batch');
+
+  const {
+    data: batches = [],
+  } = useQuery<BatchRow[]>({
+    queryKey: ['batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: imports = [],
+    isLoading: importsLoading,
+  } = useQuery<BatchImport[]>({
+    queryKey: ['batch-imports', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batch_imports')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const plan = useMemo(
+    () =>
+      csv && step === 'review'
+        ? buildImportPlan(csv.rows, mapping, { units, dateFormat }, { pipeline, existingBatches: batches })
+        : null,
+    [csv, step, mapping, units, dateFormat, pipeline, batches]
+  );
+
+  const previewRows = useMemo(() => {
+    const rows = plan?.rows ?? [];
+    return (errorsOnly ? rows.filter((row) => row.status === 'invalid') : rows).slice(0, PREVIEW_ROW_LIMIT);
+  }, [plan, errorsOnly]);
+
+  const missingLogPermission = Boolean(plan && plan.logs.length > 0 && !can('log_readings'));
+
+  function invalidateImportedData() {
+    queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['batch-names', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['batch-imports', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['fermentation-gravity', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['fermentation-logs'] });
+  }
+
+  function resetWizard() {
+    setStep('upload');
+    setFileName('');
+    setCsv(null);
+    setMapping({});
+    setErrorsOnly(false);
+    setCompletedImportId(null);
+  }
+
+  async function handleFileChange(file: File | undefined) {
+    if (!file) return;
+
+    try {
+      const parsed = parseCsv(await file.text());
+
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Nothing to import',
+          description: 'The file needs a header row and at least one row of data.',
+        });
+        return;
+      }
+
+      const guessedMapping = guessColumnMapping(parsed.headers);
+      setFileName(file.name);
+      setCsv(parsed);
+      setMapping(guessedMapping);
+      setUnits(guessImportUnits(parsed.headers, guessedMapping, DEFAULT_EXPORT_UNITS));
+      setStep('map');
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error reading file',
+        description: error instanceof Error ? error.message : 'The file could not be read as CSV.',
+      });
+    }
+  }
+
+  function updateMapping(field: ImportFieldId, value: string) {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === 'none') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  }
+
+  // First non-empty value of a column, to help pick the right one
+  function getSampleValue(column: number | undefined) {
+    if (column === undefined || !csv) return null;
+    return csv.rows.map((row) => row[column]?.trim()).find(Boolean) ?? null;
+  }
+
+  const importMutation = useMutation<string, Error>({
+    mutationFn: async () => {
+      if (!organizationId || !plan) throw new Error('Organization context is missing.');
+      const { data, error } = await supabase.rpc('import_batches', {
+        org_id: organizationId,
+        file_name: fileName,
+        batch_rows: plan.batches as unknown as Json,
+        log_rows: plan.logs as unknown as Json,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (importId) => {
+      invalidateImportedData();
+      setCompletedImportId(importId);
+      setStep('done');
+      toast({
+        title: 'Import complete',
+        description: `Imported ${plan?.batches.length ?? 0} batches and ${plan?.logs.length ?? 0} readings.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error importing data',
+        description: `${error.message}. Nothing was imported.`,
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation<BatchImport, Error, BatchImport>({
+    mutationFn: async (batchImport) => {
+      const { error } = await supabase.rpc('rollback_batch_import', { import_id: batchImport.id });
+      if (error) throw error;
+      return batchImport;
+    },
+    onSuccess: (batchImport) => {
+      invalidateImportedData();
+      if (batchImport.id === completedImportId) resetWizard();
+      toast({
+        title: 'Import rolled back',
+        description: `Everything imported from ${batchImport.file_name} has been removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error rolling back import',
+        description: error.message,
+      });
+    },
+  });
+
+  if (organizationLoading || permissionsLoading || stagesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  if (!canImport) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background px-6 text-center space-y-4">
+        <ShieldAlert className="h-10 w-10 text-primary" />
+        <h1 className="text-2xl font-semibold">You can't import batches</h1>
+        <p className="text-muted-foreground max-w-sm">
+          Importing creates batches, so it needs the same permission as creating one. Ask an owner or admin for access.
+        </p>
+        <Button onClick={() => navigate('/dashboard')}>
+          Back to dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  const completedImport = imports.find((batchImport) => batchImport.id === completedImportId);
+  const canRollBack = (batchImport: BatchImport) =>
+    !batchImport.rolled_back_at &&
+    (batchImport.batch_count === 0 || can('delete_batch')) &&
+    (batchImport.log_count === 0 || can('log_readings'));
+
+  const renderRollbackButton = (batchImport: BatchImport, size: 'sm' | 'default' = 'sm') => (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          disabled={rollbackMutation.isPending && rollbackMutation.variables?.id === batchImport.id}
+        >
+          {rollbackMutation.isPending && rollbackMutation.variables?.id === batchImport.id ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <RotateCcw className="h-4 w-4 mr-2" />
+          )}
+          Roll Back
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Roll back {batchImport.file_name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently deletes the {batchImport.batch_count} batches and {batchImport.log_count} readings
+            it imported, including any readings, tasting notes and packaging runs added to those batches since.
+            This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={() => rollbackMutation.mutate(batchImport)}
+          >
+            Roll Back Import
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  const stepIndex = STEPS.findIndex((item) => item.value === step);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/dashboard')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Import Batches</h1>
+              <p className="text-sm text-muted-foreground">{organization.name}</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-5xl space-y-6">
+        {/* Steps */}
+        <ol className="flex flex-wrap items-center gap-2 text-sm">
+          {STEPS.map((item, index) => (
+            <li key={item.value} className="flex items-center gap-2">
+              <span
+                className={cn(
+                  'flex h-6 w-6 items-center justify-center rounded-full border text-xs font-medium',
+                  index < stepIndex && 'bg-primary text-primary-foreground border-primary',
+                  index === stepIndex && 'border-primary text-primary'
+                )}
+              >
+                {index + 1}
+              </span>
+              <span className={cn(index === stepIndex ? 'font-medium' : 'text-muted-foreground')}>{item.label}</span>
+              {index < STEPS.length - 1 && <span className="text-muted-foreground px-1">›</span>}
+            </li>
+          ))}
+        </ol>
+
+        {/* Upload */}
+        {step === 'upload' && (
+          <div className="bg-card rounded-xl border p-6 space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold">Upload a CSV file</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Use one row per reading. Batch details can repeat on every row or only appear on a batch's first row;
+                rows are grouped into batches by name. Batches that already exist only get the readings added.
+              </p>
+            </div>
+            <Label
+              htmlFor="import-file"
+              className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 cursor-pointer hover:bg-muted/50"
+            >
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+              <span className="text-sm font-medium">Choose a CSV file</span>
+              <span className="text-xs text-muted-foreground font-normal">
+                Export it from your spreadsheet with "Save as CSV"
+              </span>
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              onChange={(e) => {
+                handleFileChange(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {/* Map columns */}
+        {step === 'map' && csv && (
+          <div className="bg-card rounded-xl border p-6 space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold">Map columns</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {fileName} · {csv.rows.length} rows. Pick the column that holds each field, or skip the ones you don't have.
+              </p>
+            </div>
+
+            {(['batch', 'log'] as const).map((target) => (
+              <div key={target} className="space-y-3">
+                <h4 className="text-sm font-semibold">{target === 'batch' ? 'Batch' : 'Fermentation reading'}</h4>
+                <div className="grid sm:grid-cols-2 gap-4">
+                  {IMPORT_FIELDS.filter((field) => field.target === target).map((field) => {
+                    const sample = getSampleValue(mapping[field.id]);
+
+                    return (
+                      <div key={field.id} className="space-y-1">
+                        <Label>
+                          {field.label}
+                          {field.required && ' *'}
+                        </Label>
+                        <Select
+                          value={mapping[field.id] === undefined ? 'none' : String(mapping[field.id])}
+                          onValueChange={(value) => updateMapping(field.id, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Don't import</SelectItem>
+                            {csv.headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {sample && (
+                          <p className="text-xs text-muted-foreground truncate">e.g. {sample}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select value={dateFormat} onValueChange={setDateFormat}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMPORT_DATE_FORMATS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Volume unit</Label>
+                <Select
+                  value={units.volume}
+                  onValueChange={(value) => setUnits({ ...units, volume: value as VolumeUnit })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOLUME_UNITS.map((unit) => (
+                      <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Temperature unit</Label>
+                <Select
+                  value={units.temperature}
+                  onValueChange={(value) => setUnits({ ...units, temperature: value as TemperatureUnit })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPERATURE_UNITS.map((unit) => (
+                      <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={resetWizard}>
+                Choose Another File
+              </Button>
+              <Button onClick={() => setStep('review')} disabled={mapping.name === undefined}>
+                Review Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Review */}
+        {step === 'review' && plan && (
+          <div className="bg-card rounded-xl border p-6 space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold">Review</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Nothing is saved until you import. The whole file is imported in one go, or not at all.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {[
+                { label: 'New batches', value: plan.batches.length },
+                { label: 'Existing batches', value: plan.existingBatchCount },
+                { label: 'Readings', value: plan.logs.length },
+                { label: 'Rows with errors', value: plan.errorCount },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 bg-muted rounded-lg">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {plan.errorCount > 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  {plan.errorCount} {plan.errorCount === 1 ? 'row has' : 'rows have'} problems. Fix them in your
+                  spreadsheet and upload it again, or adjust the column mapping.
+                </p>
+              </div>
+            )}
+
+            {missingLogPermission && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+                <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>This file contains readings, but your role can't log readings. Skip the reading columns to import batches only.</p>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {plan.errorCount > 0 && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="import-errors-only"
+                    checked={errorsOnly}
+                    onCheckedChange={(checked) => setErrorsOnly(checked === true)}
+                  />
+                  <Label htmlFor="import-errors-only" className="font-normal cursor-pointer">
+                    Only show rows with errors
+                  </Label>
+                </div>
+              )}
+
+              <div className="rounded-lg border max-h-[480px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reading</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.batchName || '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusBadges[row.status].variant}>{statusBadges[row.status].label}</Badge>
+                        </TableCell>
+                        <TableCell>{row.hasReading ? 'Yes' : '—'}</TableCell>
+                        <TableCell className="text-destructive">
+                          {row.errors.map((error) => (
+                            <p key={error}>{error}</p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {(errorsOnly ? plan.errorCount : plan.rows.length) > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROW_LIMIT} rows.</p>
+              )}
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importMutation.isPending}>
+                Back
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={
+                  plan.errorCount > 0 ||
+                  missingLogPermission ||
+                  (plan.batches.length === 0 && plan.logs.length === 0) ||
+                  importMutation.isPending
+                }
+              >
+                {importMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {plan.batches.length} Batches and {plan.logs.length} Readings
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Done */}
+        {step === 'done' && (
+          <div className="bg-card rounded-xl border p-6 text-center space-y-4">
+            <CheckCircle2 className="h-10 w-10 text-primary mx-auto" />
+            <div>
+              <h3 className="text-lg font-semibold">Import complete</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {completedImport
+                  ? `Imported ${completedImport.batch_count} batches and ${completedImport.log_count} readings from ${completedImport.file_name}.`
+                  : `Imported ${fileName}.`}
+                {' '}If something looks wrong, roll the import back and try again.
+              </p>
+            </div>
+            <div className="flex flex-wrap justify-center gap-2">
+              {completedImport && canRollBack(completedImport) && renderRollbackButton(completedImport, 'default')}
+              <Button variant="outline" onClick={resetWizard}>
+                Import Another File
+              </Button>
+              <Button onClick={() => navigate('/dashboard')}>
+                Go to Dashboard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Recent imports */}
+        <div className="bg-card rounded-xl border p-6">
+          <h3 className="text-lg font-semibold mb-4">Recent Imports</h3>
+
+          {importsLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          ) : imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No imports yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {imports.map((batchImport) => {
+                const importedBy = batchImport.imported_by === user?.id ? 'you' : getMemberName(batchImport.imported_by);
+
+                return (
+                  <div key={batchImport.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{batchImport.file_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {batchImport.batch_count} batches · {batchImport.log_count} readings
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Imported {format(new Date(batchImport.created_at), 'PP')}
+                        {importedBy && ` by ${importedBy}`}
+                        {batchImport.rolled_back_at &&
+                          ` · Rolled back ${formatDistanceToNow(new Date(batchImport.rolled_back_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+
+                    {batchImport.rolled_back_at ? (
+                      <Badge variant="secondary">Rolled back</Badge>
+                    ) : (
+                      canRollBack(batchImport) && renderRollbackButton(batchImport)
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
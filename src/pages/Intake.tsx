@@ -0,0 +1,387 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Apple, ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel,
+  AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { IntakeFormDialog } from '@/components/intake/IntakeFormDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useVarieties } from '@/hooks/use-varieties';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatWeight, getLotYield, summarizeYield, type FruitIntake, type YieldSummary } from '@/lib/intake';
+
+type BatchRow = Tables<'batches'>;
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+function YieldTable({ title, groupLabel, summaries }: { title: string; groupLabel: string; summaries: YieldSummary[] }) {
+  return (
+    <div className="bg-card rounded-xl border p-6">
+      <h2 className="text-lg font-semibold mb-4">{title}</h2>
+      {summaries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No fruit received yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{groupLabel}</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Juice</TableHead>
+              <TableHead className="text-right">Yield</TableHead>
+              <TableHead className="text-right">Brix</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map((summary) => (
+              <TableRow key={summary.key}>
+                <TableCell>
+                  <span className="font-medium">{summary.label}</span>
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {summary.lots} {summary.lots === 1 ? 'lot' : 'lots'}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{formatWeight(summary.weightKg)}</TableCell>
+                <TableCell className="text-right">{summary.juiceLiters.toFixed(1)} L</TableCell>
+                <TableCell className="text-right font-medium">
+                  {summary.yieldPerTonne !== null ? `${summary.yieldPerTonne.toFixed(0)} L/t` : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {summary.averageBrix !== null ? `${summary.averageBrix.toFixed(1)} °Bx` : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default function Intake() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, organization, organizationId, role, isLoading: organizationLoading } = useOrganization();
+  const { can } = usePermissions(role);
+  const { getVariety, isLoading: varietiesLoading } = useVarieties(organizationId);
+
+  const [isIntakeDialogOpen, setIsIntakeDialogOpen] = useState(false);
+  const [editingLot, setEditingLot] = useState<FruitIntake | null>(null);
+
+  const canRecordIntake = can('record_intake');
+
+  const {
+    data: lots = [],
+    isLoading: lotsLoading,
+  } = useQuery<FruitIntake[]>({
+    queryKey: ['fruit-intakes', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('fruit_intakes')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('received_on', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const {
+    data: batches = [],
+    isLoading: batchesLoading,
+  } = useQuery<BatchRow[]>({
+    queryKey: ['batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const batchById = useMemo(() => new Map(batches.map((batch) => [batch.id, batch])), [batches]);
+
+  // Suppliers are free text, so group them without regard to case or stray spaces
+  const supplierYields = useMemo(
+    () => summarizeYield(lots, (lot) => ({ key: lot.supplier.trim().toLowerCase(), label: lot.supplier.trim() })),
+    [lots]
+  );
+
+  const varietyYields = useMemo(
+    () => summarizeYield(lots, (lot) => ({ key: lot.variety_id, label: getVariety(lot.variety_id)?.name ?? 'Unknown variety' })),
+    [lots, getVariety]
+  );
+
+  const suppliers = useMemo(() => supplierYields.map((summary) => summary.label).sort(), [supplierYields]);
+
+  const totals = summarizeYield(lots, () => ({ key: 'all', label: 'All' }))[0];
+  const awaitingPressing = lots.filter((lot) => lot.juice_volume === null);
+
+  const deleteLotMutation = useMutation<FruitIntake, Error, FruitIntake>({
+    mutationFn: async (lot) => {
+      const { data, error } = await supabase
+        .from('fruit_intakes')
+        .delete()
+        .eq('id', lot.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error("You don't have permission to delete this lot.");
+      return lot;
+    },
+    onSuccess: (lot) => {
+      queryClient.invalidateQueries({ queryKey: ['fruit-intakes', organizationId] });
+      toast({
+        title: 'Lot deleted',
+        description: `The lot from ${lot.supplier} was removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting lot',
+        description: error.message,
+      });
+    },
+  });
+
+  function openIntakeDialog(lot: FruitIntake | null) {
+    setEditingLot(lot);
+    setIsIntakeDialogOpen(true);
+  }
+
+  if (organizationLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  const isLoading = lotsLoading || batchesLoading || varietiesLoading;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold">Fruit Intake</h1>
+                <p className="text-sm text-muted-foreground">{organization.name}</p>
+              </div>
+            </div>
+            {canRecordIntake && (
+              <Button onClick={() => openIntakeDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Receive Fruit
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">Fruit Received</p>
+            <p className="text-2xl font-bold">{formatWeight(totals?.weightKg ?? 0)}</p>
+            <p className="text-xs text-muted-foreground">
+              {lots.length} {lots.length === 1 ? 'lot' : 'lots'} from {supplierYields.length} {supplierYields.length === 1 ? 'supplier' : 'suppliers'}
+            </p>
+          </div>
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">Juice Pressed</p>
+            <p className="text-2xl font-bold">{(totals?.juiceLiters ?? 0).toFixed(1)} L</p>
+            <p className="text-xs text-muted-foreground">
+              {totals?.yieldPerTonne != null ? `${totals.yieldPerTonne.toFixed(0)} L per tonne overall` : 'Nothing pressed yet'}
+            </p>
+          </div>
+          <div className="bg-card rounded-xl border p-6">
+            <p className="text-sm text-muted-foreground">Awaiting Pressing</p>
+            <p className="text-2xl font-bold">{awaitingPressing.length}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatWeight(awaitingPressing.reduce((sum, lot) => sum + Number(lot.weight_kg), 0))} of fruit
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : lots.length === 0 ? (
+          <div className="bg-card rounded-xl border p-6 text-center py-12 space-y-2">
+            <Apple className="h-8 w-8 text-muted-foreground mx-auto" />
+            <p className="text-sm text-muted-foreground">
+              {canRecordIntake
+                ? 'No fruit received yet. Record each delivery to track juice yield per supplier and variety.'
+                : 'No fruit has been received yet.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <YieldTable title="Yield by Supplier" groupLabel="Supplier" summaries={supplierYields} />
+              <YieldTable title="Yield by Variety" groupLabel="Variety" summaries={varietyYields} />
+            </div>
+
+            <div className="bg-card rounded-xl border p-6">
+              <h2 className="text-lg font-semibold mb-4">Lots</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Variety</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">Brix</TableHead>
+                    <TableHead>Pressed</TableHead>
+                    <TableHead className="text-right">Yield</TableHead>
+                    <TableHead>Batch</TableHead>
+                    {canRecordIntake && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map((lot) => {
+                    const lotYield = getLotYield(lot);
+                    const batch = lot.batch_id ? batchById.get(lot.batch_id) : undefined;
+
+                    return (
+                      <TableRow key={lot.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(lot.received_on)}
+                          {lot.harvest_date && (
+                            <p className="text-xs text-muted-foreground">Harvested {formatDate(lot.harvest_date)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-medium">{lot.supplier}</span>
+                          {lot.orchard && <p className="text-xs text-muted-foreground">{lot.orchard}</p>}
+                        </TableCell>
+                        <TableCell>{getVariety(lot.variety_id)?.name ?? '—'}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{formatWeight(Number(lot.weight_kg))}</TableCell>
+                        <TableCell className="text-right">{lot.brix !== null ? `${lot.brix} °Bx` : '—'}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {lot.pressed_on ? (
+                            <>
+                              {formatDate(lot.pressed_on)}
+                              {lot.juice_volume !== null && (
+                                <p className="text-xs text-muted-foreground">{Number(lot.juice_volume).toFixed(1)} L</p>
+                              )}
+                            </>
+                          ) : (
+                            <Badge variant="outline">Not pressed</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {lotYield !== null ? `${lotYield.toFixed(0)} L/t` : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {batch ? (
+                            <Link to={`/batches/${batch.id}`} className="text-sm hover:underline">
+                              {batch.name}
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        {canRecordIntake && (
+                          <TableCell>
+                            <div className="flex items-center justify-end">
+                              <Button variant="ghost" size="icon" onClick={() => openIntakeDialog(lot)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="text-destructive"
+                                    disabled={deleteLotMutation.isPending && deleteLotMutation.variables?.id === lot.id}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete this lot?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      The {formatWeight(Number(lot.weight_kg))} from {lot.supplier} will no longer count towards yield. This action cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      onClick={() => deleteLotMutation.mutate(lot)}
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </main>
+
+      {user && (
+        <IntakeFormDialog
+          open={isIntakeDialogOpen}
+          onOpenChange={setIsIntakeDialogOpen}
+          organizationId={organization.id}
+          userId={user.id}
+          lot={editingLot}
+          batches={batches}
+          suppliers={suppliers}
+          canCreateVarieties={can('manage_varieties') || can('create_batch') || can('edit_batch')}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useToast } from '@/hooks/use-toast';
+import { createOrganization, storeActiveOrganizationId } from '@/lib/organizations';
 import { z } from 'zod';
 
 // Zod validation schema
@@ -49,33 +50,11 @@ export default function Onboarding() {
         throw new Error('Not authenticated');
       }
 
-      // Create organization
-      const { data: org, error: orgError } = await supabase
-        .from('organizations')
-        .insert([
-          {
-            name: validation.data.name,
-            owner_id: user.id,
-            team_size: validation.data.size
-          }
-        ])
-        .select()
-        .single();
-
-      if (orgError) throw orgError;
-
-      // Add user as organization member with 'owner' role
-      const { error: memberError } = await supabase
-        .from('organization_members')
-        .insert([
-          {
-            organization_id: org.id,
-            user_id: user.id,
-            role: 'owner'
-          }
-        ]);
-
-      if (memberError) throw memberError;
+      const org = await createOrganization(user.id, {
+        name: validation.data.name,
+        teamSize: validation.data.size,
+      });
+      storeActiveOrganizationId(user.id, org.id);
 
       toast({
         title: "Success!",
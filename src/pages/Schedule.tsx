@@ -0,0 +1,799 @@
+import { createContext, useContext, useMemo, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ArrowLeft,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle2,
+  Filter,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Calendar } from '@/components/ui/calendar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { useProductionStages } from '@/hooks/use-production-stages';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { cn } from '@/lib/utils';
+import { PACKAGING_FORMATS, getPackagingFormat, packagingRunSchema, type PackagingFormat } from '@/lib/packaging';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+type BatchRow = Tables<'batches'>;
+type PackagingRun = Tables<'packaging_schedules'> & {
+  batches: Pick<BatchRow, 'id' | 'name' | 'current_stage' | 'organization_id'>;
+};
+
+type ViewMode = 'month' | 'week';
+
+type RunFormState = {
+  batch_id: string;
+  target_date: string;
+  format: PackagingFormat;
+  quantity: number | '';
+  notes: string;
+};
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const emptyRunForm = (date = new Date()): RunFormState => ({
+  batch_id: '',
+  target_date: toDateKey(date),
+  format: 'bottle',
+  quantity: '',
+  notes: '',
+});
+
+type ScheduleDayContextValue = {
+  runsByDate: Map<string, PackagingRun[]>;
+  onDropRun: (runId: string, date: Date) => void;
+  onSelectRun: (run: PackagingRun) => void;
+  onCreateRun: (date: Date) => void;
+};
+
+// Day cells are rendered by react-day-picker, so they read schedule data from context
+// instead of props to keep a stable component identity while dragging
+const ScheduleDayContext = createContext<ScheduleDayContextValue | null>(null);
+
+function ScheduleDay({ date, displayMonth }: { date: Date; displayMonth: Date }) {
+  const context = useContext(ScheduleDayContext);
+  const [isOver, setIsOver] = useState(false);
+  if (!context) return null;
+
+  const runs = context.runsByDate.get(toDateKey(date)) ?? [];
+  const isOutside = !isSameMonth(date, displayMonth);
+
+  return (
+    <div
+      className={cn(
+        'group flex h-full min-h-[7rem] flex-col gap-1 p-1 transition-colors',
+        isOutside && 'bg-muted/30 text-muted-foreground',
+        isOver && 'bg-accent'
+      )}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        const runId = e.dataTransfer.getData('text/plain');
+        if (runId) context.onDropRun(runId, date);
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <span
+          className={cn(
+            'flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium',
+            isSameDay(date, new Date()) && 'bg-primary text-primary-foreground'
+          )}
+        >
+          {format(date, 'd')}
+        </span>
+        <button
+          type="button"
+          className="rounded p-0.5 text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+          onClick={() => context.onCreateRun(date)}
+          aria-label={`Schedule run on ${format(date, 'PPP')}`}
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {runs.map((run) => {
+        const runFormat = getPackagingFormat(run.format);
+        return (
+          <button
+            key={run.id}
+            type="button"
+            draggable={!run.completed_at}
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', run.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onClick={() => context.onSelectRun(run)}
+            className={cn(
+              'truncate rounded px-1.5 py-1 text-left text-xs font-medium',
+              runFormat.className,
+              run.completed_at ? 'line-through opacity-60' : 'cursor-grab active:cursor-grabbing'
+            )}
+          >
+            {run.batches.name} · {runFormat.label}
+            {run.quantity !== null && ` ×${run.quantity}`}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function Schedule() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, organization, organizationId, isLoading: organizationLoading } = useOrganization();
+  const { pipeline } = useProductionStages(organizationId);
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const finalStage = pipeline.finalStage;
+
+  const [viewMode, setViewMode] = useState<ViewMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [formatFilter, setFormatFilter] = useState<'all' | PackagingFormat>('all');
+  const [showRunForm, setShowRunForm] = useState(false);
+  const [runForm, setRunForm] = useState<RunFormState>(() => emptyRunForm());
+  const [selectedRun, setSelectedRun] = useState<PackagingRun | null>(null);
+  const [bottlePrompt, setBottlePrompt] = useState<PackagingRun['batches'] | null>(null);
+
+  const range = useMemo(() => (
+    viewMode === 'month'
+      ? { start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) }
+      : { start: startOfWeek(cursor), end: endOfWeek(cursor) }
+  ), [viewMode, cursor]);
+
+  const runsQueryKey = ['packaging-schedules', organizationId, toDateKey(range.start), toDateKey(range.end)];
+
+  const {
+    data: runs = [],
+    isLoading: runsLoading,
+  } = useQuery<PackagingRun[]>({
+    queryKey: runsQueryKey,
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .select('*, batches!inner(id, name, current_stage, organization_id)')
+        .eq('batches.organization_id', organizationId)
+        .is('batches.deleted_at', null)
+        .gte('target_date', toDateKey(range.start))
+        .lte('target_date', toDateKey(range.end))
+        .order('target_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []) as PackagingRun[];
+    },
+  });
+
+  const {
+    data: batches = [],
+  } = useQuery<BatchRow[]>({
+    queryKey: ['batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const filteredRuns = useMemo(
+    () => (formatFilter === 'all' ? runs : runs.filter((run) => run.format === formatFilter)),
+    [runs, formatFilter]
+  );
+
+  const runsByDate = useMemo(() => {
+    const map = new Map<string, PackagingRun[]>();
+    filteredRuns.forEach((run) => map.set(run.target_date, [...(map.get(run.target_date) ?? []), run]));
+    return map;
+  }, [filteredRuns]);
+
+  const createRunMutation = useMutation<PackagingRun, Error, TablesInsert<'packaging_schedules'>>({
+    mutationFn: async (payload) => {
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .insert([payload])
+        .select('*, batches!inner(id, name, current_stage, organization_id)')
+        .single();
+
+      if (error) throw error;
+      return data as PackagingRun;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules', organizationId] });
+      setShowRunForm(false);
+      toast({
+        title: 'Run scheduled!',
+        description: `${data.batches.name} is scheduled for ${format(parseISO(data.target_date), 'PPP')}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error scheduling run',
+        description: error.message,
+      });
+    },
+  });
+
+  const updateRunMutation = useMutation<PackagingRun, Error, { runId: string; updates: TablesUpdate<'packaging_schedules'> }, { previous?: PackagingRun[] }>({
+    mutationFn: async ({ runId, updates }) => {
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .update(updates)
+        .eq('id', runId)
+        .select('*, batches!inner(id, name, current_stage, organization_id)')
+        .single();
+
+      if (error) throw error;
+      return data as PackagingRun;
+    },
+    // Move the run immediately so dragging feels instant; roll back if the update fails
+    onMutate: async ({ runId, updates }) => {
+      await queryClient.cancelQueries({ queryKey: runsQueryKey });
+      const previous = queryClient.getQueryData<PackagingRun[]>(runsQueryKey);
+      queryClient.setQueryData<PackagingRun[]>(runsQueryKey, (old) =>
+        old ? old.map((run) => (run.id === runId ? { ...run, ...updates } as PackagingRun : run)) : old
+      );
+      return { previous };
+    },
+    onSuccess: (data) => {
+      setSelectedRun((current) => (current?.id === data.id ? data : current));
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(runsQueryKey, context.previous);
+      toast({
+        variant: 'destructive',
+        title: 'Error updating run',
+        description: error.message,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules', organizationId] });
+    },
+  });
+
+  const completeRunMutation = useMutation<{ run: PackagingRun; remaining: number }, Error, PackagingRun>({
+    mutationFn: async (run) => {
+      const { data, error } = await supabase
+        .from('packaging_schedules')
+        .update({ completed_at: new Date().toISOString() })
+        .eq('id', run.id)
+        .select('*, batches!inner(id, name, current_stage, organization_id)')
+        .single();
+
+      if (error) throw error;
+
+      const { count, error: countError } = await supabase
+        .from('packaging_schedules')
+        .select('id', { count: 'exact', head: true })
+        .eq('batch_id', run.batch_id)
+        .is('completed_at', null);
+
+      if (countError) throw countError;
+      return { run: data as PackagingRun, remaining: count ?? 0 };
+    },
+    onSuccess: ({ run, remaining }) => {
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules', organizationId] });
+      setSelectedRun(null);
+      toast({
+        title: 'Run completed!',
+        description: `${run.batches.name} packaging run marked as complete.`,
+      });
+      if (remaining === 0 && finalStage && !pipeline.isTerminal(run.batches.current_stage)) {
+        setBottlePrompt(run.batches);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error completing run',
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteRunMutation = useMutation<string, Error, string>({
+    mutationFn: async (runId) => {
+      const { error } = await supabase
+        .from('packaging_schedules')
+        .delete()
+        .eq('id', runId);
+
+      if (error) throw error;
+      return runId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules', organizationId] });
+      setSelectedRun(null);
+      toast({
+        title: 'Run deleted',
+        description: 'The packaging run has been removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting run',
+        description: error.message,
+      });
+    },
+  });
+
+  const bottleBatchMutation = useMutation<void, Error, PackagingRun['batches']>({
+    mutationFn: async (batch) => {
+      if (!finalStage) throw new Error('No final production stage is configured.');
+      // Goes through the RPC so guard rules such as "needs a tasting note" still apply
+      const { error } = await supabase.rpc('change_batch_stage', {
+        batch_id: batch.id,
+        to_stage: finalStage.key,
+        note: 'All packaging runs completed',
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, batch) => {
+      queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['batch-stage-history', batch.id] });
+      queryClient.invalidateQueries({ queryKey: ['packaging-schedules', organizationId] });
+      setBottlePrompt(null);
+      toast({
+        title: 'Stage updated!',
+        description: `${batch.name} moved to ${finalStage?.name ?? 'its final stage'}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating stage',
+        description: error.message,
+      });
+    },
+  });
+
+  function openRunForm(date = new Date()) {
+    setRunForm(emptyRunForm(date));
+    setShowRunForm(true);
+  }
+
+  function handleCreateRun(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!user?.id) return;
+
+    // Validate input using Zod
+    const validation = packagingRunSchema.safeParse({
+      ...runForm,
+      quantity: runForm.quantity === '' ? null : runForm.quantity,
+    });
+
+    if (!validation.success) {
+      const firstError = validation.error.errors[0];
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: firstError.message,
+      });
+      return;
+    }
+
+    createRunMutation.mutate({
+      batch_id: validation.data.batch_id,
+      target_date: validation.data.target_date,
+      format: validation.data.format,
+      quantity: validation.data.quantity,
+      notes: validation.data.notes || null,
+      created_by: user.id,
+    });
+  }
+
+  function handleDropRun(runId: string, date: Date) {
+    const run = runs.find((item) => item.id === runId);
+    const targetDate = toDateKey(date);
+    if (!run || run.completed_at || run.target_date === targetDate) return;
+    updateRunMutation.mutate({ runId, updates: { target_date: targetDate } });
+  }
+
+  function shiftCursor(direction: 1 | -1) {
+    setCursor((current) => (viewMode === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+  }
+
+  const rangeLabel = viewMode === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : `${format(range.start, 'MMM d')} – ${format(range.end, 'MMM d, yyyy')}`;
+
+  const dayContext: ScheduleDayContextValue = {
+    runsByDate,
+    onDropRun: handleDropRun,
+    onSelectRun: setSelectedRun,
+    onCreateRun: openRunForm,
+  };
+
+  const activeBatches = batches.filter((batch) => !pipeline.isTerminal(batch.current_stage));
+
+  if (organizationLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate('/dashboard')}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold">Packaging Schedule</h1>
+                <p className="text-sm text-muted-foreground">{organization.name}</p>
+              </div>
+            </div>
+            <Button onClick={() => openRunForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Run
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {/* Calendar Controls */}
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => shiftCursor(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setCursor(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => shiftCursor(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <h2 className="text-lg font-semibold ml-2">{rangeLabel}</h2>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={viewMode}
+              onValueChange={(value) => value && setViewMode(value as ViewMode)}
+            >
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            </ToggleGroup>
+
+            <Select value={formatFilter} onValueChange={(value) => setFormatFilter(value as 'all' | PackagingFormat)}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <div className="flex items-center gap-2">
+                  <Filter className="h-4 w-4" />
+                  <SelectValue />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Formats</SelectItem>
+                {PACKAGING_FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Calendar */}
+        <div className="bg-card rounded-xl border overflow-hidden">
+          {runsLoading ? (
+            <div className="p-6 space-y-4">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : (
+            <ScheduleDayContext.Provider value={dayContext}>
+              {viewMode === 'month' ? (
+                <Calendar
+                  month={cursor}
+                  onMonthChange={setCursor}
+                  className="p-0"
+                  classNames={{
+                    months: 'w-full',
+                    month: 'w-full',
+                    caption: 'hidden',
+                    table: 'w-full border-collapse',
+                    head_row: 'grid grid-cols-7 border-b bg-muted/50',
+                    head_cell: 'py-2 text-center text-xs font-medium text-muted-foreground',
+                    row: 'grid grid-cols-7 border-b last:border-b-0',
+                    cell: 'border-r last:border-r-0 p-0 text-sm align-top',
+                  }}
+                  components={{ Day: ScheduleDay }}
+                />
+              ) : (
+                <div>
+                  <div className="grid grid-cols-7 border-b bg-muted/50">
+                    {eachDayOfInterval(range).map((day) => (
+                      <div key={day.toISOString()} className="py-2 text-center text-xs font-medium text-muted-foreground">
+                        {format(day, 'EEE d')}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-7 min-h-[24rem]">
+                    {eachDayOfInterval(range).map((day) => (
+                      <div key={day.toISOString()} className="border-r last:border-r-0">
+                        <ScheduleDay date={day} displayMonth={day} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </ScheduleDayContext.Provider>
+          )}
+        </div>
+
+        {filteredRuns.length === 0 && !runsLoading && (
+          <div className="text-center text-sm text-muted-foreground">
+            <CalendarDays className="h-8 w-8 mx-auto mb-2" />
+            No packaging runs in this {viewMode}. Drag runs between days to reschedule them.
+          </div>
+        )}
+      </main>
+
+      {/* New Run Dialog */}
+      <Dialog open={showRunForm} onOpenChange={setShowRunForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule Packaging Run</DialogTitle>
+            <DialogDescription>
+              Plan when a batch will be packaged and in which format.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreateRun} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="run-batch">Batch</Label>
+              <Select value={runForm.batch_id} onValueChange={(value) => setRunForm({ ...runForm, batch_id: value })}>
+                <SelectTrigger id="run-batch">
+                  <SelectValue placeholder="Select a batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeBatches.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="run-date">Target Date</Label>
+                <Input
+                  id="run-date"
+                  type="date"
+                  value={runForm.target_date}
+                  onChange={(e) => setRunForm({ ...runForm, target_date: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="run-format">Format</Label>
+                <Select value={runForm.format} onValueChange={(value) => setRunForm({ ...runForm, format: value as PackagingFormat })}>
+                  <SelectTrigger id="run-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PACKAGING_FORMATS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="run-quantity">Quantity (units)</Label>
+              <Input
+                id="run-quantity"
+                type="number"
+                step="1"
+                value={runForm.quantity}
+                onChange={(e) => setRunForm({ ...runForm, quantity: e.target.value ? parseInt(e.target.value, 10) : '' })}
+                placeholder="e.g., 240"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="run-notes">Notes</Label>
+              <Textarea
+                id="run-notes"
+                value={runForm.notes}
+                onChange={(e) => setRunForm({ ...runForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowRunForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createRunMutation.isPending}>
+                {createRunMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Scheduling...
+                  </>
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Schedule Run
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run Details Dialog */}
+      {selectedRun && (
+        <Dialog open={Boolean(selectedRun)} onOpenChange={(open) => !open && setSelectedRun(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{selectedRun.batches.name}</DialogTitle>
+              <DialogDescription>
+                {getPackagingFormat(selectedRun.format).label} run
+                {selectedRun.quantity !== null && ` · ${selectedRun.quantity} units`}
+                {selectedRun.created_by && ` · Scheduled by ${selectedRun.created_by === user?.id ? 'you' : getMemberName(selectedRun.created_by)}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="selected-run-date">Target Date</Label>
+                  <Input
+                    id="selected-run-date"
+                    type="date"
+                    value={selectedRun.target_date}
+                    disabled={Boolean(selectedRun.completed_at) || updateRunMutation.isPending}
+                    onChange={(e) => e.target.value && updateRunMutation.mutate({
+                      runId: selectedRun.id,
+                      updates: { target_date: e.target.value },
+                    })}
+                  />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Status</p>
+                  {selectedRun.completed_at ? (
+                    <Badge variant="secondary">Completed {format(new Date(selectedRun.completed_at), 'MMM d')}</Badge>
+                  ) : (
+                    <Badge variant="outline">Scheduled</Badge>
+                  )}
+                </div>
+              </div>
+
+              {selectedRun.notes && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Notes</p>
+                  <p className="text-sm">{selectedRun.notes}</p>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                variant="outline"
+                className="text-destructive"
+                disabled={deleteRunMutation.isPending}
+                onClick={() => deleteRunMutation.mutate(selectedRun.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+              {selectedRun.completed_at ? (
+                <Button
+                  variant="outline"
+                  disabled={updateRunMutation.isPending}
+                  onClick={() => updateRunMutation.mutate({ runId: selectedRun.id, updates: { completed_at: null } })}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reopen
+                </Button>
+              ) : (
+                <Button
+                  disabled={completeRunMutation.isPending}
+                  onClick={() => completeRunMutation.mutate(selectedRun)}
+                >
+                  {completeRunMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                  )}
+                  Mark Complete
+                </Button>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Offer to close out the batch once its last run is done */}
+      <AlertDialog open={Boolean(bottlePrompt)} onOpenChange={(open) => !open && setBottlePrompt(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>All packaging runs complete</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every scheduled run for <strong>{bottlePrompt?.name}</strong> is done. Move the batch to the {finalStage?.name} stage?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not now</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={bottleBatchMutation.isPending}
+              onClick={() => bottlePrompt && bottleBatchMutation.mutate(bottlePrompt)}
+            >
+              Move to {finalStage?.name}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import {
   ArrowLeft, User as UserIcon, Building2, Shield, Trash2,
-  Edit, Mail, Lock, Users, AlertTriangle, Loader2
+  Edit, Mail, Lock, AlertTriangle, Loader2, Workflow, LogOut, UserX, Apple
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,13 +16,27 @@ import {
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { User } from '@supabase/supabase-js';
-import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TablesUpdate } from '@/integrations/supabase/types';
 import { z } from 'zod';
+import { ProductionStagesSettings } from '@/components/settings/ProductionStagesSettings';
+import { VarietiesSettings } from '@/components/settings/VarietiesSettings';
+import { TeamInvitations } from '@/components/settings/TeamInvitations';
+import { TeamMembers } from '@/components/settings/TeamMembers';
+import { MemberAvatar } from '@/components/members/MemberAvatar';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useOrganization } from '@/hooks/use-organization';
+import { storeActiveOrganizationId, type Organization } from '@/lib/organizations';
 
 // Zod validation schemas
-const nameSchema = z.string().trim().min(1, "Name cannot be empty").max(100, "Name must be less than 100 characters");
+const profileSchema = z.object({
+  full_name: z.string().trim().min(1, "Name cannot be empty").max(100, "Name must be less than 100 characters"),
+  job_title: z.string().trim().max(100, "Job title must be less than 100 characters"),
+  avatar_url: z.union([
+    z.literal(''),
+    z.string().trim().url("Avatar must be a valid URL").max(500, "Avatar URL must be less than 500 characters"),
+  ]),
+});
 
 const organizationSchema = z.object({
   name: z.string().trim().min(1, "Organization name cannot be empty").max(100, "Organization name must be less than 100 characters"),
@@ -41,31 +55,15 @@ const passwordSchema = z.object({
   path: ["confirm"],
 });
 
-type Organization = Tables<'organizations'>;
-
-type MemberRole = 'owner' | 'admin' | 'member';
-
-type OrganizationMembership = {
-  organization_id: string;
-  role: MemberRole;
-  organizations: Organization;
-};
-
-type MemberWithProfile = Tables<'organization_members'> & {
-  users?: {
-    email?: string;
-    user_metadata?: { full_name?: string };
-  } | null;
-};
-
 export default function Settings() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const [fullName, setFullName] = useState('');
+  const [profileForm, setProfileForm] = useState({ full_name: '', job_title: '', avatar_url: '' });
   const [orgName, setOrgName] = useState('');
   const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deleteAccountConfirmation, setDeleteAccountConfirmation] = useState('');
 
   const [passwords, setPasswords] = useState({
     current: '',
@@ -73,78 +71,25 @@ export default function Settings() {
     confirm: ''
   });
   const {
-    data: user,
-    isLoading: userLoading,
-    error: userError,
-  } = useQuery<User | null>({
-    queryKey: ['auth-user'],
-    queryFn: async () => {
-      const { data, error } = await supabase.auth.getUser();
-      if (error) throw error;
-      return data.user;
-    },
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const {
-    data: membership,
-    isLoading: membershipLoading,
-    error: membershipError,
-  } = useQuery<(OrganizationMembership & { role: MemberRole }) | null>({
-    queryKey: ['organization-membership', user?.id],
-    enabled: Boolean(user?.id),
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data, error } = await supabase
-        .from('organization_members')
-        .select('organization_id, role, organizations(*)')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (error) throw error;
-      if (!data) return null;
-
-      return {
-        ...data,
-        role: (data.role as MemberRole) ?? 'member',
-        organizations: data.organizations as Organization,
-      };
-    },
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const organization = membership?.organizations ?? null;
-  const organizationId = organization?.id ?? null;
-  const memberRole = membership?.role;
-
-  const {
-    data: membersData,
-    isLoading: membersLoading,
-    error: membersError,
-  } = useQuery<MemberWithProfile[]>({
-    queryKey: ['organization-members', organizationId],
-    enabled: Boolean(organizationId),
-    queryFn: async () => {
-      if (!organizationId) return [];
-      const { data, error } = await supabase
-        .from('organization_members')
-        .select('*')
-        .eq('organization_id', organizationId);
-
-      if (error) throw error;
-      return (data as MemberWithProfile[]) ?? [];
-    },
-    staleTime: 60 * 1000,
-  });
-
-  const members = membersData ?? [];
-  const isLoading = userLoading || membershipLoading || (Boolean(organizationId) && membersLoading);
+    user,
+    memberships,
+    organization,
+    organizationId,
+    role: memberRole,
+    isLoading,
+    error: organizationError,
+  } = useOrganization();
+  const { can } = usePermissions(memberRole);
 
   useEffect(() => {
-    if (user && !userLoading) {
-      setFullName(user.user_metadata?.full_name ?? '');
+    if (user) {
+      setProfileForm({
+        full_name: user.user_metadata?.full_name ?? '',
+        job_title: user.user_metadata?.job_title ?? '',
+        avatar_url: user.user_metadata?.avatar_url ?? '',
+      });
     }
-  }, [user, userLoading]);
+  }, [user]);
 
   useEffect(() => {
     if (organization) {
@@ -153,18 +98,20 @@ export default function Settings() {
   }, [organization]);
 
   useEffect(() => {
-    const error = userError ?? membershipError ?? membersError;
-    if (error) {
-      const message = error instanceof Error ? error.message : 'Failed to load settings data';
+    if (organizationError) {
+      const message = organizationError instanceof Error ? organizationError.message : 'Failed to load settings data';
       toast({
         variant: 'destructive',
         title: 'Error',
         description: message,
       });
     }
-  }, [userError, membershipError, membersError, toast]);
+  }, [organizationError, toast]);
 
-  const canDeleteOrganization = memberRole === 'owner' || memberRole === 'admin';
+  // Matches the organizations DELETE policy; admins can't delete
+  const canDeleteOrganization = memberRole === 'owner';
+  // Accounts that still own an organization can't be deleted; see delete_own_account()
+  const ownedOrganizations = memberships.filter((membership) => membership.role === 'owner');
   const teamSizeLabels: Record<string, string> = {
     small: 'Small (just me)',
     medium: 'Medium (2-10 people)',
@@ -174,21 +121,22 @@ export default function Settings() {
     ? teamSizeLabels[organization.team_size] ?? organization.team_size
     : 'N/A';
 
-  const updateNameMutation = useMutation<string, Error, string>({
-    mutationFn: async (name) => {
+  // Profile fields live in auth metadata; a database trigger mirrors them into profiles
+  const updateProfileMutation = useMutation<void, Error, z.infer<typeof profileSchema>>({
+    mutationFn: async (profile) => {
       const { error } = await supabase.auth.updateUser({
-        data: { full_name: name },
+        data: profile,
       });
 
       if (error) throw error;
-      return name;
     },
     onSuccess: () => {
       toast({
-        title: 'Name updated!',
-        description: 'Your profile has been updated.',
+        title: 'Profile updated!',
+        description: 'Your teammates will see the new details.',
       });
       queryClient.invalidateQueries({ queryKey: ['auth-user'] });
+      queryClient.invalidateQueries({ queryKey: ['organization-members'] });
     },
     onError: (error) => {
       toast({
@@ -217,10 +165,7 @@ export default function Settings() {
         description: 'Your organization name has been changed.',
       });
 
-      queryClient.setQueryData<(OrganizationMembership & { role: MemberRole }) | null>(
-        ['organization-membership', user?.id],
-        (old) => (old ? { ...old, organizations: data } : old)
-      );
+      queryClient.invalidateQueries({ queryKey: ['organization-memberships', user?.id] });
       queryClient.invalidateQueries({ queryKey: ['organization-members', data.id] });
     },
     onError: (error) => {
@@ -281,6 +226,14 @@ export default function Settings() {
       });
 
       setDeleteConfirmation('');
+      if (user) storeActiveOrganizationId(user.id, null);
+
+      // Stay signed in when the user still belongs to another organization
+      if (memberships.length > 1) {
+        window.location.href = '/dashboard';
+        return;
+      }
+
       await supabase.auth.signOut();
       navigate('/');
     },
@@ -296,9 +249,69 @@ export default function Settings() {
     },
   });
 
-  function updateName() {
-    // Validate name using Zod
-    const validation = nameSchema.safeParse(fullName);
+  // RLS filters out rows the user may not touch instead of raising, so an empty result means "not allowed"
+  const leaveOrganizationMutation = useMutation<void, Error, { organizationId: string; userId: string }>({
+    mutationFn: async ({ organizationId, userId }) => {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error('The owner has to transfer ownership before leaving.');
+    },
+    onSuccess: (_, { userId }) => {
+      toast({
+        title: 'Left organization',
+        description: `You no longer have access to ${organization?.name}.`,
+      });
+
+      storeActiveOrganizationId(userId, null);
+      // Force a full page reload to update App.tsx state
+      window.location.href = '/dashboard';
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error leaving organization',
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteAccountMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('delete_own_account');
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      toast({
+        title: 'Account deleted',
+        description: 'Your account has been removed. Batches and records you created stay with your team.',
+      });
+
+      if (user) storeActiveOrganizationId(user.id, null);
+      // The user no longer exists, so only the local session needs clearing
+      await supabase.auth.signOut({ scope: 'local' });
+      navigate('/');
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting account',
+        description: error.message,
+      });
+    },
+    onSettled: () => {
+      setDeleteAccountConfirmation('');
+    },
+  });
+
+  function updateProfile() {
+    // Validate profile using Zod
+    const validation = profileSchema.safeParse(profileForm);
     
     if (!validation.success) {
       toast({
@@ -309,8 +322,8 @@ export default function Settings() {
       return;
     }
 
-    setFullName(validation.data);
-    updateNameMutation.mutate(validation.data);
+    setProfileForm(validation.data as typeof profileForm);
+    updateProfileMutation.mutate(validation.data as typeof profileForm);
   }
 
   function updateOrganization() {
@@ -397,7 +410,7 @@ export default function Settings() {
       toast({
         variant: 'destructive',
         title: 'Insufficient permissions',
-        description: 'Only organization owners or admins can delete this organization.',
+        description: 'Only the organization owner can delete this organization.',
       });
       return;
     }
@@ -405,6 +418,41 @@ export default function Settings() {
     deleteOrganizationMutation.mutate({ organizationId });
   }
 
+  function leaveOrganization() {
+    if (!organizationId || !user) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Organization context is missing.',
+      });
+      return;
+    }
+
+    leaveOrganizationMutation.mutate({ organizationId, userId: user.id });
+  }
+
+  function deleteAccount() {
+    if (deleteAccountConfirmation !== 'DELETE') {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Please type DELETE to confirm',
+      });
+      return;
+    }
+
+    if (ownedOrganizations.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Organizations still owned',
+        description: 'Transfer ownership of your organizations or delete them before deleting your account.',
+      });
+      return;
+    }
+
+    deleteAccountMutation.mutate();
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -459,7 +507,7 @@ export default function Settings() {
 
       <main className="container mx-auto px-6 py-8 max-w-4xl">
         <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="profile">
               <UserIcon className="h-4 w-4 mr-2" />
               Profile
@@ -468,6 +516,14 @@ export default function Settings() {
               <Building2 className="h-4 w-4 mr-2" />
               Organization
             </TabsTrigger>
+            <TabsTrigger value="stages">
+              <Workflow className="h-4 w-4 mr-2" />
+              Stages
+            </TabsTrigger>
+            <TabsTrigger value="varieties">
+              <Apple className="h-4 w-4 mr-2" />
+              Varieties
+            </TabsTrigger>
             <TabsTrigger value="security">
               <Shield className="h-4 w-4 mr-2" />
               Security
@@ -480,31 +536,64 @@ export default function Settings() {
               <h3 className="text-lg font-semibold mb-4">Personal Information</h3>
               
               <div className="space-y-4">
+                <div className="flex items-center gap-4">
+                  <MemberAvatar
+                    profile={{ ...profileForm, email: user?.email ?? null }}
+                    className="h-14 w-14"
+                  />
+                  <div>
+                    <p className="font-medium">{profileForm.full_name || user?.email}</p>
+                    {profileForm.job_title && (
+                      <p className="text-sm text-muted-foreground">{profileForm.job_title}</p>
+                    )}
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="fullName">Full Name</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="fullName"
-                      value={fullName}
-                      onChange={(e) => setFullName(e.target.value)}
-                      placeholder="John Doe"
-                    />
-                    <Button onClick={updateName} disabled={updateNameMutation.isPending}>
-                      {updateNameMutation.isPending ? (
-                        <>
-                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                          Saving...
-                        </>
-                      ) : (
-                        <>
-                          <Edit className="h-4 w-4 mr-2" />
-                          Update
-                        </>
-                      )}
-                    </Button>
-                  </div>
+                  <Input
+                    id="fullName"
+                    value={profileForm.full_name}
+                    onChange={(e) => setProfileForm({ ...profileForm, full_name: e.target.value })}
+                    placeholder="John Doe"
+                  />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="jobTitle">Job Title</Label>
+                  <Input
+                    id="jobTitle"
+                    value={profileForm.job_title}
+                    onChange={(e) => setProfileForm({ ...profileForm, job_title: e.target.value })}
+                    placeholder="Head Cidermaker"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="avatarUrl">Avatar URL</Label>
+                  <Input
+                    id="avatarUrl"
+                    type="url"
+                    value={profileForm.avatar_url}
+                    onChange={(e) => setProfileForm({ ...profileForm, avatar_url: e.target.value })}
+                    placeholder="https://example.com/me.jpg"
+                  />
+                </div>
+
+                <Button onClick={updateProfile} disabled={updateProfileMutation.isPending}>
+                  {updateProfileMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Update Profile
+                    </>
+                  )}
+                </Button>
+
                 <div className="space-y-2">
                   <Label>Email</Label>
                   <div className="flex items-center gap-2">
@@ -628,39 +717,42 @@ export default function Settings() {
             <div className="bg-card rounded-xl border p-6">
               <h3 className="text-lg font-semibold mb-4">Team Members</h3>
               
-              <div className="space-y-3">
-                {members.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">
-                    No team members yet. Invite colleagues to collaborate.
-                  </p>
-                ) : (
-                  members.map((member) => (
-                    <div key={member.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <Users className="h-4 w-4 text-muted-foreground" />
-                        <div>
-                          <p className="text-sm font-medium text-muted-foreground">
-                            User ID: {member.user_id?.slice(0, 8)}...
-                          </p>
-                        </div>
-                      </div>
-                      <span className="text-xs px-2 py-1 bg-background rounded-md capitalize">
-                        {member.role}
-                      </span>
-                    </div>
-                  ))
-                )}
-              </div>
+              {user && (
+                <TeamMembers
+                  organizationId={organization.id}
+                  userId={user.id}
+                  role={memberRole}
+                  canManageMembers={can('manage_members')}
+                />
+              )}
 
-              <Button variant="outline" className="w-full mt-4" onClick={() => {
-                toast({ title: "Coming soon!", description: "Team invitations will be available soon." });
-              }}>
-                <Users className="h-4 w-4 mr-2" />
-                Invite Team Member
-              </Button>
+              {user && (
+                <TeamInvitations
+                  organizationId={organization.id}
+                  userId={user.id}
+                  canInvite={can('manage_members')}
+                />
+              )}
             </div>
           </TabsContent>
 
+          {/* STAGES TAB */}
+          <TabsContent value="stages" className="space-y-6">
+            <ProductionStagesSettings
+              organizationId={organization.id}
+              canEdit={can('manage_stages')}
+            />
+          </TabsContent>
+
+          {/* VARIETIES TAB */}
+          <TabsContent value="varieties" className="space-y-6">
+            <VarietiesSettings
+              organizationId={organization.id}
+              userId={user?.id}
+              canEdit={can('manage_varieties')}
+            />
+          </TabsContent>
+
           {/* SECURITY TAB */}
           <TabsContent value="security" className="space-y-6">
             <div className="bg-card rounded-xl border p-6">
@@ -686,71 +778,191 @@ export default function Settings() {
                 <div>
                   <h3 className="text-lg font-semibold text-destructive">Danger Zone</h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Permanently delete your organization and all associated data. This action cannot be undone.
+                    {canDeleteOrganization
+                      ? 'Permanently delete your organization and all associated data. This action cannot be undone.'
+                      : `Leave ${organization?.name}. Only the owner can delete the organization.`}
+                  </p>
+                </div>
+              </div>
+
+              {canDeleteOrganization ? (
+                <AlertDialog onOpenChange={(open) => {
+                  if (!open) setDeleteConfirmation('');
+                }}>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="destructive"
+                      className="w-full"
+                      disabled={deleteOrganizationMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Organization
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This will permanently delete <strong>{organization?.name}</strong> and all batches,
+                        members, and data. This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="delete-confirm">Type DELETE to confirm:</Label>
+                      <Input
+                        id="delete-confirm"
+                        value={deleteConfirmation}
+                        onChange={(e) => setDeleteConfirmation(e.target.value)}
+                        placeholder="DELETE"
+                      />
+                    </div>
+
+                    <AlertDialogFooter>
+                      <AlertDialogCancel onClick={() => setDeleteConfirmation('')}>
+                        Cancel
+                      </AlertDialogCancel>
+                      <AlertDialogAction
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        onClick={deleteOrganization}
+                        disabled={
+                          deleteConfirmation !== 'DELETE' || deleteOrganizationMutation.isPending
+                        }
+                      >
+                        {deleteOrganizationMutation.isPending ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                            Deleting...
+                          </>
+                        ) : (
+                          'Delete Forever'
+                        )}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              ) : (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="destructive"
+                      className="w-full"
+                      disabled={leaveOrganizationMutation.isPending}
+                    >
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Leave Organization
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Leave {organization?.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        You'll lose access to its batches right away. Readings and notes you recorded stay with the
+                        team. You'll need a new invitation to rejoin.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        onClick={leaveOrganization}
+                        disabled={leaveOrganizationMutation.isPending}
+                      >
+                        {leaveOrganizationMutation.isPending ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                            Leaving...
+                          </>
+                        ) : (
+                          'Leave'
+                        )}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+
+            <div className="bg-destructive/10 border border-destructive/50 rounded-xl p-6">
+              <div className="flex items-start gap-3 mb-4">
+                <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+                <div>
+                  <h3 className="text-lg font-semibold text-destructive">Delete Account</h3>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Permanently delete your account and leave every organization. Batches, readings and notes
+                    you created stay with your team without your name on them.
                   </p>
                 </div>
               </div>
 
+              {ownedOrganizations.length > 0 && (
+                <div className="text-sm bg-background rounded-lg border p-3 mb-4">
+                  <p className="font-medium">You still own:</p>
+                  <ul className="list-disc pl-5 text-muted-foreground">
+                    {ownedOrganizations.map((membership) => (
+                      <li key={membership.organization_id}>{membership.organizations.name}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Transfer ownership from the Organization tab or delete these organizations first.
+                  </p>
+                </div>
+              )}
+
               <AlertDialog onOpenChange={(open) => {
-                if (!open) setDeleteConfirmation('');
+                if (!open) setDeleteAccountConfirmation('');
               }}>
                 <AlertDialogTrigger asChild>
                   <Button
                     variant="destructive"
                     className="w-full"
-                    disabled={!canDeleteOrganization || deleteOrganizationMutation.isPending}
+                    disabled={ownedOrganizations.length > 0 || deleteAccountMutation.isPending}
                   >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Organization
+                    <UserX className="h-4 w-4 mr-2" />
+                    Delete Account
                   </Button>
                 </AlertDialogTrigger>
                 <AlertDialogContent>
                   <AlertDialogHeader>
-                    <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                    <AlertDialogTitle>Delete your account?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      This will permanently delete <strong>{organization?.name}</strong> and all batches,
-                      members, and data. This action cannot be undone.
+                      You'll be signed out and removed from all of your organizations. This action cannot be undone.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
-                  
+
                   <div className="space-y-2">
-                    <Label htmlFor="delete-confirm">Type DELETE to confirm:</Label>
+                    <Label htmlFor="delete-account-confirm">Type DELETE to confirm:</Label>
                     <Input
-                      id="delete-confirm"
-                      value={deleteConfirmation}
-                      onChange={(e) => setDeleteConfirmation(e.target.value)}
+                      id="delete-account-confirm"
+                      value={deleteAccountConfirmation}
+                      onChange={(e) => setDeleteAccountConfirmation(e.target.value)}
                       placeholder="DELETE"
                     />
                   </div>
 
                   <AlertDialogFooter>
-                    <AlertDialogCancel onClick={() => setDeleteConfirmation('')}>
+                    <AlertDialogCancel onClick={() => setDeleteAccountConfirmation('')}>
                       Cancel
                     </AlertDialogCancel>
                     <AlertDialogAction
                       className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      onClick={deleteOrganization}
+                      onClick={deleteAccount}
                       disabled={
-                        deleteConfirmation !== 'DELETE' || deleteOrganizationMutation.isPending
+                        deleteAccountConfirmation !== 'DELETE' || deleteAccountMutation.isPending
                       }
                     >
-                      {deleteOrganizationMutation.isPending ? (
+                      {deleteAccountMutation.isPending ? (
                         <>
                           <Loader2 className="h-4 w-4 animate-spin mr-2" />
                           Deleting...
                         </>
                       ) : (
-                        'Delete Forever'
+                        'Delete Account'
                       )}
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
               </AlertDialog>
-              {!canDeleteOrganization && (
-                <p className="text-xs text-muted-foreground mt-3">
-                  Only organization owners or admins can delete this organization.
-                </p>
-              )}
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,306 @@
+import { useNavigate, Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel,
+  AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/use-organization';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { usePermissions } from '@/hooks/use-permissions';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+
+type BatchRow = Tables<'batches'>;
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+export default function Trash() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, organization, organizationId, role, isLoading: organizationLoading } = useOrganization();
+  const { getMemberName } = useOrganizationMembers(organizationId);
+  const { can } = usePermissions(role);
+
+  const canManageTrash = can('delete_batch');
+  // Matches the organizations UPDATE policy
+  const canChangeRetention = role === 'owner';
+  const retentionDays = organization?.trash_retention_days ?? 30;
+
+  const {
+    data: deletedBatches = [],
+    isLoading: deletedBatchesLoading,
+  } = useQuery<BatchRow[]>({
+    queryKey: ['deleted-batches', organizationId],
+    enabled: Boolean(organizationId),
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from('batches')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  function invalidateBatches() {
+    queryClient.invalidateQueries({ queryKey: ['batches', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['deleted-batches', organizationId] });
+  }
+
+  const restoreBatchMutation = useMutation<BatchRow, Error, BatchRow>({
+    mutationFn: async (batch) => {
+      const { error } = await supabase
+        .from('batches')
+        .update({ deleted_at: null })
+        .eq('id', batch.id);
+
+      if (error) throw error;
+      return batch;
+    },
+    onSuccess: (batch) => {
+      invalidateBatches();
+      queryClient.invalidateQueries({ queryKey: ['batch', batch.id] });
+      toast({
+        title: 'Batch restored',
+        description: `${batch.name} is back on the dashboard.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error restoring batch',
+        description: error.message,
+      });
+    },
+  });
+
+  // RLS filters out rows the user may not touch instead of raising, so an empty result means "not allowed"
+  const purgeBatchMutation = useMutation<BatchRow, Error, BatchRow>({
+    mutationFn: async (batch) => {
+      const { data, error } = await supabase
+        .from('batches')
+        .delete()
+        .eq('id', batch.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error("You don't have permission to delete this batch.");
+      return batch;
+    },
+    onSuccess: (batch) => {
+      invalidateBatches();
+      toast({
+        title: 'Batch deleted',
+        description: `${batch.name} and all its data have been permanently removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error deleting batch',
+        description: error.message,
+      });
+    },
+  });
+
+  const updateRetentionMutation = useMutation<void, Error, number>({
+    mutationFn: async (days) => {
+      if (!organizationId) throw new Error('Organization context is missing.');
+      const { error } = await supabase
+        .from('organizations')
+        .update({ trash_retention_days: days })
+        .eq('id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, days) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-memberships', user?.id] });
+      toast({
+        title: 'Retention updated',
+        description: `Batches in the trash are now kept for ${days} days.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error updating retention',
+        description: error.message,
+      });
+    },
+  });
+
+  if (organizationLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return <Navigate to="/onboarding" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/dashboard')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Trash</h1>
+              <p className="text-sm text-muted-foreground">{organization.name}</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6">
+        {/* Retention */}
+        <div className="bg-card rounded-xl border p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold">Retention</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Deleted batches are purged automatically {retentionDays} days after they were moved here.
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="retention" className="sr-only">Retention period</Label>
+              <Select
+                value={String(retentionDays)}
+                disabled={!canChangeRetention || updateRetentionMutation.isPending}
+                onValueChange={(value) => updateRetentionMutation.mutate(Number(value))}
+              >
+                <SelectTrigger id="retention" className="w-full sm:w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {!canChangeRetention && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Only the organization owner can change the retention period.
+            </p>
+          )}
+        </div>
+
+        {/* Deleted Batches */}
+        <div className="bg-card rounded-xl border p-6">
+          <h3 className="text-lg font-semibold mb-4">Deleted Batches</h3>
+
+          {deletedBatchesLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : deletedBatches.length === 0 ? (
+            <div className="text-center py-10 space-y-2">
+              <Trash2 className="h-8 w-8 text-muted-foreground mx-auto" />
+              <p className="text-sm text-muted-foreground">The trash is empty.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {deletedBatches.map((batch) => {
+                const deletedAt = new Date(batch.deleted_at);
+                const deletedBy = batch.deleted_by === user?.id ? 'you' : getMemberName(batch.deleted_by);
+                const isBusy =
+                  (restoreBatchMutation.isPending && restoreBatchMutation.variables?.id === batch.id) ||
+                  (purgeBatchMutation.isPending && purgeBatchMutation.variables?.id === batch.id);
+
+                return (
+                  <div key={batch.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{batch.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {batch.variety} · {Number(batch.volume).toFixed(1)} L
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Deleted {formatDistanceToNow(deletedAt, { addSuffix: true })}
+                        {deletedBy && ` by ${deletedBy}`}
+                        {' · '}
+                        Purged on {format(addDays(deletedAt, retentionDays), 'PP')}
+                      </p>
+                    </div>
+
+                    {canManageTrash && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isBusy}
+                          onClick={() => restoreBatchMutation.mutate(batch)}
+                        >
+                          {restoreBatchMutation.isPending && restoreBatchMutation.variables?.id === batch.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                          )}
+                          Restore
+                        </Button>
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive" disabled={isBusy}>
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete Permanently
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {batch.name} permanently?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This removes the batch with all its readings, tasting notes and packaging runs.
+                                This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                onClick={() => purgeBatchMutation.mutate(batch)}
+                              >
+                                Delete Forever
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+-- Target final gravity used to compute fermentation progress (defaults to 1.000 in the app when unset)
+ALTER TABLE public.batches
+ADD COLUMN IF NOT EXISTS target_gravity NUMERIC(6,3) CHECK (target_gravity BETWEEN 0.980 AND 1.200);
@@ -0,0 +1,79 @@
+-- Tasting notes recorded on the same day for a batch form one tasting session.
+-- Each member scores a session independently, so allow one note per member per session.
+
+-- Members could save several notes for a batch on one day before, which would stop the index
+-- below from being built. Fold each member's notes for a day into their latest one: scores come
+-- from the latest note that has them and the text of every note is kept, oldest first.
+UPDATE public.tasting_notes kept
+SET
+  sweetness = merged.sweetness,
+  acidity = merged.acidity,
+  body = merged.body,
+  aroma = merged.aroma,
+  flavor = merged.flavor,
+  finish = merged.finish,
+  notes = merged.notes
+FROM (
+  SELECT
+    batch_id,
+    recorded_at,
+    created_by,
+    (array_agg(sweetness ORDER BY created_at DESC, id DESC) FILTER (WHERE sweetness IS NOT NULL))[1] AS sweetness,
+    (array_agg(acidity ORDER BY created_at DESC, id DESC) FILTER (WHERE acidity IS NOT NULL))[1] AS acidity,
+    (array_agg(body ORDER BY created_at DESC, id DESC) FILTER (WHERE body IS NOT NULL))[1] AS body,
+    string_agg(aroma, E'\n' ORDER BY created_at, id) FILTER (WHERE btrim(aroma) <> '') AS aroma,
+    string_agg(flavor, E'\n' ORDER BY created_at, id) FILTER (WHERE btrim(flavor) <> '') AS flavor,
+    string_agg(finish, E'\n' ORDER BY created_at, id) FILTER (WHERE btrim(finish) <> '') AS finish,
+    string_agg(notes, E'\n' ORDER BY created_at, id) FILTER (WHERE btrim(notes) <> '') AS notes
+  FROM public.tasting_notes
+  WHERE created_by IS NOT NULL
+  GROUP BY batch_id, recorded_at, created_by
+  HAVING count(*) > 1
+) AS merged
+WHERE kept.batch_id = merged.batch_id
+AND kept.recorded_at = merged.recorded_at
+AND kept.created_by = merged.created_by
+AND NOT EXISTS (
+  SELECT 1 FROM public.tasting_notes newer
+  WHERE newer.batch_id = kept.batch_id
+  AND newer.recorded_at = kept.recorded_at
+  AND newer.created_by = kept.created_by
+  AND (newer.created_at, newer.id) > (kept.created_at, kept.id)
+);
+
+DELETE FROM public.tasting_notes older
+WHERE older.created_by IS NOT NULL
+AND EXISTS (
+  SELECT 1 FROM public.tasting_notes newer
+  WHERE newer.batch_id = older.batch_id
+  AND newer.recorded_at = older.recorded_at
+  AND newer.created_by = older.created_by
+  AND (newer.created_at, newer.id) > (older.created_at, older.id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasting_notes_session_author
+  ON public.tasting_notes(batch_id, recorded_at, created_by);
+
+-- Members may only change or remove their own scores
+DROP POLICY IF EXISTS "Members can update tasting notes" ON public.tasting_notes;
+DROP POLICY IF EXISTS "Members can delete tasting notes" ON public.tasting_notes;
+
+CREATE POLICY "Members can update their own tasting notes"
+  ON public.tasting_notes FOR UPDATE
+  USING (
+    created_by = auth.uid()
+    AND public.is_organization_member(
+      (SELECT organization_id FROM public.batches WHERE batches.id = tasting_notes.batch_id),
+      auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can delete their own tasting notes"
+  ON public.tasting_notes FOR DELETE
+  USING (
+    created_by = auth.uid()
+    AND public.is_organization_member(
+      (SELECT organization_id FROM public.batches WHERE batches.id = tasting_notes.batch_id),
+      auth.uid()
+    )
+  );
@@ -0,0 +1,168 @@
+-- Per-organization production stage pipelines
+CREATE TABLE IF NOT EXISTS public.production_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  color TEXT NOT NULL DEFAULT 'default' CHECK (color IN ('default', 'secondary', 'outline', 'destructive')),
+  is_terminal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, key)
+);
+
+-- Allowed moves between stages; several rows from one stage form a branch
+CREATE TABLE IF NOT EXISTS public.production_stage_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  from_stage_id UUID NOT NULL REFERENCES public.production_stages(id) ON DELETE CASCADE,
+  to_stage_id UUID NOT NULL REFERENCES public.production_stages(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (from_stage_id, to_stage_id),
+  CHECK (from_stage_id <> to_stage_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_stages_org_id ON public.production_stages(organization_id);
+CREATE INDEX IF NOT EXISTS idx_production_stage_transitions_org_id ON public.production_stage_transitions(organization_id);
+
+CREATE TRIGGER set_production_stages_updated_at
+  BEFORE UPDATE ON public.production_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Role check used by policies that only owners and admins may pass
+CREATE OR REPLACE FUNCTION public.is_organization_admin(org_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE organization_id = org_id
+    AND organization_members.user_id = is_organization_admin.user_id
+    AND role IN ('owner', 'admin')
+  )
+$$;
+
+-- Seed the classic pressing -> fermenting -> aging -> bottled pipeline
+CREATE OR REPLACE FUNCTION public.seed_production_stages(org_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.production_stages (organization_id, key, name, position, color, is_terminal)
+  VALUES
+    (org_id, 'pressing', 'Pressing', 0, 'default', false),
+    (org_id, 'fermenting', 'Fermenting', 1, 'secondary', false),
+    (org_id, 'aging', 'Aging', 2, 'outline', false),
+    (org_id, 'bottled', 'Bottled', 3, 'default', true)
+  ON CONFLICT (organization_id, key) DO NOTHING;
+
+  INSERT INTO public.production_stage_transitions (organization_id, from_stage_id, to_stage_id, label)
+  SELECT org_id, f.id, t.id, v.label
+  FROM (VALUES
+    ('pressing', 'fermenting', 'Start Fermenting'),
+    ('fermenting', 'aging', 'Begin Aging'),
+    ('aging', 'bottled', 'Bottle')
+  ) AS v(from_key, to_key, label)
+  JOIN public.production_stages f ON f.organization_id = org_id AND f.key = v.from_key
+  JOIN public.production_stages t ON t.organization_id = org_id AND t.key = v.to_key
+  ON CONFLICT (from_stage_id, to_stage_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_organization_stages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_production_stages(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_organization_production_stages
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_organization_stages();
+
+-- Backfill existing organizations
+SELECT public.seed_production_stages(id) FROM public.organizations;
+
+-- Batches now reference their organization's pipeline instead of a fixed list
+ALTER TABLE public.batches DROP CONSTRAINT IF EXISTS batches_current_stage_check;
+ALTER TABLE public.batches ALTER COLUMN current_stage DROP DEFAULT;
+ALTER TABLE public.batches
+  ADD CONSTRAINT batches_current_stage_fkey
+  FOREIGN KEY (organization_id, current_stage)
+  REFERENCES public.production_stages(organization_id, key)
+  ON UPDATE CASCADE;
+
+-- Enable RLS
+ALTER TABLE public.production_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.production_stage_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for production stages
+CREATE POLICY "Members can view production stages"
+  ON public.production_stages FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can insert production stages"
+  ON public.production_stages FOR INSERT
+  WITH CHECK (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can update production stages"
+  ON public.production_stages FOR UPDATE
+  USING (public.is_organization_admin(organization_id, auth.uid()))
+  WITH CHECK (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can delete production stages"
+  ON public.production_stages FOR DELETE
+  USING (public.is_organization_admin(organization_id, auth.uid()));
+
+-- Policies for stage transitions
+CREATE POLICY "Members can view production stage transitions"
+  ON public.production_stage_transitions FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can insert production stage transitions"
+  ON public.production_stage_transitions FOR INSERT
+  WITH CHECK (
+    public.is_organization_admin(organization_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = from_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = to_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+  );
+
+CREATE POLICY "Admins can update production stage transitions"
+  ON public.production_stage_transitions FOR UPDATE
+  USING (public.is_organization_admin(organization_id, auth.uid()))
+  WITH CHECK (
+    public.is_organization_admin(organization_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = from_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = to_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+  );
+
+CREATE POLICY "Admins can delete production stage transitions"
+  ON public.production_stage_transitions FOR DELETE
+  USING (public.is_organization_admin(organization_id, auth.uid()));
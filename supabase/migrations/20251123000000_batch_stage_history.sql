@@ -0,0 +1,91 @@
+-- Every stage a batch enters, with who moved it and when
+CREATE TABLE IF NOT EXISTS public.batch_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_stage_history_batch_id ON public.batch_stage_history(batch_id, changed_at);
+
+-- Rows are written by the trigger below so every update path is captured,
+-- including direct table updates. An optional note travels in a transaction-local setting.
+CREATE OR REPLACE FUNCTION public.record_batch_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_stage IS NOT DISTINCT FROM OLD.current_stage THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.batch_stage_history (batch_id, from_stage, to_stage, note, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.current_stage END,
+    NEW.current_stage,
+    NULLIF(current_setting('app.stage_change_note', true), ''),
+    COALESCE(auth.uid(), NEW.created_by)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_batch_stage_insert
+  AFTER INSERT ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_batch_stage_change();
+
+CREATE TRIGGER record_batch_stage_update
+  AFTER UPDATE OF current_stage ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_batch_stage_change();
+
+-- Moves a batch and attaches a note to the resulting history row.
+-- Runs with the caller's rights so the batches update policy still applies.
+CREATE OR REPLACE FUNCTION public.change_batch_stage(batch_id uuid, to_stage text, note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.stage_change_note', COALESCE(btrim(note), ''), true);
+
+  UPDATE public.batches
+  SET current_stage = to_stage
+  WHERE id = change_batch_stage.batch_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  PERFORM set_config('app.stage_change_note', '', true);
+END;
+$$;
+
+-- Earlier moves were never recorded, so existing batches start their history in their current stage
+INSERT INTO public.batch_stage_history (batch_id, from_stage, to_stage, note, changed_by, changed_at)
+SELECT id, NULL, current_stage, 'Stage history starts here; earlier transitions were not recorded.', created_by, created_at
+FROM public.batches
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.batch_stage_history WHERE batch_stage_history.batch_id = batches.id
+);
+
+-- Enable RLS
+ALTER TABLE public.batch_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- History is read-only for clients; rows only come from the trigger
+CREATE POLICY "Members can view batch stage history"
+  ON public.batch_stage_history FOR SELECT
+  USING (
+    public.is_organization_member(
+      (SELECT organization_id FROM public.batches WHERE batches.id = batch_stage_history.batch_id),
+      auth.uid()
+    )
+  );
@@ -0,0 +1,187 @@
+-- Conditions a batch must meet before it may enter a stage
+CREATE TABLE IF NOT EXISTS public.stage_guard_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  stage_id UUID NOT NULL REFERENCES public.production_stages(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('stable_gravity', 'tasting_note', 'min_days_in_stage')),
+  threshold INTEGER CHECK (threshold IS NULL OR threshold > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (stage_id, rule_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stage_guard_rules_org_id ON public.stage_guard_rules(organization_id);
+
+-- Lists every rule the batch would break by moving to the given stage.
+-- Moving back to an earlier stage is a correction, so rollbacks are never blocked.
+CREATE OR REPLACE FUNCTION public.get_stage_guard_violations(batch_id uuid, to_stage text)
+RETURNS TABLE (rule_id uuid, message text)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.batches%ROWTYPE;
+  v_from public.production_stages%ROWTYPE;
+  v_to public.production_stages%ROWTYPE;
+  v_rule public.stage_guard_rules%ROWTYPE;
+  v_count integer;
+  v_spread numeric;
+  v_entered_at timestamptz;
+BEGIN
+  SELECT * INTO v_batch FROM public.batches WHERE id = get_stage_guard_violations.batch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  SELECT * INTO v_to FROM public.production_stages
+  WHERE organization_id = v_batch.organization_id AND key = get_stage_guard_violations.to_stage;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown stage %', get_stage_guard_violations.to_stage;
+  END IF;
+
+  SELECT * INTO v_from FROM public.production_stages
+  WHERE organization_id = v_batch.organization_id AND key = v_batch.current_stage;
+
+  IF v_to.position <= v_from.position THEN
+    RETURN;
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM public.stage_guard_rules WHERE stage_id = v_to.id ORDER BY created_at
+  LOOP
+    IF v_rule.rule_type = 'stable_gravity' THEN
+      SELECT count(*), max(recent.specific_gravity) - min(recent.specific_gravity)
+      INTO v_count, v_spread
+      FROM (
+        SELECT specific_gravity
+        FROM public.fermentation_logs
+        WHERE fermentation_logs.batch_id = v_batch.id
+        AND specific_gravity IS NOT NULL
+        ORDER BY recorded_at DESC, created_at DESC
+        LIMIT COALESCE(v_rule.threshold, 3)
+      ) AS recent;
+
+      IF v_count < COALESCE(v_rule.threshold, 3) OR v_spread > 0.001 THEN
+        rule_id := v_rule.id;
+        message := format(
+          'Gravity must hold steady (within 0.001) over the last %s readings before moving to %s.',
+          COALESCE(v_rule.threshold, 3), v_to.name
+        );
+        RETURN NEXT;
+      END IF;
+    ELSIF v_rule.rule_type = 'tasting_note' THEN
+      IF NOT EXISTS (SELECT 1 FROM public.tasting_notes WHERE tasting_notes.batch_id = v_batch.id) THEN
+        rule_id := v_rule.id;
+        message := format('Record at least one tasting note before moving to %s.', v_to.name);
+        RETURN NEXT;
+      END IF;
+    ELSIF v_rule.rule_type = 'min_days_in_stage' THEN
+      SELECT max(changed_at) INTO v_entered_at
+      FROM public.batch_stage_history
+      WHERE batch_stage_history.batch_id = v_batch.id;
+
+      IF v_entered_at IS NOT NULL AND now() - v_entered_at < make_interval(days => COALESCE(v_rule.threshold, 1)) THEN
+        rule_id := v_rule.id;
+        message := format(
+          'The batch must spend at least %s days in %s before moving to %s.',
+          COALESCE(v_rule.threshold, 1), COALESCE(v_from.name, v_batch.current_stage), v_to.name
+        );
+        RETURN NEXT;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Stage changes refuse to break guard rules on every write path, including direct table updates
+CREATE OR REPLACE FUNCTION public.check_batch_stage_guards()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_violation text;
+BEGIN
+  IF NEW.current_stage IS NOT DISTINCT FROM OLD.current_stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- Renaming a stage cascades the new key onto its batches; that is not a move
+  IF NOT EXISTS (
+    SELECT 1 FROM public.production_stages
+    WHERE organization_id = OLD.organization_id AND key = OLD.current_stage
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT message INTO v_violation
+  FROM public.get_stage_guard_violations(NEW.id, NEW.current_stage)
+  LIMIT 1;
+
+  IF v_violation IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_violation USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_batch_stage_guards ON public.batches;
+CREATE TRIGGER check_batch_stage_guards
+  BEFORE UPDATE OF current_stage ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_batch_stage_guards();
+
+-- The trigger enforces the guard rules, so the RPC only attaches the note
+CREATE OR REPLACE FUNCTION public.change_batch_stage(batch_id uuid, to_stage text, note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.stage_change_note', COALESCE(btrim(note), ''), true);
+
+  UPDATE public.batches
+  SET current_stage = change_batch_stage.to_stage
+  WHERE id = change_batch_stage.batch_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  PERFORM set_config('app.stage_change_note', '', true);
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE public.stage_guard_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policies for stage guard rules
+CREATE POLICY "Members can view stage guard rules"
+  ON public.stage_guard_rules FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can insert stage guard rules"
+  ON public.stage_guard_rules FOR INSERT
+  WITH CHECK (
+    public.is_organization_admin(organization_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = stage_id AND production_stages.organization_id = stage_guard_rules.organization_id
+    )
+  );
+
+CREATE POLICY "Admins can update stage guard rules"
+  ON public.stage_guard_rules FOR UPDATE
+  USING (public.is_organization_admin(organization_id, auth.uid()))
+  WITH CHECK (
+    public.is_organization_admin(organization_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = stage_id AND production_stages.organization_id = stage_guard_rules.organization_id
+    )
+  );
+
+CREATE POLICY "Admins can delete stage guard rules"
+  ON public.stage_guard_rules FOR DELETE
+  USING (public.is_organization_admin(organization_id, auth.uid()));
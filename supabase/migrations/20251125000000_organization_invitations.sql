@@ -0,0 +1,132 @@
+-- Pending invitations to join an organization
+CREATE TABLE IF NOT EXISTS public.organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '7 days'),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open invitation per address and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending
+  ON public.organization_invitations(organization_id, email)
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations"
+  ON public.organization_invitations FOR SELECT
+  USING (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can create invitations"
+  ON public.organization_invitations FOR INSERT
+  WITH CHECK (
+    public.is_organization_admin(organization_id, auth.uid())
+    AND invited_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can update invitations"
+  ON public.organization_invitations FOR UPDATE
+  USING (public.is_organization_admin(organization_id, auth.uid()))
+  WITH CHECK (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can revoke invitations"
+  ON public.organization_invitations FOR DELETE
+  USING (public.is_organization_admin(organization_id, auth.uid()));
+
+-- Invitees are not members yet, so they read their invitation through this function
+CREATE OR REPLACE FUNCTION public.get_invitation(invite_token uuid)
+RETURNS TABLE (
+  organization_name text,
+  email text,
+  role text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.name, i.email, i.role, i.expires_at, i.accepted_at
+  FROM public.organization_invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = invite_token
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_invitation(invite_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.organization_invitations%ROWTYPE;
+  v_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.organization_invitations
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is invalid or has been revoked';
+  END IF;
+
+  IF v_invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF v_invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+  IF lower(v_email) <> v_invite.email THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that address to accept it.', v_invite.email;
+  END IF;
+
+  -- The app works with a single organization per user for now
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = auth.uid() AND organization_id <> v_invite.organization_id
+  ) THEN
+    RAISE EXCEPTION 'You already belong to another organization';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invite.organization_id, auth.uid(), v_invite.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE public.organization_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.organization_id;
+END;
+$$;
+
+-- Self-service joins are limited to owners creating their own organization;
+-- everyone else joins through accept_invitation
+DROP POLICY IF EXISTS "Users can join organizations" ON public.organization_members;
+
+CREATE POLICY "Owners can add themselves to their organizations"
+  ON public.organization_members FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND role = 'owner'
+    AND EXISTS (
+      SELECT 1 FROM public.organizations
+      WHERE organizations.id = organization_members.organization_id
+      AND organizations.owner_id = auth.uid()
+    )
+  );
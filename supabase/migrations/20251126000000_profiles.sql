@@ -0,0 +1,112 @@
+-- Public profile for every account, mirrored from auth.users metadata
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  job_title TEXT,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER set_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Keeps the profile in step with sign-ups, metadata edits and sign-ins
+CREATE OR REPLACE FUNCTION public.sync_profile_from_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, avatar_url, job_title, last_active_at)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'full_name'), ''),
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'avatar_url'), ''),
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'job_title'), ''),
+    NEW.last_sign_in_at
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    full_name = EXCLUDED.full_name,
+    avatar_url = EXCLUDED.avatar_url,
+    job_title = EXCLUDED.job_title,
+    last_active_at = GREATEST(public.profiles.last_active_at, EXCLUDED.last_active_at);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_on_user_insert
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_from_auth_user();
+
+CREATE TRIGGER sync_profile_on_user_update
+  AFTER UPDATE OF email, raw_user_meta_data, last_sign_in_at ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_from_auth_user();
+
+-- Existing accounts
+INSERT INTO public.profiles (id, email, full_name, avatar_url, job_title, last_active_at)
+SELECT
+  id,
+  email,
+  NULLIF(trim(raw_user_meta_data ->> 'full_name'), ''),
+  NULLIF(trim(raw_user_meta_data ->> 'avatar_url'), ''),
+  NULLIF(trim(raw_user_meta_data ->> 'job_title'), ''),
+  last_sign_in_at
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Sessions are refreshed silently for weeks, so sign-ins alone undercount activity.
+-- The app calls this on load; writes are throttled to one every few minutes.
+CREATE OR REPLACE FUNCTION public.touch_last_active()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles
+  SET last_active_at = now()
+  WHERE id = auth.uid()
+  AND (last_active_at IS NULL OR last_active_at < now() - interval '5 minutes')
+$$;
+
+-- Let PostgREST embed member profiles: organization_members -> profiles
+ALTER TABLE public.organization_members
+  ADD CONSTRAINT organization_members_user_id_profiles_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.shares_organization(other_user_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members mine
+    JOIN public.organization_members theirs ON theirs.organization_id = mine.organization_id
+    WHERE mine.user_id = shares_organization.user_id
+    AND theirs.user_id = other_user_id
+  )
+$$;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and teammates' profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    id = auth.uid()
+    OR public.shares_organization(id, auth.uid())
+  );
+
+-- Profile edits go through auth.updateUser so metadata stays the source of truth
@@ -0,0 +1,92 @@
+-- The owner is whoever organizations.owner_id points at
+CREATE OR REPLACE FUNCTION public.is_organization_owner(org_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organizations
+    WHERE id = org_id
+    AND owner_id = is_organization_owner.user_id
+  )
+$$;
+
+-- Only the role column can be edited; moving a membership to another user or organization is not allowed
+REVOKE UPDATE ON public.organization_members FROM authenticated, anon;
+GRANT UPDATE (role) ON public.organization_members TO authenticated;
+
+-- Owners manage everyone but themselves; admins manage plain members.
+-- Nobody can hand out the owner role here, that goes through transfer_organization_ownership.
+CREATE POLICY "Owners and admins can change member roles"
+  ON public.organization_members FOR UPDATE
+  USING (
+    role <> 'owner'
+    AND user_id <> auth.uid()
+    AND (
+      public.is_organization_owner(organization_id, auth.uid())
+      OR (role = 'member' AND public.is_organization_admin(organization_id, auth.uid()))
+    )
+  )
+  WITH CHECK (
+    role IN ('admin', 'member')
+    AND public.is_organization_admin(organization_id, auth.uid())
+  );
+
+CREATE POLICY "Owners and admins can remove members"
+  ON public.organization_members FOR DELETE
+  USING (
+    role <> 'owner'
+    AND user_id <> auth.uid()
+    AND (
+      public.is_organization_owner(organization_id, auth.uid())
+      OR (role = 'member' AND public.is_organization_admin(organization_id, auth.uid()))
+    )
+  );
+
+-- Hands the organization to another member. The previous owner stays on as an admin.
+CREATE OR REPLACE FUNCTION public.transfer_organization_ownership(org_id uuid, new_owner_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_organization_owner(org_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the owner can transfer ownership'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF new_owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this organization';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = org_id
+    AND user_id = new_owner_id
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be a member of the organization';
+  END IF;
+
+  UPDATE public.organizations
+  SET owner_id = new_owner_id
+  WHERE id = org_id;
+
+  UPDATE public.organization_members
+  SET role = 'admin'
+  WHERE organization_id = org_id
+  AND user_id = auth.uid();
+
+  UPDATE public.organization_members
+  SET role = 'owner'
+  WHERE organization_id = org_id
+  AND user_id = new_owner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new owner must be a member of the organization';
+  END IF;
+END;
+$$;
@@ -0,0 +1,324 @@
+-- What each role is allowed to do. Policies ask has_permission instead of checking roles directly.
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  capability TEXT NOT NULL CHECK (capability IN (
+    'create_batch',
+    'edit_batch',
+    'delete_batch',
+    'log_readings',
+    'record_tastings',
+    'manage_packaging',
+    'manage_stages',
+    'manage_members'
+  )),
+  PRIMARY KEY (role, capability)
+);
+
+INSERT INTO public.role_permissions (role, capability)
+SELECT role, capability
+FROM unnest(ARRAY['owner', 'admin']) AS role
+CROSS JOIN unnest(ARRAY[
+  'create_batch', 'edit_batch', 'delete_batch', 'log_readings',
+  'record_tastings', 'manage_packaging', 'manage_stages', 'manage_members'
+]) AS capability
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.role_permissions (role, capability) VALUES
+  ('member', 'create_batch'),
+  ('member', 'edit_batch'),
+  ('member', 'log_readings'),
+  ('member', 'record_tastings'),
+  ('member', 'manage_packaging')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view role permissions"
+  ON public.role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.has_permission(org_id uuid, user_id uuid, capability text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    JOIN public.role_permissions p ON p.role = m.role
+    WHERE m.organization_id = org_id
+    AND m.user_id = has_permission.user_id
+    AND p.capability = has_permission.capability
+  )
+$$;
+
+-- Batches
+DROP POLICY IF EXISTS "Users can create batches in their organizations" ON public.batches;
+DROP POLICY IF EXISTS "Users can update batches in their organizations" ON public.batches;
+DROP POLICY IF EXISTS "Users can delete batches in their organizations" ON public.batches;
+
+CREATE POLICY "Members with permission can create batches"
+  ON public.batches FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'create_batch')
+    AND auth.uid() = created_by
+  );
+
+CREATE POLICY "Members with permission can update batches"
+  ON public.batches FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'edit_batch'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'edit_batch'));
+
+CREATE POLICY "Members with permission can delete batches"
+  ON public.batches FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'delete_batch'));
+
+-- Fermentation logs
+DROP POLICY IF EXISTS "Members can insert fermentation logs" ON public.fermentation_logs;
+DROP POLICY IF EXISTS "Members can update fermentation logs" ON public.fermentation_logs;
+DROP POLICY IF EXISTS "Members can delete fermentation logs" ON public.fermentation_logs;
+
+CREATE POLICY "Members with permission can insert fermentation logs"
+  ON public.fermentation_logs FOR INSERT
+  WITH CHECK (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = fermentation_logs.batch_id),
+      auth.uid(),
+      'log_readings'
+    )
+  );
+
+CREATE POLICY "Members with permission can update fermentation logs"
+  ON public.fermentation_logs FOR UPDATE
+  USING (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = fermentation_logs.batch_id),
+      auth.uid(),
+      'log_readings'
+    )
+  );
+
+CREATE POLICY "Members with permission can delete fermentation logs"
+  ON public.fermentation_logs FOR DELETE
+  USING (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = fermentation_logs.batch_id),
+      auth.uid(),
+      'log_readings'
+    )
+  );
+
+-- Tasting notes: members still only change their own scores
+DROP POLICY IF EXISTS "Members can insert tasting notes" ON public.tasting_notes;
+DROP POLICY IF EXISTS "Members can update their own tasting notes" ON public.tasting_notes;
+DROP POLICY IF EXISTS "Members can delete their own tasting notes" ON public.tasting_notes;
+
+CREATE POLICY "Members with permission can insert tasting notes"
+  ON public.tasting_notes FOR INSERT
+  WITH CHECK (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = tasting_notes.batch_id),
+      auth.uid(),
+      'record_tastings'
+    )
+  );
+
+CREATE POLICY "Members with permission can update their own tasting notes"
+  ON public.tasting_notes FOR UPDATE
+  USING (
+    created_by = auth.uid()
+    AND public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = tasting_notes.batch_id),
+      auth.uid(),
+      'record_tastings'
+    )
+  );
+
+CREATE POLICY "Members with permission can delete their own tasting notes"
+  ON public.tasting_notes FOR DELETE
+  USING (
+    created_by = auth.uid()
+    AND public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = tasting_notes.batch_id),
+      auth.uid(),
+      'record_tastings'
+    )
+  );
+
+-- Packaging schedules
+DROP POLICY IF EXISTS "Members can insert packaging schedules" ON public.packaging_schedules;
+DROP POLICY IF EXISTS "Members can update packaging schedules" ON public.packaging_schedules;
+DROP POLICY IF EXISTS "Members can delete packaging schedules" ON public.packaging_schedules;
+
+CREATE POLICY "Members with permission can insert packaging schedules"
+  ON public.packaging_schedules FOR INSERT
+  WITH CHECK (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = packaging_schedules.batch_id),
+      auth.uid(),
+      'manage_packaging'
+    )
+  );
+
+CREATE POLICY "Members with permission can update packaging schedules"
+  ON public.packaging_schedules FOR UPDATE
+  USING (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = packaging_schedules.batch_id),
+      auth.uid(),
+      'manage_packaging'
+    )
+  );
+
+CREATE POLICY "Members with permission can delete packaging schedules"
+  ON public.packaging_schedules FOR DELETE
+  USING (
+    public.has_permission(
+      (SELECT organization_id FROM public.batches WHERE batches.id = packaging_schedules.batch_id),
+      auth.uid(),
+      'manage_packaging'
+    )
+  );
+
+-- Production stages, transitions and guard rules
+DROP POLICY IF EXISTS "Admins can insert production stages" ON public.production_stages;
+DROP POLICY IF EXISTS "Admins can update production stages" ON public.production_stages;
+DROP POLICY IF EXISTS "Admins can delete production stages" ON public.production_stages;
+
+CREATE POLICY "Members with permission can insert production stages"
+  ON public.production_stages FOR INSERT
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_stages'));
+
+CREATE POLICY "Members with permission can update production stages"
+  ON public.production_stages FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_stages'));
+
+CREATE POLICY "Members with permission can delete production stages"
+  ON public.production_stages FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'));
+
+DROP POLICY IF EXISTS "Admins can insert production stage transitions" ON public.production_stage_transitions;
+DROP POLICY IF EXISTS "Admins can update production stage transitions" ON public.production_stage_transitions;
+DROP POLICY IF EXISTS "Admins can delete production stage transitions" ON public.production_stage_transitions;
+
+CREATE POLICY "Members with permission can insert production stage transitions"
+  ON public.production_stage_transitions FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_stages')
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = from_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = to_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+  );
+
+CREATE POLICY "Members with permission can update production stage transitions"
+  ON public.production_stage_transitions FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'))
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_stages')
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = from_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = to_stage_id AND production_stages.organization_id = production_stage_transitions.organization_id
+    )
+  );
+
+CREATE POLICY "Members with permission can delete production stage transitions"
+  ON public.production_stage_transitions FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'));
+
+DROP POLICY IF EXISTS "Admins can insert stage guard rules" ON public.stage_guard_rules;
+DROP POLICY IF EXISTS "Admins can update stage guard rules" ON public.stage_guard_rules;
+DROP POLICY IF EXISTS "Admins can delete stage guard rules" ON public.stage_guard_rules;
+
+CREATE POLICY "Members with permission can insert stage guard rules"
+  ON public.stage_guard_rules FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_stages')
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = stage_id AND production_stages.organization_id = stage_guard_rules.organization_id
+    )
+  );
+
+CREATE POLICY "Members with permission can update stage guard rules"
+  ON public.stage_guard_rules FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'))
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_stages')
+    AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE id = stage_id AND production_stages.organization_id = stage_guard_rules.organization_id
+    )
+  );
+
+CREATE POLICY "Members with permission can delete stage guard rules"
+  ON public.stage_guard_rules FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_stages'));
+
+-- Invitations
+DROP POLICY IF EXISTS "Admins can view invitations" ON public.organization_invitations;
+DROP POLICY IF EXISTS "Admins can create invitations" ON public.organization_invitations;
+DROP POLICY IF EXISTS "Admins can update invitations" ON public.organization_invitations;
+DROP POLICY IF EXISTS "Admins can revoke invitations" ON public.organization_invitations;
+
+CREATE POLICY "Members with permission can view invitations"
+  ON public.organization_invitations FOR SELECT
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_members'));
+
+CREATE POLICY "Members with permission can create invitations"
+  ON public.organization_invitations FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_members')
+    AND invited_by = auth.uid()
+  );
+
+CREATE POLICY "Members with permission can update invitations"
+  ON public.organization_invitations FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_members'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_members'));
+
+CREATE POLICY "Members with permission can revoke invitations"
+  ON public.organization_invitations FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_members'));
+
+-- Member roles. The owner row is still off limits and only the owner manages admins.
+DROP POLICY IF EXISTS "Owners and admins can change member roles" ON public.organization_members;
+DROP POLICY IF EXISTS "Owners and admins can remove members" ON public.organization_members;
+
+CREATE POLICY "Members with permission can change member roles"
+  ON public.organization_members FOR UPDATE
+  USING (
+    role <> 'owner'
+    AND user_id <> auth.uid()
+    AND (
+      public.is_organization_owner(organization_id, auth.uid())
+      OR (role = 'member' AND public.has_permission(organization_id, auth.uid(), 'manage_members'))
+    )
+  )
+  WITH CHECK (
+    role IN ('admin', 'member')
+    AND public.has_permission(organization_id, auth.uid(), 'manage_members')
+  );
+
+CREATE POLICY "Members with permission can remove members"
+  ON public.organization_members FOR DELETE
+  USING (
+    role <> 'owner'
+    AND user_id <> auth.uid()
+    AND (
+      public.is_organization_owner(organization_id, auth.uid())
+      OR (role = 'member' AND public.has_permission(organization_id, auth.uid(), 'manage_members'))
+    )
+  );
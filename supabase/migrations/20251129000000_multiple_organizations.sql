@@ -0,0 +1,50 @@
+-- Users can now belong to several organizations, so accepting an invitation
+-- no longer requires leaving (or never having joined) another one
+CREATE OR REPLACE FUNCTION public.accept_invitation(invite_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.organization_invitations%ROWTYPE;
+  v_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.organization_invitations
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is invalid or has been revoked';
+  END IF;
+
+  IF v_invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF v_invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+  IF lower(v_email) <> v_invite.email THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that address to accept it.', v_invite.email;
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invite.organization_id, auth.uid(), v_invite.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE public.organization_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.organization_id;
+END;
+$$;
+
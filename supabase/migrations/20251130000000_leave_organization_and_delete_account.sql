@@ -0,0 +1,49 @@
+-- Removing a user used to cascade into every batch they created. Keep the batch and forget the author.
+ALTER TABLE public.batches ALTER COLUMN created_by DROP NOT NULL;
+
+ALTER TABLE public.batches
+  DROP CONSTRAINT IF EXISTS batches_created_by_fkey,
+  ADD CONSTRAINT batches_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Organizations are never deleted as a side effect of removing their owner;
+-- ownership has to be transferred or the organization deleted first
+ALTER TABLE public.organizations
+  DROP CONSTRAINT IF EXISTS organizations_owner_id_fkey,
+  ADD CONSTRAINT organizations_owner_id_fkey
+  FOREIGN KEY (owner_id) REFERENCES auth.users(id) ON DELETE RESTRICT;
+
+-- Anyone but the owner can leave. The owner transfers ownership first.
+CREATE POLICY "Members can leave organizations"
+  ON public.organization_members FOR DELETE
+  USING (
+    user_id = auth.uid()
+    AND role <> 'owner'
+  );
+
+-- Deletes the signed-in user's account. Memberships and the profile go with it;
+-- batches, readings, notes and runs they created stay with the organization, unattributed.
+CREATE OR REPLACE FUNCTION public.delete_own_account()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owned text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to delete your account';
+  END IF;
+
+  SELECT string_agg(name, ', ' ORDER BY name) INTO v_owned
+  FROM public.organizations
+  WHERE owner_id = auth.uid();
+
+  IF v_owned IS NOT NULL THEN
+    RAISE EXCEPTION 'Transfer or delete the organizations you own first: %', v_owned;
+  END IF;
+
+  DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Deleting a batch moves it to the trash. It is purged for good once the
+-- organization's retention period has passed, or when someone empties it by hand.
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_batches_deleted_at
+  ON public.batches (organization_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Trashing and restoring go through the regular UPDATE policy, but need delete_batch on top of edit_batch.
+-- deleted_by is always stamped here so it can't be forged.
+CREATE OR REPLACE FUNCTION public.guard_batch_trash()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    IF auth.uid() IS NOT NULL
+      AND NOT public.has_permission(NEW.organization_id, auth.uid(), 'delete_batch') THEN
+      RAISE EXCEPTION 'You don''t have permission to delete or restore batches'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.deleted_by := CASE WHEN NEW.deleted_at IS NULL THEN NULL ELSE auth.uid() END;
+  ELSE
+    NEW.deleted_by := OLD.deleted_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_batch_trash ON public.batches;
+CREATE TRIGGER guard_batch_trash
+  BEFORE UPDATE ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_batch_trash();
+
+-- Only batches already in the trash can be deleted permanently
+DROP POLICY IF EXISTS "Members with permission can delete batches" ON public.batches;
+
+CREATE POLICY "Members with permission can delete trashed batches"
+  ON public.batches FOR DELETE
+  USING (
+    deleted_at IS NOT NULL
+    AND public.has_permission(organization_id, auth.uid(), 'delete_batch')
+  );
+
+-- Removes trashed batches older than their organization's retention period
+CREATE OR REPLACE FUNCTION public.purge_deleted_batches()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.batches b
+  USING public.organizations o
+  WHERE b.organization_id = o.id
+  AND b.deleted_at IS NOT NULL
+  AND b.deleted_at < now() - make_interval(days => o.trash_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Purges every organization at once, so only the scheduled job may run it
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_batches() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-batches',
+  '0 3 * * *',
+  $$SELECT public.purge_deleted_batches()$$
+);
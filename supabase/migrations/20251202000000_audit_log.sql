@@ -0,0 +1,136 @@
+-- Append-only record of every change to organization data, written by triggers.
+-- organization_id, batch_id and actor_id are plain columns (no foreign keys) so entries outlive
+-- what and who they describe, including changes made while an account is being deleted.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  batch_id UUID,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization_created_at
+  ON public.audit_log (organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_batch_created_at
+  ON public.audit_log (batch_id, created_at DESC)
+  WHERE batch_id IS NOT NULL;
+
+-- Admins see the whole organization's activity
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_capability_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_capability_check CHECK (capability IN (
+  'create_batch',
+  'edit_batch',
+  'delete_batch',
+  'log_readings',
+  'record_tastings',
+  'manage_packaging',
+  'manage_stages',
+  'manage_members',
+  'view_activity'
+));
+
+INSERT INTO public.role_permissions (role, capability) VALUES
+  ('owner', 'view_activity'),
+  ('admin', 'view_activity')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read a batch's history; the organization-wide log needs view_activity.
+-- There are no write policies: entries only come from the triggers below.
+CREATE POLICY "Members can view audit entries"
+  ON public.audit_log FOR SELECT
+  USING (
+    public.has_permission(organization_id, auth.uid(), 'view_activity')
+    OR (
+      batch_id IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM public.organization_members
+        WHERE organization_members.organization_id = audit_log.organization_id
+        AND organization_members.user_id = auth.uid()
+      )
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM authenticated, anon;
+
+CREATE OR REPLACE FUNCTION public.record_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_org uuid;
+  v_batch uuid;
+  v_changed text[] := '{}';
+BEGIN
+  IF TG_TABLE_NAME = 'organizations' THEN
+    v_org := (v_row->>'id')::uuid;
+  ELSIF TG_TABLE_NAME = 'batches' THEN
+    v_org := (v_row->>'organization_id')::uuid;
+    v_batch := (v_row->>'id')::uuid;
+  ELSIF v_row ? 'organization_id' THEN
+    v_org := (v_row->>'organization_id')::uuid;
+  ELSE
+    v_batch := (v_row->>'batch_id')::uuid;
+    SELECT organization_id INTO v_org FROM public.batches WHERE id = v_batch;
+  END IF;
+
+  -- Rows removed along with their batch are covered by the batch's own delete entry
+  IF v_org IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+    INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+    AND n.value IS DISTINCT FROM v_old->n.key;
+
+    IF cardinality(v_changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+
+    -- Keep only what changed so the entry reads as a diff
+    SELECT jsonb_object_agg(key, value) INTO v_old FROM jsonb_each(v_old) WHERE key = ANY(v_changed);
+    SELECT jsonb_object_agg(key, value) INTO v_new FROM jsonb_each(v_new) WHERE key = ANY(v_changed);
+  END IF;
+
+  INSERT INTO public.audit_log (
+    organization_id, batch_id, table_name, record_id, action, actor_id, old_data, new_data, changed_fields
+  ) VALUES (
+    v_org, v_batch, TG_TABLE_NAME, (v_row->>'id')::uuid, lower(TG_OP), auth.uid(), v_old, v_new, v_changed
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'organizations', 'organization_members', 'batches',
+    'fermentation_logs', 'tasting_notes', 'packaging_schedules'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS record_audit_event ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER record_audit_event AFTER INSERT OR UPDATE OR DELETE ON public.%I
+       FOR EACH ROW EXECUTE FUNCTION public.record_audit_event()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Historical batches and readings imported from spreadsheets.
+-- Every row an import creates is tagged with it so the whole run can be rolled back.
+CREATE TABLE IF NOT EXISTS public.batch_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  batch_count INTEGER NOT NULL DEFAULT 0,
+  log_count INTEGER NOT NULL DEFAULT 0,
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_imports_organization_created_at
+  ON public.batch_imports (organization_id, created_at DESC);
+
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.batch_imports(id) ON DELETE SET NULL;
+
+ALTER TABLE public.fermentation_logs
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.batch_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_batches_import_id
+  ON public.batches (import_id)
+  WHERE import_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_fermentation_logs_import_id
+  ON public.fermentation_logs (import_id)
+  WHERE import_id IS NOT NULL;
+
+ALTER TABLE public.batch_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view imports"
+  ON public.batch_imports FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+-- Rows are only written by import_batches and rollback_batch_import
+CREATE POLICY "Members with permission can record imports"
+  ON public.batch_imports FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'create_batch')
+    AND auth.uid() = imported_by
+    AND rolled_back_at IS NULL
+  );
+
+-- Creates the batches and their readings in one transaction: if any row fails, nothing is imported.
+-- Runs with the caller's rights so the batches and fermentation_logs insert policies still apply.
+-- Readings point either at a batch from batch_rows (batch_ref) or at an existing batch (batch_id).
+CREATE OR REPLACE FUNCTION public.import_batches(org_id uuid, file_name text, batch_rows jsonb, log_rows jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_import_id uuid;
+  v_batch_ids jsonb := '{}'::jsonb;
+  v_batch jsonb;
+  v_batch_id uuid;
+  v_log_count integer;
+BEGIN
+  IF jsonb_array_length(batch_rows) = 0 AND jsonb_array_length(log_rows) = 0 THEN
+    RAISE EXCEPTION 'There is nothing to import';
+  END IF;
+
+  INSERT INTO public.batch_imports (organization_id, file_name, batch_count, log_count, imported_by)
+  VALUES (org_id, import_batches.file_name, jsonb_array_length(batch_rows), jsonb_array_length(log_rows), auth.uid())
+  RETURNING id INTO v_import_id;
+
+  FOR v_batch IN SELECT * FROM jsonb_array_elements(batch_rows)
+  LOOP
+    INSERT INTO public.batches (
+      organization_id, name, variety, volume, start_date, target_gravity, current_stage, created_by, import_id
+    )
+    VALUES (
+      org_id,
+      v_batch->>'name',
+      v_batch->>'variety',
+      (v_batch->>'volume')::numeric,
+      (v_batch->>'start_date')::date,
+      (v_batch->>'target_gravity')::numeric,
+      v_batch->>'current_stage',
+      auth.uid(),
+      v_import_id
+    )
+    RETURNING id INTO v_batch_id;
+
+    v_batch_ids := v_batch_ids || jsonb_build_object(v_batch->>'ref', v_batch_id);
+  END LOOP;
+
+  INSERT INTO public.fermentation_logs (
+    batch_id, recorded_at, temperature, specific_gravity, ph, notes, created_by, import_id
+  )
+  SELECT
+    b.id,
+    (l.value->>'recorded_at')::date,
+    (l.value->>'temperature')::numeric,
+    (l.value->>'specific_gravity')::numeric,
+    (l.value->>'ph')::numeric,
+    NULLIF(btrim(l.value->>'notes'), ''),
+    auth.uid(),
+    v_import_id
+  FROM jsonb_array_elements(log_rows) AS l
+  JOIN public.batches b
+    ON b.id = COALESCE((l.value->>'batch_id')::uuid, (v_batch_ids->>(l.value->>'batch_ref'))::uuid)
+  AND b.organization_id = org_id
+  AND b.deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_log_count = ROW_COUNT;
+
+  IF v_log_count <> jsonb_array_length(log_rows) THEN
+    RAISE EXCEPTION 'Some readings belong to batches that are not in this organization';
+  END IF;
+
+  RETURN v_import_id;
+END;
+$$;
+
+-- Removes everything an import created, including anything added to its batches since.
+-- Batches need delete_batch and readings added to existing batches need log_readings.
+CREATE OR REPLACE FUNCTION public.rollback_batch_import(import_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import public.batch_imports%ROWTYPE;
+BEGIN
+  SELECT * INTO v_import
+  FROM public.batch_imports
+  WHERE id = rollback_batch_import.import_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_members.organization_id = v_import.organization_id
+    AND organization_members.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_import.rolled_back_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This import has already been rolled back';
+  END IF;
+
+  IF v_import.batch_count > 0
+    AND NOT public.has_permission(v_import.organization_id, auth.uid(), 'delete_batch') THEN
+    RAISE EXCEPTION 'You don''t have permission to delete the imported batches'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_import.log_count > 0
+    AND NOT public.has_permission(v_import.organization_id, auth.uid(), 'log_readings') THEN
+    RAISE EXCEPTION 'You don''t have permission to delete the imported readings'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.fermentation_logs
+  WHERE fermentation_logs.import_id = v_import.id;
+
+  DELETE FROM public.batches
+  WHERE batches.import_id = v_import.id;
+
+  UPDATE public.batch_imports
+  SET rolled_back_at = now(),
+    rolled_back_by = auth.uid()
+  WHERE id = v_import.id;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Tanks, barrels, IBCs and carboys batches ferment and age in
+CREATE TABLE IF NOT EXISTS public.vessels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  vessel_type TEXT NOT NULL DEFAULT 'tank'
+    CHECK (vessel_type IN ('tank', 'barrel', 'ibc', 'carboy', 'other')),
+  -- Liters, like batches.volume
+  capacity NUMERIC NOT NULL CHECK (capacity > 0),
+  material TEXT
+    CHECK (material IN ('stainless_steel', 'oak', 'plastic', 'glass', 'other')),
+  location TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TRIGGER set_vessels_updated_at
+  BEFORE UPDATE ON public.vessels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS vessel_id UUID REFERENCES public.vessels(id) ON DELETE SET NULL;
+
+-- A vessel holds one live batch at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batches_vessel_id
+  ON public.batches (vessel_id)
+  WHERE vessel_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Vessels are set up by admins; assigning one to a batch is a regular batch edit
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_capability_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_capability_check CHECK (capability IN (
+  'create_batch',
+  'edit_batch',
+  'delete_batch',
+  'log_readings',
+  'record_tastings',
+  'manage_packaging',
+  'manage_stages',
+  'manage_members',
+  'view_activity',
+  'manage_vessels'
+));
+
+INSERT INTO public.role_permissions (role, capability) VALUES
+  ('owner', 'manage_vessels'),
+  ('admin', 'manage_vessels')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.vessels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view vessels"
+  ON public.vessels FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Members with permission can create vessels"
+  ON public.vessels FOR INSERT
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_vessels'));
+
+CREATE POLICY "Members with permission can update vessels"
+  ON public.vessels FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_vessels'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_vessels'));
+
+CREATE POLICY "Members with permission can delete vessels"
+  ON public.vessels FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_vessels'));
+
+-- Keeps vessel assignments honest: the vessel must belong to the batch's organization and hold its volume.
+-- Batches leave their vessel when they are trashed or reach a terminal stage (packaged).
+CREATE OR REPLACE FUNCTION public.check_batch_vessel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vessel public.vessels%ROWTYPE;
+BEGIN
+  IF NEW.vessel_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL OR EXISTS (
+    SELECT 1 FROM public.production_stages
+    WHERE organization_id = NEW.organization_id
+    AND key = NEW.current_stage
+    AND is_terminal
+  ) THEN
+    NEW.vessel_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_vessel FROM public.vessels WHERE id = NEW.vessel_id;
+
+  IF NOT FOUND OR v_vessel.organization_id <> NEW.organization_id THEN
+    RAISE EXCEPTION 'Vessel not found';
+  END IF;
+
+  IF NEW.volume > v_vessel.capacity THEN
+    RAISE EXCEPTION '% holds % L, which is less than the batch volume of % L', v_vessel.name, v_vessel.capacity, NEW.volume
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.batches
+    WHERE vessel_id = NEW.vessel_id
+    AND deleted_at IS NULL
+    AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION '% already holds another batch', v_vessel.name
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_batch_vessel ON public.batches;
+CREATE TRIGGER check_batch_vessel
+  BEFORE INSERT OR UPDATE OF vessel_id, volume, current_stage, deleted_at ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_batch_vessel();
+
+DROP TRIGGER IF EXISTS record_audit_event ON public.vessels;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON public.vessels
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
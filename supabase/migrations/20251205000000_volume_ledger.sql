@@ -0,0 +1,467 @@
+-- Cellar operations that move or lose volume: racking, splitting across vessels, topping up,
+-- recorded losses (lees, evaporation, spills) and corrections after measuring a vessel
+CREATE TABLE IF NOT EXISTS public.batch_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  transfer_type TEXT NOT NULL
+    CHECK (transfer_type IN ('rack', 'split', 'top_up', 'loss', 'adjustment')),
+  -- NULL means volume that is not in a vessel
+  from_vessel_id UUID REFERENCES public.vessels(id) ON DELETE SET NULL,
+  -- Liters arriving in the destinations, added by a top-up, or the signed correction
+  volume NUMERIC NOT NULL DEFAULT 0,
+  loss NUMERIC NOT NULL DEFAULT 0 CHECK (loss >= 0),
+  note TEXT,
+  transferred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_transfers_batch_id
+  ON public.batch_transfers (batch_id, transferred_at DESC);
+
+-- Every change to a batch's volume, per vessel. batches.volume is the sum of its entries.
+CREATE TABLE IF NOT EXISTS public.batch_volume_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  transfer_id UUID REFERENCES public.batch_transfers(id) ON DELETE CASCADE,
+  -- NULL means volume that is not in a vessel
+  vessel_id UUID REFERENCES public.vessels(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL
+    CHECK (entry_type IN ('initial', 'transfer_out', 'transfer_in', 'top_up', 'loss', 'adjustment', 'release')),
+  volume_change NUMERIC NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_volume_entries_batch_id
+  ON public.batch_volume_entries (batch_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_batch_volume_entries_vessel_id
+  ON public.batch_volume_entries (vessel_id);
+
+-- What each vessel holds right now. A split batch shows up once per vessel.
+CREATE OR REPLACE VIEW public.vessel_contents
+WITH (security_invoker = on)
+AS
+SELECT
+  e.organization_id,
+  e.vessel_id,
+  e.batch_id,
+  SUM(e.volume_change) AS volume
+FROM public.batch_volume_entries e
+JOIN public.batches b ON b.id = e.batch_id
+WHERE e.vessel_id IS NOT NULL
+AND b.deleted_at IS NULL
+GROUP BY e.organization_id, e.vessel_id, e.batch_id
+HAVING SUM(e.volume_change) > 0;
+
+-- Volume already recorded before the ledger existed
+INSERT INTO public.batch_volume_entries (organization_id, batch_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+SELECT organization_id, id, vessel_id, 'initial', volume, created_at, created_by
+FROM public.batches
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.batch_volume_entries WHERE batch_id = batches.id
+);
+
+-- Occupancy now comes from the ledger; batches.vessel_id is kept in sync below
+DROP TRIGGER IF EXISTS check_batch_vessel ON public.batches;
+DROP FUNCTION IF EXISTS public.check_batch_vessel();
+
+COMMENT ON COLUMN public.batches.volume IS
+  'Current volume in liters, derived from batch_volume_entries. Set on insert only.';
+COMMENT ON COLUMN public.batches.vessel_id IS
+  'Vessel holding most of the batch, derived from batch_volume_entries. Set on insert to place the initial volume.';
+
+-- Raises unless the vessel can take p_volume more liters of the batch
+CREATE OR REPLACE FUNCTION public.assert_vessel_available(p_vessel_id uuid, p_batch_id uuid, p_volume numeric)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vessel public.vessels%ROWTYPE;
+  v_batch public.batches%ROWTYPE;
+  v_contents numeric;
+BEGIN
+  SELECT * INTO v_batch FROM public.batches WHERE id = p_batch_id;
+  SELECT * INTO v_vessel FROM public.vessels WHERE id = p_vessel_id;
+
+  IF NOT FOUND OR v_vessel.organization_id <> v_batch.organization_id THEN
+    RAISE EXCEPTION 'Vessel not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.vessel_contents
+    WHERE vessel_id = p_vessel_id
+    AND batch_id <> p_batch_id
+  ) THEN
+    RAISE EXCEPTION '% already holds another batch', v_vessel.name
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(volume), 0) INTO v_contents
+  FROM public.vessel_contents
+  WHERE vessel_id = p_vessel_id;
+
+  IF v_contents + p_volume > v_vessel.capacity THEN
+    RAISE EXCEPTION '% holds % L, which is not enough for % L', v_vessel.name, v_vessel.capacity, v_contents + p_volume
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- Volume and primary vessel are derived; only the ledger may change them once a batch exists.
+-- Updates coming from other triggers (the ledger sync, ON DELETE SET NULL) run nested and pass.
+CREATE OR REPLACE FUNCTION public.protect_batch_volume()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1
+    AND (NEW.volume IS DISTINCT FROM OLD.volume OR NEW.vessel_id IS DISTINCT FROM OLD.vessel_id) THEN
+    RAISE EXCEPTION 'Batch volume and vessel change through transfers, not direct edits'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_batch_volume ON public.batches;
+CREATE TRIGGER protect_batch_volume
+  BEFORE UPDATE OF volume, vessel_id ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_batch_volume();
+
+CREATE OR REPLACE FUNCTION public.sync_batch_volume(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.batches
+  SET volume = (
+      SELECT COALESCE(SUM(volume_change), 0)
+      FROM public.batch_volume_entries
+      WHERE batch_id = p_batch_id
+    ),
+    vessel_id = (
+      SELECT vessel_id
+      FROM public.batch_volume_entries
+      WHERE batch_id = p_batch_id
+      AND vessel_id IS NOT NULL
+      GROUP BY vessel_id
+      HAVING SUM(volume_change) > 0
+      ORDER BY SUM(volume_change) DESC, vessel_id
+      LIMIT 1
+    )
+  WHERE id = p_batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_batch_volume_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_batch_volume(COALESCE(NEW.batch_id, OLD.batch_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_batch_volume ON public.batch_volume_entries;
+-- Deleting a vessel moves its contents outside any vessel through ON DELETE SET NULL
+CREATE TRIGGER sync_batch_volume
+  AFTER INSERT OR UPDATE OF vessel_id OR DELETE ON public.batch_volume_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_batch_volume_entry();
+
+-- Opens the ledger with the volume a batch is created with, in the vessel it was created in.
+-- Batches created trashed or already in a terminal stage (imports) start outside any vessel.
+CREATE OR REPLACE FUNCTION public.record_initial_batch_volume()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vessel_id uuid := NEW.vessel_id;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL OR EXISTS (
+    SELECT 1 FROM public.production_stages
+    WHERE organization_id = NEW.organization_id
+    AND key = NEW.current_stage
+    AND is_terminal
+  ) THEN
+    v_vessel_id := NULL;
+  END IF;
+
+  IF v_vessel_id IS NOT NULL THEN
+    PERFORM public.assert_vessel_available(v_vessel_id, NEW.id, NEW.volume);
+  END IF;
+
+  INSERT INTO public.batch_volume_entries (organization_id, batch_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+  VALUES (NEW.organization_id, NEW.id, v_vessel_id, 'initial', NEW.volume, NEW.created_at, NEW.created_by);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_initial_batch_volume ON public.batches;
+CREATE TRIGGER record_initial_batch_volume
+  AFTER INSERT ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_initial_batch_volume();
+
+-- Batches leave their vessels when they are trashed or reach a terminal stage (packaged).
+-- The volume stays on the batch, just outside any vessel.
+CREATE OR REPLACE FUNCTION public.release_batch_vessels()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    (NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL)
+    OR (NEW.current_stage IS DISTINCT FROM OLD.current_stage AND EXISTS (
+      SELECT 1 FROM public.production_stages
+      WHERE organization_id = NEW.organization_id
+      AND key = NEW.current_stage
+      AND is_terminal
+    ))
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.batch_volume_entries (organization_id, batch_id, vessel_id, entry_type, volume_change, created_by)
+  SELECT NEW.organization_id, NEW.id, c.vessel_id, 'release', c.amount, auth.uid()
+  FROM (
+    SELECT vessel_id, SUM(volume_change) AS total
+    FROM public.batch_volume_entries
+    WHERE batch_id = NEW.id
+    AND vessel_id IS NOT NULL
+    GROUP BY vessel_id
+    HAVING SUM(volume_change) > 0
+  ) held
+  CROSS JOIN LATERAL (
+    VALUES (held.vessel_id, -held.total), (NULL::uuid, held.total)
+  ) AS c(vessel_id, amount);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_batch_vessels ON public.batches;
+CREATE TRIGGER release_batch_vessels
+  AFTER UPDATE OF current_stage, deleted_at ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_batch_vessels();
+
+-- Records a cellar operation and its ledger entries in one go.
+--   rack / split: move volume from one vessel (or from outside any vessel) into one or more destinations, minus loss
+--   top_up:       add volume to a destination
+--   loss:         remove loss from a vessel
+--   adjustment:   set what a vessel actually holds after measuring it
+-- destinations: [{ "vessel_id": uuid | null, "volume": number }]
+CREATE OR REPLACE FUNCTION public.transfer_batch_volume(
+  batch_id uuid,
+  transfer_type text,
+  from_vessel_id uuid DEFAULT NULL,
+  destinations jsonb DEFAULT '[]'::jsonb,
+  loss numeric DEFAULT 0,
+  note text DEFAULT NULL,
+  transferred_at timestamp with time zone DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.batches%ROWTYPE;
+  v_type text := transfer_batch_volume.transfer_type;
+  v_source uuid := transfer_batch_volume.from_vessel_id;
+  v_loss numeric := COALESCE(transfer_batch_volume.loss, 0);
+  v_at timestamp with time zone := COALESCE(transfer_batch_volume.transferred_at, now());
+  v_count integer := jsonb_array_length(COALESCE(destinations, '[]'::jsonb));
+  v_transfer_id uuid;
+  v_destination record;
+  v_total numeric := 0;
+  v_available numeric;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.batches
+  WHERE id = transfer_batch_volume.batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_organization_member(v_batch.organization_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  IF NOT public.has_permission(v_batch.organization_id, auth.uid(), 'edit_batch') THEN
+    RAISE EXCEPTION 'You don''t have permission to edit this batch'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_batch.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Restore % from the trash before moving it', v_batch.name;
+  END IF;
+
+  IF v_type NOT IN ('rack', 'split', 'top_up', 'loss', 'adjustment') THEN
+    RAISE EXCEPTION 'Unknown transfer type %', v_type;
+  END IF;
+
+  IF v_loss < 0 OR (v_type IN ('top_up', 'adjustment') AND v_loss <> 0) THEN
+    RAISE EXCEPTION 'Loss must be zero or more, and only applies when volume leaves a vessel'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (v_type = 'rack' AND v_count <> 1)
+    OR (v_type = 'split' AND v_count < 2)
+    OR (v_type IN ('top_up', 'adjustment') AND v_count <> 1)
+    OR (v_type = 'loss' AND v_count <> 0) THEN
+    RAISE EXCEPTION 'A % needs % destination(s)', replace(v_type, '_', ' '),
+      CASE v_type WHEN 'split' THEN 'two or more' WHEN 'loss' THEN 'no' ELSE 'exactly one' END;
+  END IF;
+
+  IF v_type = 'loss' AND v_loss = 0 THEN
+    RAISE EXCEPTION 'Enter the volume that was lost' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A top-up comes from outside the batch; the others draw on (or measure) one place in the cellar
+  IF v_type = 'top_up' THEN
+    v_source := NULL;
+  ELSIF v_type = 'adjustment' THEN
+    v_source := (destinations->0->>'vessel_id')::uuid;
+  END IF;
+
+  SELECT COALESCE(SUM(volume_change), 0) INTO v_available
+  FROM public.batch_volume_entries
+  WHERE batch_volume_entries.batch_id = v_batch.id
+  AND vessel_id IS NOT DISTINCT FROM v_source;
+
+  -- Validate every destination before anything is written
+  FOR v_destination IN
+    SELECT (value->>'vessel_id')::uuid AS vessel_id, (value->>'volume')::numeric AS volume
+    FROM jsonb_array_elements(COALESCE(destinations, '[]'::jsonb))
+  LOOP
+    IF v_destination.volume IS NULL
+      OR v_destination.volume < 0
+      OR (v_destination.volume = 0 AND v_type <> 'adjustment') THEN
+      RAISE EXCEPTION 'Each destination needs a volume above zero' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_type IN ('rack', 'split') AND v_destination.vessel_id IS NOT DISTINCT FROM v_source THEN
+      RAISE EXCEPTION 'The destination must differ from the source';
+    END IF;
+
+    IF v_type = 'adjustment' THEN
+      -- Signed correction from what the ledger says the vessel holds
+      v_total := v_destination.volume - v_available;
+    ELSE
+      v_total := v_total + v_destination.volume;
+    END IF;
+  END LOOP;
+
+  IF v_type IN ('rack', 'split') AND (
+    SELECT COUNT(DISTINCT value->>'vessel_id') FROM jsonb_array_elements(destinations)
+  ) < v_count THEN
+    RAISE EXCEPTION 'Each destination can only appear once';
+  END IF;
+
+  IF v_type IN ('rack', 'split', 'loss') AND v_total + v_loss > v_available THEN
+    RAISE EXCEPTION 'Only % L of % is there, but % L was moved or lost', v_available, v_batch.name, v_total + v_loss
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.batch_transfers (
+    organization_id, batch_id, transfer_type, from_vessel_id, volume, loss, note, transferred_at, created_by
+  ) VALUES (
+    v_batch.organization_id,
+    v_batch.id,
+    v_type,
+    v_source,
+    v_total,
+    v_loss,
+    NULLIF(btrim(transfer_batch_volume.note), ''),
+    v_at,
+    auth.uid()
+  )
+  RETURNING id INTO v_transfer_id;
+
+  IF v_type = 'adjustment' THEN
+    IF v_source IS NOT NULL AND v_total > 0 THEN
+      PERFORM public.assert_vessel_available(v_source, v_batch.id, v_total);
+    END IF;
+
+    INSERT INTO public.batch_volume_entries (organization_id, batch_id, transfer_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+    VALUES (v_batch.organization_id, v_batch.id, v_transfer_id, v_source, 'adjustment', v_total, v_at, auth.uid());
+
+    RETURN v_transfer_id;
+  END IF;
+
+  -- Volume leaves the source before destinations are checked, so racking within a full cellar works
+  IF v_type IN ('rack', 'split') THEN
+    INSERT INTO public.batch_volume_entries (organization_id, batch_id, transfer_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+    VALUES (v_batch.organization_id, v_batch.id, v_transfer_id, v_source, 'transfer_out', -v_total, v_at, auth.uid());
+  END IF;
+
+  IF v_loss > 0 THEN
+    INSERT INTO public.batch_volume_entries (organization_id, batch_id, transfer_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+    VALUES (v_batch.organization_id, v_batch.id, v_transfer_id, v_source, 'loss', -v_loss, v_at, auth.uid());
+  END IF;
+
+  FOR v_destination IN
+    SELECT (value->>'vessel_id')::uuid AS vessel_id, (value->>'volume')::numeric AS volume
+    FROM jsonb_array_elements(COALESCE(destinations, '[]'::jsonb))
+  LOOP
+    IF v_destination.vessel_id IS NOT NULL THEN
+      PERFORM public.assert_vessel_available(v_destination.vessel_id, v_batch.id, v_destination.volume);
+    END IF;
+
+    INSERT INTO public.batch_volume_entries (organization_id, batch_id, transfer_id, vessel_id, entry_type, volume_change, recorded_at, created_by)
+    VALUES (
+      v_batch.organization_id,
+      v_batch.id,
+      v_transfer_id,
+      v_destination.vessel_id,
+      CASE WHEN v_type = 'top_up' THEN 'top_up' ELSE 'transfer_in' END,
+      v_destination.volume,
+      v_at,
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+-- Internal helpers, only called from the triggers and functions above
+REVOKE EXECUTE ON FUNCTION public.assert_vessel_available(uuid, uuid, numeric) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION public.sync_batch_volume(uuid) FROM PUBLIC, authenticated, anon;
+
+-- Reading is open to members; rows are only written through the functions above
+ALTER TABLE public.batch_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.batch_volume_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view batch transfers"
+  ON public.batch_transfers FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Members can view batch volume entries"
+  ON public.batch_volume_entries FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+DROP TRIGGER IF EXISTS record_audit_event ON public.batch_transfers;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON public.batch_transfers
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
@@ -0,0 +1,203 @@
+-- Share of each apple variety in a batch, e.g. [{"variety": "Dabinett", "percentage": 60}, ...].
+-- NULL means the batch is 100% its variety; blends always have one.
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS variety_composition JSONB;
+
+-- What went into a blend. Names and varieties are copied so lineage survives purged sources.
+CREATE TABLE IF NOT EXISTS public.batch_blend_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  source_batch_id UUID REFERENCES public.batches(id) ON DELETE SET NULL,
+  source_name TEXT NOT NULL,
+  source_variety TEXT NOT NULL,
+  from_vessel_id UUID REFERENCES public.vessels(id) ON DELETE SET NULL,
+  volume NUMERIC NOT NULL CHECK (volume > 0),
+  percentage NUMERIC NOT NULL CHECK (percentage >= 0 AND percentage <= 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_blend_components_batch_id
+  ON public.batch_blend_components (batch_id);
+CREATE INDEX IF NOT EXISTS idx_batch_blend_components_source_batch_id
+  ON public.batch_blend_components (source_batch_id);
+
+-- Volume drawn into a blend leaves the source through the volume ledger.
+-- Deferred because blend_batches draws the components before it creates the blend.
+ALTER TABLE public.batch_transfers
+  ADD COLUMN IF NOT EXISTS target_batch_id UUID REFERENCES public.batches(id) ON DELETE SET NULL
+    DEFERRABLE INITIALLY DEFERRED;
+
+ALTER TABLE public.batch_transfers DROP CONSTRAINT IF EXISTS batch_transfers_transfer_type_check;
+ALTER TABLE public.batch_transfers ADD CONSTRAINT batch_transfers_transfer_type_check
+  CHECK (transfer_type IN ('rack', 'split', 'top_up', 'loss', 'adjustment', 'blend'));
+
+ALTER TABLE public.batch_volume_entries DROP CONSTRAINT IF EXISTS batch_volume_entries_entry_type_check;
+ALTER TABLE public.batch_volume_entries ADD CONSTRAINT batch_volume_entries_entry_type_check
+  CHECK (entry_type IN ('initial', 'transfer_out', 'transfer_in', 'top_up', 'loss', 'adjustment', 'release', 'blend_out'));
+
+ALTER TABLE public.batch_blend_components ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by blend_batches
+CREATE POLICY "Members can view blend components"
+  ON public.batch_blend_components FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+-- Creates a batch from volume drawn out of several others, in one transaction.
+-- components: [{ "batch_id": uuid, "vessel_id": uuid | null, "volume": number }]
+-- The blend's variety composition is the volume-weighted mix of its sources' compositions.
+CREATE OR REPLACE FUNCTION public.blend_batches(
+  org_id uuid,
+  blend_name text,
+  blend_date date,
+  stage text,
+  components jsonb,
+  target_vessel_id uuid DEFAULT NULL,
+  note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_blend_id uuid := gen_random_uuid();
+  v_component record;
+  v_transfer_id uuid;
+  v_total numeric;
+  v_available numeric;
+  v_composition jsonb;
+  v_variety text;
+BEGIN
+  IF NOT public.has_permission(org_id, auth.uid(), 'create_batch')
+    OR NOT public.has_permission(org_id, auth.uid(), 'edit_batch') THEN
+    RAISE EXCEPTION 'You don''t have permission to blend batches'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.production_stages
+    WHERE organization_id = org_id AND key = stage
+  ) THEN
+    RAISE EXCEPTION 'Stage % does not exist', stage;
+  END IF;
+
+  IF btrim(COALESCE(blend_name, '')) = '' THEN
+    RAISE EXCEPTION 'Blend name is required';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(components, '[]'::jsonb)) < 2 OR (
+    SELECT COUNT(DISTINCT value->>'batch_id') FROM jsonb_array_elements(components)
+  ) < 2 THEN
+    RAISE EXCEPTION 'A blend needs at least two different batches';
+  END IF;
+
+  SELECT SUM((value->>'volume')::numeric) INTO v_total
+  FROM jsonb_array_elements(components);
+
+  -- Validate sources and draw their volume before the blend claims a vessel,
+  -- so a blend can go into a vessel one of its components just left
+  FOR v_component IN
+    SELECT
+      b.id AS batch_id,
+      b.name,
+      b.deleted_at,
+      (c.value->>'vessel_id')::uuid AS vessel_id,
+      (c.value->>'volume')::numeric AS volume
+    FROM jsonb_array_elements(components) AS c
+    LEFT JOIN public.batches b
+      ON b.id = (c.value->>'batch_id')::uuid
+      AND b.organization_id = org_id
+    ORDER BY b.name
+  LOOP
+    IF v_component.batch_id IS NULL THEN
+      RAISE EXCEPTION 'Some components belong to batches that are not in this organization';
+    END IF;
+
+    IF v_component.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION '% is in the trash', v_component.name;
+    END IF;
+
+    IF v_component.volume IS NULL OR v_component.volume <= 0 THEN
+      RAISE EXCEPTION 'Enter a volume above zero for %', v_component.name
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(SUM(volume_change), 0) INTO v_available
+    FROM public.batch_volume_entries
+    WHERE batch_volume_entries.batch_id = v_component.batch_id
+    AND batch_volume_entries.vessel_id IS NOT DISTINCT FROM v_component.vessel_id;
+
+    -- Two components may draw on the same place; earlier draws are already in the ledger
+    IF v_component.volume > v_available THEN
+      RAISE EXCEPTION 'Only % L of % is there, but % L was requested', v_available, v_component.name, v_component.volume
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.batch_transfers (
+      organization_id, batch_id, transfer_type, from_vessel_id, volume, note, target_batch_id, created_by
+    ) VALUES (
+      org_id, v_component.batch_id, 'blend', v_component.vessel_id, v_component.volume,
+      NULLIF(btrim(blend_batches.note), ''), v_blend_id, auth.uid()
+    )
+    RETURNING id INTO v_transfer_id;
+
+    INSERT INTO public.batch_volume_entries (organization_id, batch_id, transfer_id, vessel_id, entry_type, volume_change, created_by)
+    VALUES (org_id, v_component.batch_id, v_transfer_id, v_component.vessel_id, 'blend_out', -v_component.volume, auth.uid());
+  END LOOP;
+
+  -- Weighted mix of every source's composition, merged per variety
+  SELECT jsonb_agg(
+      jsonb_build_object('variety', mix.variety, 'percentage', round(mix.percentage, 1))
+      ORDER BY mix.percentage DESC, mix.variety
+    ),
+    string_agg(round(mix.percentage)::text || '% ' || mix.variety, ' / ' ORDER BY mix.percentage DESC, mix.variety)
+  INTO v_composition, v_variety
+  FROM (
+    SELECT part.variety, SUM(part.percentage) AS percentage
+    FROM jsonb_array_elements(components) AS c
+    JOIN public.batches b ON b.id = (c.value->>'batch_id')::uuid
+    CROSS JOIN LATERAL (
+      SELECT
+        share->>'variety' AS variety,
+        (share->>'percentage')::numeric * (c.value->>'volume')::numeric / v_total AS percentage
+      FROM jsonb_array_elements(
+        COALESCE(b.variety_composition, jsonb_build_array(jsonb_build_object('variety', b.variety, 'percentage', 100)))
+      ) AS share
+    ) part
+    GROUP BY part.variety
+  ) mix;
+
+  INSERT INTO public.batches (
+    id, organization_id, name, variety, variety_composition, volume, start_date, current_stage, vessel_id, created_by
+  ) VALUES (
+    v_blend_id,
+    org_id,
+    btrim(blend_name),
+    left(v_variety, 100),
+    v_composition,
+    v_total,
+    COALESCE(blend_date, CURRENT_DATE),
+    stage,
+    target_vessel_id,
+    auth.uid()
+  );
+
+  INSERT INTO public.batch_blend_components (
+    organization_id, batch_id, source_batch_id, source_name, source_variety, from_vessel_id, volume, percentage
+  )
+  SELECT
+    org_id,
+    v_blend_id,
+    b.id,
+    b.name,
+    b.variety,
+    (c.value->>'vessel_id')::uuid,
+    (c.value->>'volume')::numeric,
+    (c.value->>'volume')::numeric * 100 / v_total
+  FROM jsonb_array_elements(components) AS c
+  JOIN public.batches b ON b.id = (c.value->>'batch_id')::uuid;
+
+  RETURN v_blend_id;
+END;
+$$;
@@ -0,0 +1,285 @@
+-- Apple varieties an organization presses, so batches share one spelling per variety
+CREATE TABLE IF NOT EXISTS public.varieties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  -- Long Ashton classification by typical sugar, acid and tannin; NULL until someone sets it
+  variety_class TEXT
+    CHECK (variety_class IN ('sweet', 'sharp', 'bittersweet', 'bittersharp')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- "Dabinett" and "dabinett" are the same variety
+CREATE UNIQUE INDEX IF NOT EXISTS idx_varieties_organization_id_name
+  ON public.varieties (organization_id, lower(name));
+
+CREATE TRIGGER set_varieties_updated_at
+  BEFORE UPDATE ON public.varieties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Blends have a variety composition instead and leave this empty.
+-- batches.variety stays as the variety's name for search, exports and the import.
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS variety_id UUID REFERENCES public.varieties(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_batches_variety_id ON public.batches (variety_id);
+
+-- Admins curate the catalog; anyone who creates or edits batches can add a variety that is missing
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_capability_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_capability_check CHECK (capability IN (
+  'create_batch',
+  'edit_batch',
+  'delete_batch',
+  'log_readings',
+  'record_tastings',
+  'manage_packaging',
+  'manage_stages',
+  'manage_members',
+  'view_activity',
+  'manage_vessels',
+  'manage_varieties'
+));
+
+INSERT INTO public.role_permissions (role, capability) VALUES
+  ('owner', 'manage_varieties'),
+  ('admin', 'manage_varieties')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.varieties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view varieties"
+  ON public.varieties FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Members with permission can create varieties"
+  ON public.varieties FOR INSERT
+  WITH CHECK (
+    public.has_permission(organization_id, auth.uid(), 'manage_varieties')
+    OR public.has_permission(organization_id, auth.uid(), 'create_batch')
+    OR public.has_permission(organization_id, auth.uid(), 'edit_batch')
+  );
+
+CREATE POLICY "Members with permission can update varieties"
+  ON public.varieties FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_varieties'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'manage_varieties'));
+
+CREATE POLICY "Members with permission can delete varieties"
+  ON public.varieties FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'manage_varieties'));
+
+-- Normalize the free-text varieties batches have so far. Spellings are folded by case and spacing,
+-- matched against well-known cider varieties allowing for small typos ("Dabinet"), and otherwise
+-- merged with the most used spelling within two edits in the same organization.
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+
+CREATE TEMP TABLE known_varieties (name TEXT PRIMARY KEY, variety_class TEXT NOT NULL) ON COMMIT DROP;
+INSERT INTO known_varieties (name, variety_class) VALUES
+  ('Dabinett', 'bittersweet'),
+  ('Yarlington Mill', 'bittersweet'),
+  ('Michelin', 'bittersweet'),
+  ('Harry Masters Jersey', 'bittersweet'),
+  ('Somerset Redstreak', 'bittersweet'),
+  ('Chisel Jersey', 'bittersweet'),
+  ('Ellis Bitter', 'bittersweet'),
+  ('Tremlett''s Bitter', 'bittersweet'),
+  ('Brown Snout', 'bittersweet'),
+  ('Major', 'bittersweet'),
+  ('Medaille d''Or', 'bittersweet'),
+  ('Bulmer''s Norman', 'bittersweet'),
+  ('Vilberie', 'bittersweet'),
+  ('Binet Rouge', 'bittersweet'),
+  ('Bedan', 'bittersweet'),
+  ('White Jersey', 'bittersweet'),
+  ('Kingston Black', 'bittersharp'),
+  ('Foxwhelp', 'bittersharp'),
+  ('Stoke Red', 'bittersharp'),
+  ('Porter''s Perfection', 'bittersharp'),
+  ('Cap of Liberty', 'bittersharp'),
+  ('Brown''s Apple', 'sharp'),
+  ('Bramley''s Seedling', 'sharp'),
+  ('Crimson King', 'sharp'),
+  ('Golden Russet', 'sharp'),
+  ('Newtown Pippin', 'sharp'),
+  ('Granny Smith', 'sharp'),
+  ('Wickson Crab', 'sharp'),
+  ('Ashmead''s Kernel', 'sharp'),
+  ('Northern Spy', 'sharp'),
+  ('Sweet Coppin', 'sweet'),
+  ('Sweet Alford', 'sweet'),
+  ('Northwood', 'sweet'),
+  ('Court Royal', 'sweet'),
+  ('Golden Delicious', 'sweet'),
+  ('Gala', 'sweet'),
+  ('Fuji', 'sweet'),
+  ('Honeycrisp', 'sweet');
+
+-- Every spelling in use, with the key it folds to
+CREATE TEMP TABLE variety_spellings ON COMMIT DROP AS
+SELECT
+  organization_id,
+  variety AS spelling,
+  lower(regexp_replace(btrim(variety), '\s+', ' ', 'g')) AS key,
+  COUNT(*) AS uses
+FROM public.batches
+WHERE variety_composition IS NULL AND btrim(variety) <> ''
+GROUP BY organization_id, variety;
+
+CREATE TEMP TABLE variety_keys ON COMMIT DROP AS
+SELECT organization_id, key, SUM(uses) AS uses
+FROM variety_spellings
+GROUP BY organization_id, key;
+
+-- Short names like "Gala" must match exactly; two letters off there is another variety
+CREATE TEMP TABLE variety_mapping ON COMMIT DROP AS
+SELECT
+  k.organization_id,
+  k.key,
+  COALESCE(known.name, nearby.spelling) AS name,
+  known.variety_class
+FROM variety_keys k
+LEFT JOIN LATERAL (
+  SELECT kv.name, kv.variety_class
+  FROM known_varieties kv
+  WHERE levenshtein(lower(kv.name), k.key) <= CASE WHEN length(k.key) >= 6 THEN 2 ELSE 0 END
+  ORDER BY levenshtein(lower(kv.name), k.key), kv.name
+  LIMIT 1
+) known ON true
+CROSS JOIN LATERAL (
+  -- Capitalized spellings win ties over all-lowercase ones
+  SELECT s.spelling
+  FROM variety_keys other
+  JOIN variety_spellings s ON s.organization_id = other.organization_id AND s.key = other.key
+  WHERE other.organization_id = k.organization_id
+  AND levenshtein(other.key, k.key) <= CASE WHEN length(k.key) >= 6 THEN 2 ELSE 0 END
+  ORDER BY other.uses DESC, other.key, s.uses DESC, (s.spelling <> lower(s.spelling)) DESC, s.spelling
+  LIMIT 1
+) nearby;
+
+INSERT INTO public.varieties (organization_id, name, variety_class)
+SELECT DISTINCT ON (organization_id, lower(btrim(name))) organization_id, btrim(name), variety_class
+FROM variety_mapping
+ORDER BY organization_id, lower(btrim(name)), variety_class NULLS LAST
+ON CONFLICT DO NOTHING;
+
+UPDATE public.batches b
+SET variety_id = v.id, variety = v.name
+FROM variety_mapping m
+JOIN public.varieties v ON v.organization_id = m.organization_id AND lower(v.name) = lower(btrim(m.name))
+WHERE b.organization_id = m.organization_id
+AND b.variety_composition IS NULL
+AND lower(regexp_replace(btrim(b.variety), '\s+', ' ', 'g')) = m.key;
+
+-- Blends name their sources' varieties; use the same spellings there
+UPDATE public.batches b
+SET variety_composition = (
+  SELECT jsonb_agg(
+    jsonb_set(share, '{variety}', to_jsonb(COALESCE(v.name, share->>'variety'))) ORDER BY ord
+  )
+  FROM jsonb_array_elements(b.variety_composition) WITH ORDINALITY AS shares(share, ord)
+  LEFT JOIN variety_mapping m
+    ON m.organization_id = b.organization_id
+    AND m.key = lower(regexp_replace(btrim(share->>'variety'), '\s+', ' ', 'g'))
+  LEFT JOIN public.varieties v
+    ON v.organization_id = m.organization_id AND lower(v.name) = lower(btrim(m.name))
+)
+WHERE b.variety_composition IS NOT NULL;
+
+-- Keeps batches.variety and variety_id in step. Forms send the variety's id;
+-- the CSV import and blends still send text, which is matched to the catalog by name
+-- and added to it when the organization doesn't have that variety yet.
+CREATE OR REPLACE FUNCTION public.sync_batch_variety()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text;
+  v_variety public.varieties%ROWTYPE;
+BEGIN
+  IF NEW.variety_composition IS NOT NULL THEN
+    NEW.variety_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.variety_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.variety_id IS DISTINCT FROM OLD.variety_id) THEN
+    SELECT * INTO v_variety
+    FROM public.varieties
+    WHERE id = NEW.variety_id AND organization_id = NEW.organization_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variety does not belong to this organization';
+    END IF;
+  ELSIF TG_OP = 'INSERT' OR NEW.variety_id IS NULL OR NEW.variety IS DISTINCT FROM OLD.variety THEN
+    v_name := regexp_replace(btrim(NEW.variety), '\s+', ' ', 'g');
+    IF COALESCE(v_name, '') = '' THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.varieties (organization_id, name, created_by)
+    VALUES (NEW.organization_id, v_name, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    SELECT * INTO v_variety
+    FROM public.varieties
+    WHERE organization_id = NEW.organization_id AND lower(name) = lower(v_name);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  NEW.variety_id := v_variety.id;
+  NEW.variety := v_variety.name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_batch_variety ON public.batches;
+CREATE TRIGGER sync_batch_variety
+  BEFORE INSERT OR UPDATE OF variety, variety_id, variety_composition ON public.batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_batch_variety();
+
+-- Renaming a variety renames it on every batch and blend that uses it
+CREATE OR REPLACE FUNCTION public.rename_batch_variety()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.batches
+  SET variety = NEW.name
+  WHERE variety_id = NEW.id;
+
+  UPDATE public.batches b
+  SET variety_composition = (
+    SELECT jsonb_agg(
+      CASE WHEN share->>'variety' = OLD.name THEN jsonb_set(share, '{variety}', to_jsonb(NEW.name)) ELSE share END
+      ORDER BY ord
+    )
+    FROM jsonb_array_elements(b.variety_composition) WITH ORDINALITY AS shares(share, ord)
+  )
+  WHERE b.organization_id = NEW.organization_id
+  AND b.variety_composition @> jsonb_build_array(jsonb_build_object('variety', OLD.name));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_batch_variety ON public.varieties;
+CREATE TRIGGER rename_batch_variety
+  AFTER UPDATE OF name ON public.varieties
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_batch_variety();
+
+DROP TRIGGER IF EXISTS record_audit_event ON public.varieties;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON public.varieties
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
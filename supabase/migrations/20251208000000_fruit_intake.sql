@@ -0,0 +1,110 @@
+-- Fruit received from suppliers and what it pressed to. A lot's juice goes into one batch.
+CREATE TABLE IF NOT EXISTS public.fruit_intakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  supplier TEXT NOT NULL CHECK (btrim(supplier) <> ''),
+  orchard TEXT,
+  variety_id UUID NOT NULL REFERENCES public.varieties(id) ON DELETE RESTRICT,
+  received_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  harvest_date DATE,
+  weight_kg NUMERIC NOT NULL CHECK (weight_kg > 0),
+  brix NUMERIC CHECK (brix >= 0 AND brix <= 40),
+  pressed_on DATE,
+  -- Liters, like batches.volume
+  juice_volume NUMERIC CHECK (juice_volume >= 0),
+  batch_id UUID REFERENCES public.batches(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT fruit_intakes_juice_needs_pressing CHECK (juice_volume IS NULL OR pressed_on IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fruit_intakes_organization_id_received_on
+  ON public.fruit_intakes (organization_id, received_on DESC);
+CREATE INDEX IF NOT EXISTS idx_fruit_intakes_batch_id
+  ON public.fruit_intakes (batch_id);
+
+CREATE TRIGGER set_fruit_intakes_updated_at
+  BEFORE UPDATE ON public.fruit_intakes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- The variety and batch must belong to the lot's organization
+CREATE OR REPLACE FUNCTION public.check_fruit_intake_references()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.varieties
+    WHERE id = NEW.variety_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Variety does not belong to this organization';
+  END IF;
+
+  IF NEW.batch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.batches
+    WHERE id = NEW.batch_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Batch does not belong to this organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_fruit_intake_references ON public.fruit_intakes;
+CREATE TRIGGER check_fruit_intake_references
+  BEFORE INSERT OR UPDATE OF organization_id, variety_id, batch_id ON public.fruit_intakes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_fruit_intake_references();
+
+-- Receiving and pressing fruit is day-to-day work, so members get it too
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_capability_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_capability_check CHECK (capability IN (
+  'create_batch',
+  'edit_batch',
+  'delete_batch',
+  'log_readings',
+  'record_tastings',
+  'manage_packaging',
+  'manage_stages',
+  'manage_members',
+  'view_activity',
+  'manage_vessels',
+  'manage_varieties',
+  'record_intake'
+));
+
+INSERT INTO public.role_permissions (role, capability) VALUES
+  ('owner', 'record_intake'),
+  ('admin', 'record_intake'),
+  ('member', 'record_intake')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.fruit_intakes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view fruit intake"
+  ON public.fruit_intakes FOR SELECT
+  USING (public.is_organization_member(organization_id, auth.uid()));
+
+CREATE POLICY "Members with permission can record fruit intake"
+  ON public.fruit_intakes FOR INSERT
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'record_intake'));
+
+CREATE POLICY "Members with permission can update fruit intake"
+  ON public.fruit_intakes FOR UPDATE
+  USING (public.has_permission(organization_id, auth.uid(), 'record_intake'))
+  WITH CHECK (public.has_permission(organization_id, auth.uid(), 'record_intake'));
+
+CREATE POLICY "Members with permission can delete fruit intake"
+  ON public.fruit_intakes FOR DELETE
+  USING (public.has_permission(organization_id, auth.uid(), 'record_intake'));
+
+DROP TRIGGER IF EXISTS record_audit_event ON public.fruit_intakes;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON public.fruit_intakes
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_event();
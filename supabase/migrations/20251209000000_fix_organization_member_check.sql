@@ -0,0 +1,17 @@
+-- In a SQL function a column wins over a parameter of the same name, so the original
+-- `organization_members.user_id = user_id` compared the column with itself and let any
+-- signed-in user pass for every organization with members. Every read policy goes through here.
+CREATE OR REPLACE FUNCTION public.is_organization_member(org_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE organization_id = org_id
+    AND organization_members.user_id = is_organization_member.user_id
+  )
+$$;
@@ -0,0 +1,51 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createOrganization, createTestDatabase, createUser } from './database';
+
+describe('rollback_batch_import', () => {
+  let db: PGlite;
+  let ownerId: string;
+  let outsiderId: string;
+  let organizationId: string;
+  let importId: string;
+
+  const countBatches = async () => {
+    const { rows } = await db.query<{ count: number }>(
+      'SELECT count(*)::int AS count FROM public.batches WHERE import_id = $1',
+      [importId]
+    );
+    return rows[0].count;
+  };
+
+  const rollback = (userId: string) =>
+    asUser(db, userId, (tx) => tx.query('SELECT public.rollback_batch_import($1)', [importId]));
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ownerId = await createUser(db, 'owner@example.com');
+    outsiderId = await createUser(db, 'outsider@example.com');
+    organizationId = await createOrganization(db, 'Orchard Cidery', ownerId);
+    await createOrganization(db, 'Other Cidery', outsiderId);
+
+    importId = await asUser(db, ownerId, async (tx) => {
+      const { rows } = await tx.query<{ id: string }>(
+        "SELECT public.import_batches($1, 'history.csv', $2::jsonb, '[]'::jsonb) AS id",
+        [
+          organizationId,
+          JSON.stringify([{ ref: 'dabinett', name: 'Dabinett 2024', variety: 'Dabinett', volume: 200, start_date: '2024-10-01', current_stage: 'pressing' }]),
+        ]
+      );
+      return rows[0].id;
+    });
+  }, 60_000);
+
+  it("won't let another organization roll the import back", async () => {
+    await expect(rollback(outsiderId)).rejects.toThrow('Import not found');
+    expect(await countBatches()).toBe(1);
+  });
+
+  it('removes the imported batches for the organization', async () => {
+    await rollback(ownerId);
+    expect(await countBatches()).toBe(0);
+  });
+});
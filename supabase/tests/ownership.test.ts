@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createOrganization, createTestDatabase, createUser } from './database';
+
+describe('transfer_organization_ownership', () => {
+  let db: PGlite;
+  let ownerId: string;
+  let memberId: string;
+  let outsiderId: string;
+  let organizationId: string;
+
+  const transfer = (newOwnerId: string) =>
+    asUser(db, ownerId, (tx) =>
+      tx.query('SELECT public.transfer_organization_ownership($1, $2)', [organizationId, newOwnerId])
+    );
+
+  const getRoles = async () => {
+    const { rows } = await db.query<{ user_id: string; role: string }>(
+      'SELECT user_id, role FROM public.organization_members WHERE organization_id = $1',
+      [organizationId]
+    );
+    return Object.fromEntries(rows.map((row) => [row.user_id, row.role]));
+  };
+
+  const getOwnerId = async () => {
+    const { rows } = await db.query<{ owner_id: string }>('SELECT owner_id FROM public.organizations WHERE id = $1', [organizationId]);
+    return rows[0].owner_id;
+  };
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    ownerId = await createUser(db, 'owner@example.com');
+    memberId = await createUser(db, 'member@example.com');
+    outsiderId = await createUser(db, 'outsider@example.com');
+    organizationId = await createOrganization(db, 'Orchard Cidery', ownerId);
+    await db.query(
+      "INSERT INTO public.organization_members (organization_id, user_id, role) VALUES ($1, $2, 'member')",
+      [organizationId, memberId]
+    );
+  }, 60_000);
+
+  it('hands ownership to a member and makes the old owner an admin', async () => {
+    await transfer(memberId);
+
+    expect(await getOwnerId()).toBe(memberId);
+    expect(await getRoles()).toEqual({ [ownerId]: 'admin', [memberId]: 'owner' });
+  });
+
+  it('refuses a user who is not a member', async () => {
+    await expect(transfer(outsiderId)).rejects.toThrow('The new owner must be a member of the organization');
+
+    expect(await getOwnerId()).toBe(ownerId);
+    expect(await getRoles()).toEqual({ [ownerId]: 'owner', [memberId]: 'member' });
+  });
+});
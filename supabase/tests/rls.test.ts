@@ -0,0 +1,168 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { asUser, createOrganization, createTestDatabase, createUser } from './database';
+
+const BATCH_IN_ORGANIZATION = 'batch_id IN (SELECT id FROM public.batches WHERE organization_id = $1)';
+
+// Tables whose SELECT policy goes through is_organization_member, and how their rows belong to an organization
+const MEMBER_TABLES: [table: string, filter: string][] = [
+  ['organizations', 'id = $1'],
+  ['organization_members', 'organization_id = $1'],
+  ['batches', 'organization_id = $1'],
+  ['fermentation_logs', BATCH_IN_ORGANIZATION],
+  ['production_stages', 'organization_id = $1'],
+  ['batch_stage_history', BATCH_IN_ORGANIZATION],
+  ['vessels', 'organization_id = $1'],
+  ['varieties', 'organization_id = $1'],
+  ['audit_log', 'organization_id = $1'],
+];
+
+async function countRows(db: PGlite, userId: string, table: string, filter: string, organizationId: string) {
+  return asUser(db, userId, async (tx) => {
+    const { rows } = await tx.query<{ count: number }>(
+      `SELECT count(*)::int AS count FROM public.${table} WHERE ${filter}`,
+      [organizationId]
+    );
+    return rows[0].count;
+  });
+}
+
+describe('organization membership', () => {
+  let db: PGlite;
+  let ownerId: string;
+  let outsiderId: string;
+  let organizationId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ownerId = await createUser(db, 'owner@example.com');
+    outsiderId = await createUser(db, 'outsider@example.com');
+    organizationId = await createOrganization(db, 'Orchard Cidery', ownerId);
+    await createOrganization(db, 'Other Cidery', outsiderId);
+
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.batches (organization_id, name, variety, volume, start_date, current_stage, created_by)
+       VALUES ($1, 'Dabinett 2025', 'Dabinett', 200, '2025-10-01', 'pressing', $2) RETURNING id`,
+      [organizationId, ownerId]
+    );
+    await db.query(
+      "INSERT INTO public.fermentation_logs (batch_id, recorded_at, specific_gravity) VALUES ($1, '2025-10-02', 1.05)",
+      [rows[0].id]
+    );
+    await db.query("INSERT INTO public.vessels (organization_id, name, capacity) VALUES ($1, 'Tank 1', 500)", [organizationId]);
+    await db.query("INSERT INTO public.varieties (organization_id, name) VALUES ($1, 'Kingston Black')", [organizationId]);
+  }, 60_000);
+
+  it('only counts users with a member row', async () => {
+    const { rows } = await db.query<{ owner: boolean; outsider: boolean }>(
+      'SELECT public.is_organization_member($1, $2) AS owner, public.is_organization_member($1, $3) AS outsider',
+      [organizationId, ownerId, outsiderId]
+    );
+
+    expect(rows[0]).toEqual({ owner: true, outsider: false });
+  });
+
+  it.each(MEMBER_TABLES)("lets members read the organization's %s", async (table, filter) => {
+    expect(await countRows(db, ownerId, table, filter, organizationId)).toBeGreaterThan(0);
+  });
+
+  it.each(MEMBER_TABLES)("hides the organization's %s from non-members", async (table, filter) => {
+    expect(await countRows(db, outsiderId, table, filter, organizationId)).toBe(0);
+  });
+});
+
+describe('audit log', () => {
+  let db: PGlite;
+  let ownerId: string;
+  let memberId: string;
+  let outsiderId: string;
+  let organizationId: string;
+
+  const countEntries = (userId: string, filter = 'true') =>
+    asUser(db, userId, async (tx) => {
+      const { rows } = await tx.query<{ count: number }>(
+        `SELECT count(*)::int AS count FROM public.audit_log WHERE organization_id = $1 AND ${filter}`,
+        [organizationId]
+      );
+      return rows[0].count;
+    });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ownerId = await createUser(db, 'owner@example.com');
+    memberId = await createUser(db, 'member@example.com');
+    outsiderId = await createUser(db, 'outsider@example.com');
+    organizationId = await createOrganization(db, 'Orchard Cidery', ownerId);
+    await db.query(
+      "INSERT INTO public.organization_members (organization_id, user_id, role) VALUES ($1, $2, 'member')",
+      [organizationId, memberId]
+    );
+    await db.query(
+      `INSERT INTO public.batches (organization_id, name, variety, volume, start_date, current_stage, created_by)
+       VALUES ($1, 'Dabinett 2025', 'Dabinett', 200, '2025-10-01', 'pressing', $2)`,
+      [organizationId, ownerId]
+    );
+  }, 60_000);
+
+  it('shows the whole log to members with view_activity', async () => {
+    expect(await countEntries(ownerId, 'batch_id IS NULL')).toBeGreaterThan(0);
+  });
+
+  it('shows other members only batch history', async () => {
+    expect(await countEntries(memberId, 'batch_id IS NOT NULL')).toBeGreaterThan(0);
+    expect(await countEntries(memberId, 'batch_id IS NULL')).toBe(0);
+  });
+
+  it('shows nothing to non-members', async () => {
+    expect(await countEntries(outsiderId)).toBe(0);
+  });
+});
+
+describe('stage configuration', () => {
+  let db: PGlite;
+  let ownerId: string;
+  let organizationId: string;
+  let otherStageId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ownerId = await createUser(db, 'owner@example.com');
+    const otherOwnerId = await createUser(db, 'other@example.com');
+    organizationId = await createOrganization(db, 'Orchard Cidery', ownerId);
+    const otherOrganizationId = await createOrganization(db, 'Other Cidery', otherOwnerId);
+
+    const { rows } = await db.query<{ id: string }>(
+      'SELECT id FROM public.production_stages WHERE organization_id = $1 ORDER BY position LIMIT 1',
+      [otherOrganizationId]
+    );
+    otherStageId = rows[0].id;
+  }, 60_000);
+
+  it("won't point a transition at another organization's stage", async () => {
+    await expect(
+      asUser(db, ownerId, (tx) =>
+        tx.query(
+          `UPDATE public.production_stage_transitions SET to_stage_id = $2
+           WHERE id = (SELECT id FROM public.production_stage_transitions WHERE organization_id = $1 LIMIT 1)`,
+          [organizationId, otherStageId]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("won't move a guard rule onto another organization's stage", async () => {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.stage_guard_rules (organization_id, stage_id, rule_type)
+       SELECT organization_id, id, 'tasting_note' FROM public.production_stages
+       WHERE organization_id = $1 ORDER BY position DESC LIMIT 1
+       RETURNING id`,
+      [organizationId]
+    );
+
+    await expect(
+      asUser(db, ownerId, (tx) =>
+        tx.query('UPDATE public.stage_guard_rules SET stage_id = $2 WHERE id = $1', [rows[0].id, otherStageId])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { applyMigrationsFrom, createOrganization, createTestDatabase, createUser } from './database';
+
+const SESSIONS_MIGRATION = '20251121000000_tasting_note_sessions.sql';
+
+describe('tasting note sessions migration', () => {
+  let db: PGlite;
+  let batchId: string;
+  let tasterId: string;
+  let otherTasterId: string;
+
+  const addNote = (createdBy: string | null, createdAt: string, fields: Record<string, string | number | null>) => {
+    const columns = Object.keys(fields);
+    return db.query(
+      `INSERT INTO public.tasting_notes (batch_id, recorded_at, created_by, created_at, ${columns.join(', ')})
+       VALUES ($1, '2025-11-01', $2, $3, ${columns.map((_, index) => `$${index + 4}`).join(', ')})`,
+      [batchId, createdBy, createdAt, ...Object.values(fields)]
+    );
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase({ before: SESSIONS_MIGRATION });
+    tasterId = await createUser(db, 'taster@example.com');
+    otherTasterId = await createUser(db, 'other@example.com');
+    const organizationId = await createOrganization(db, 'Orchard Cidery', tasterId);
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.batches (organization_id, name, variety, volume, start_date, created_by)
+       VALUES ($1, 'Dabinett 2025', 'Dabinett', 200, '2025-10-01', $2) RETURNING id`,
+      [organizationId, tasterId]
+    );
+    batchId = rows[0].id;
+
+    // Notes saved before sessions, when a member could add several for a batch on one day
+    await addNote(tasterId, '2025-11-01T09:00:00Z', { sweetness: 2, acidity: 4, body: null, aroma: 'Green apple', notes: 'Still cloudy' });
+    await addNote(tasterId, '2025-11-01T15:00:00Z', { sweetness: 3, acidity: null, body: 3, aroma: '', notes: 'Clearing' });
+    await addNote(otherTasterId, '2025-11-01T10:00:00Z', { sweetness: 4, notes: 'Sweet' });
+    await addNote(null, '2025-11-01T11:00:00Z', { notes: 'Former member' });
+    await addNote(null, '2025-11-01T12:00:00Z', { notes: 'Another former member' });
+
+    await applyMigrationsFrom(db, SESSIONS_MIGRATION);
+  }, 60_000);
+
+  it("folds a member's notes for a day into their latest one", async () => {
+    const { rows } = await db.query(
+      `SELECT sweetness, acidity, body, aroma, notes, created_at::text AS created_at
+       FROM public.tasting_notes WHERE created_by = $1`,
+      [tasterId]
+    );
+
+    expect(rows).toEqual([
+      {
+        sweetness: 3,
+        acidity: 4,
+        body: 3,
+        aroma: 'Green apple',
+        notes: 'Still cloudy\nClearing',
+        created_at: '2025-11-01 15:00:00+00',
+      },
+    ]);
+  });
+
+  it("leaves other members' notes and notes without an author alone", async () => {
+    const { rows } = await db.query<{ notes: string }>(
+      'SELECT notes FROM public.tasting_notes WHERE created_by IS DISTINCT FROM $1 ORDER BY created_at',
+      [tasterId]
+    );
+
+    expect(rows.map((row) => row.notes)).toEqual(['Sweet', 'Former member', 'Another former member']);
+  });
+});